@@ -3,7 +3,13 @@ import { Scene } from './rendering/Scene';
 import { HUD } from './ui/HUD';
 import { ComboIndicator } from './ui/ComboIndicator';
 import { SettingsModal } from './ui/SettingsModal';
+import { Leaderboard } from './ui/Leaderboard';
+import { Calibration } from './ui/Calibration';
 import { initializeSettings } from './state/settingsStore';
+import { useHaptics } from './hooks/useHaptics';
+import { usePause } from './hooks/usePause';
+import { useMusicLibrary } from './hooks/useMusicLibrary';
+import { useMuteWhenHidden } from './hooks/useMuteWhenHidden';
 
 export default function App() {
   // Initialize settings (apply persisted theme) on mount
@@ -11,12 +17,26 @@ export default function App() {
     initializeSettings();
   }, []);
 
+  // Vibrate on placements (mobile)
+  useHaptics();
+
+  // Pause on tab switch / focus loss, count down on resume
+  usePause();
+
+  // Feed the playlist (bundled + user tracks) to the music player
+  useMusicLibrary();
+
+  // Go quiet while the tab is in the background
+  useMuteWhenHidden();
+
   return (
     <>
       <Scene />
       <HUD />
       <ComboIndicator />
       <SettingsModal />
+      <Leaderboard />
+      <Calibration />
     </>
   );
 }
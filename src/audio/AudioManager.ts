@@ -4,18 +4,81 @@
  * Features:
  * - Lazy AudioContext initialization on first user gesture
  * - Procedural SFX synthesis (no external assets)
- * - Separate music and SFX volume controls
+ * - Master, music and SFX volume controls, a per-sound mixer and mute
+ *   (user mute and an automatic one while the tab is hidden)
  * - Perceptual volume curve for natural loudness
  * - Debug logging for development
+ * - Musical SFX: perfects climb a scale in a chosen key, optionally
+ *   snapped to the music's beat
+ * - Spatial SFX: positioned sounds go through a PannerNode, heard from an
+ *   AudioListener that follows the camera; stereo width and mono output
+ *   are adjustable
  */
 
-export type SFXName = 'perfect' | 'slice' | 'place' | 'gameover' | 'ui' | 'combo';
+import type { Vector3 } from '@/core/types';
+import { GAME_CONSTANTS } from '@/core/types';
+
+import { DEFAULT_SFX_LEVELS, clampLevel, isMixerChannel } from './Mixer';
+import type { MixerChannel, SfxLevels } from './Mixer';
+import { getScaleNote, getTonic, getTriad, midiToFrequency, quantizeTime } from './MusicTheory';
+import type { BeatGrid, MusicalKey, ScaleName } from './MusicTheory';
+
+export type SFXName =
+  | 'perfect'
+  | 'slice'
+  | 'place'
+  | 'gameover'
+  | 'ui'
+  | 'combo'
+  | 'regrow'
+  | 'rewind'
+  | 'metronome'
+  | 'fall';
 
 export interface PlayOptions {
   /** Multiplier for combo sounds (2, 3, 4+) */
   multiplier?: number;
+  /** Higher, louder metronome tick (count-in beats) */
+  accent?: boolean;
+  /** Scale step for perfect hits (the streak climbs it) */
+  step?: number;
+  /** Scale the step climbs */
+  scale?: ScaleName;
+  /** Key perfect and combo sounds are pitched in */
+  key?: MusicalKey;
+  /** Hold the sound back to land on the music's beat grid */
+  quantize?: boolean;
+  /** World position to play from (omit for a centered, unpanned sound) */
+  position?: Vector3;
+  /** World velocity (units/s) for sounds that move, like a falling piece */
+  velocity?: Vector3;
+}
+
+/** Camera pose the listener hears from */
+interface ListenerPose {
+  position: Vector3;
+  forward: Vector3;
+  up: Vector3;
 }
 
+/**
+ * AudioListener as Firefox ships it: no position/orientation AudioParams,
+ * only the setters the spec has since deprecated.
+ */
+interface SetterAudioListener {
+  setPosition(x: number, y: number, z: number): void;
+  setOrientation(x: number, y: number, z: number, xUp: number, yUp: number, zUp: number): void;
+}
+
+function hasListenerParams(
+  listener: AudioListener | SetterAudioListener
+): listener is AudioListener {
+  return 'positionX' in listener;
+}
+
+/** Reports where the music's beats fall, if anything is playing */
+export type BeatGridProvider = () => BeatGrid | null;
+
 /**
  * Debug flag - set to true to log all audio events.
  * Disabled in production builds.
@@ -33,8 +96,41 @@ const GAIN_LEVELS = {
   gameover: 0.35,
   ui: 0.18,
   combo: 0.35,
+  regrow: 0.28,
+  rewind: 0.3,
+  metronome: 0.35,
+  fall: 0.22,
+} as const;
+
+/**
+ * Spatial audio tuning. Distances are in world units.
+ */
+const SPATIAL_CONFIG = {
+  /** Distance at which a panned sound plays at full level */
+  REF_DISTANCE: 12,
+  /** How quickly sounds fade past REF_DISTANCE (kept low: the camera is far off) */
+  ROLLOFF: 0.4,
+  /** Panner nodes are released after this long (ms), past any sound's tail */
+  VOICE_LIFETIME_MS: 2000,
+  /** Falling whoosh length (s) and trajectory sample spacing (s) */
+  FALL_DURATION: 0.9,
+  FALL_STEP: 0.1,
 } as const;
 
+/** Time constant for master level and mute changes (s) */
+const MASTER_SMOOTHING = 0.03;
+
+/** Matches the camera's starting spot until CameraRig reports in */
+const DEFAULT_LISTENER: ListenerPose = {
+  position: { x: 12, y: 8, z: 12 },
+  forward: { x: -0.64, y: -0.43, z: -0.64 },
+  up: { x: 0, y: 1, z: 0 },
+};
+
+/** Key and scale SFX use when the caller doesn't choose (A5 tonic) */
+const DEFAULT_KEY: MusicalKey = 'A';
+const DEFAULT_SCALE: ScaleName = 'minorPentatonic';
+
 function debugLog(message: string, ...args: unknown[]): void {
   if (AUDIO_DEBUG) {
     console.log(`[AUDIO] ${message}`, ...args);
@@ -55,14 +151,24 @@ class AudioManagerImpl {
   private masterGain: GainNode | null = null;
   private sfxGain: GainNode | null = null;
   private musicGain: GainNode | null = null;
+  /** One bus per mixer channel, between its voices and sfxGain */
+  private channelGains: Partial<Record<MixerChannel, GainNode>> = {};
 
   private musicSource: AudioBufferSourceNode | null = null;
+  private beatGridProvider: BeatGridProvider | null = null;
+  private listenerPose: ListenerPose = DEFAULT_LISTENER;
+  private stereoWidth = 1;
+  private monoAudio = false;
   private initialized = false;
   private unlockAttempted = false;
 
   // Volume state (persisted via settingsStore)
   private _musicVolume = 80;
   private _sfxVolume = 80;
+  private _masterVolume = 100;
+  private sfxLevels: SfxLevels = { ...DEFAULT_SFX_LEVELS };
+  private muted = false;
+  private backgroundMuted = false;
 
   /**
    * Initialize AudioContext on first user gesture.
@@ -87,7 +193,9 @@ class AudioManagerImpl {
       // Create gain node hierarchy: source -> sfx/music -> master -> destination
       this.masterGain = this.context.createGain();
       this.masterGain.connect(this.context.destination);
-      this.masterGain.gain.value = 1.0;
+      this.masterGain.gain.value = this.getMasterLevel();
+
+      this.applyMonoAudio();
 
       this.sfxGain = this.context.createGain();
       this.sfxGain.connect(this.masterGain);
@@ -129,6 +237,214 @@ class AudioManagerImpl {
     return this.masterGain;
   }
 
+  /**
+   * Let quantized sounds follow the music (registered by MusicManager).
+   */
+  setBeatGridProvider(provider: BeatGridProvider | null): void {
+    this.beatGridProvider = provider;
+  }
+
+  /**
+   * When a sound should start: now, or the next beat subdivision if
+   * quantizing and the music reports a grid.
+   */
+  private getStartTime(ctx: AudioContext, quantize: boolean): number {
+    const now = ctx.currentTime;
+    const grid = quantize ? this.beatGridProvider?.() : null;
+    return grid ? quantizeTime(now, grid) : now;
+  }
+
+  /**
+   * Move the listener to the camera. Call every frame from the camera rig.
+   */
+  updateListener(position: Vector3, forward: Vector3, up: Vector3): void {
+    this.listenerPose = {
+      position: { x: position.x, y: position.y, z: position.z },
+      forward: { x: forward.x, y: forward.y, z: forward.z },
+      up: { x: up.x, y: up.y, z: up.z },
+    };
+    if (!this.context) return;
+
+    const listener: AudioListener | SetterAudioListener = this.context.listener;
+    if (hasListenerParams(listener)) {
+      listener.positionX.value = position.x;
+      listener.positionY.value = position.y;
+      listener.positionZ.value = position.z;
+      listener.forwardX.value = forward.x;
+      listener.forwardY.value = forward.y;
+      listener.forwardZ.value = forward.z;
+      listener.upX.value = up.x;
+      listener.upY.value = up.y;
+      listener.upZ.value = up.z;
+    } else {
+      // Firefox has never shipped the AudioParams
+      listener.setPosition(position.x, position.y, position.z);
+      listener.setOrientation(forward.x, forward.y, forward.z, up.x, up.y, up.z);
+    }
+  }
+
+  /**
+   * How far apart panned sounds spread (0-100, 0 = everything centered).
+   */
+  setStereoWidth(width: number): void {
+    this.stereoWidth = Math.max(0, Math.min(100, width)) / 100;
+    debugLog('Stereo width set to', width);
+  }
+
+  /**
+   * Sum everything (SFX and music) to mono, for players who hear
+   * from one side only. Panning is skipped while on.
+   */
+  setMonoAudio(enabled: boolean): void {
+    this.monoAudio = enabled;
+    this.applyMonoAudio();
+    debugLog('Mono audio', enabled);
+  }
+
+  private applyMonoAudio(): void {
+    if (!this.masterGain) return;
+    // Downmixing the master bus to one channel plays it on both speakers
+    this.masterGain.channelCountMode = 'explicit';
+    this.masterGain.channelInterpretation = 'speakers';
+    this.masterGain.channelCount = this.monoAudio ? 1 : 2;
+  }
+
+  /**
+   * Pull a world position toward the listener's center line by the
+   * stereo width, so narrow widths pan less without changing distance cues.
+   */
+  private narrowPosition(position: Vector3): Vector3 {
+    const { position: origin, forward, up } = this.listenerPose;
+    // right = forward x up
+    let rx = forward.y * up.z - forward.z * up.y;
+    let ry = forward.z * up.x - forward.x * up.z;
+    let rz = forward.x * up.y - forward.y * up.x;
+    const length = Math.hypot(rx, ry, rz) || 1;
+    rx /= length;
+    ry /= length;
+    rz /= length;
+
+    const lateral =
+      (position.x - origin.x) * rx + (position.y - origin.y) * ry + (position.z - origin.z) * rz;
+    const squeeze = lateral * (1 - this.stereoWidth);
+    return {
+      x: position.x - rx * squeeze,
+      y: position.y - ry * squeeze,
+      z: position.z - rz * squeeze,
+    };
+  }
+
+  private setPannerPosition(panner: PannerNode, position: Vector3, time: number, ramp: boolean): void {
+    const { x, y, z } = this.narrowPosition(position);
+    const params: [AudioParam, number][] = [
+      [panner.positionX, x],
+      [panner.positionY, y],
+      [panner.positionZ, z],
+    ];
+    for (const [param, value] of params) {
+      if (ramp) {
+        param.linearRampToValueAtTime(value, time);
+      } else {
+        param.setValueAtTime(value, time);
+      }
+    }
+  }
+
+  /**
+   * Where a voice connects: straight into the SFX bus, or through a
+   * panner at `position` when one is given (and mono is off).
+   */
+  private createVoiceOutput(ctx: AudioContext, sfx: GainNode, position?: Vector3): {
+    output: AudioNode;
+    panner: PannerNode | null;
+  } {
+    if (!position || this.monoAudio) return { output: sfx, panner: null };
+
+    const panner = ctx.createPanner();
+    panner.panningModel = 'equalpower';
+    panner.distanceModel = 'inverse';
+    panner.refDistance = SPATIAL_CONFIG.REF_DISTANCE;
+    panner.rolloffFactor = SPATIAL_CONFIG.ROLLOFF;
+    this.setPannerPosition(panner, position, ctx.currentTime, false);
+    panner.connect(sfx);
+
+    setTimeout(() => {
+      panner.disconnect();
+    }, SPATIAL_CONFIG.VOICE_LIFETIME_MS);
+    return { output: panner, panner };
+  }
+
+  /**
+   * Master bus level: the master volume, or silence while muted.
+   */
+  private getMasterLevel(): number {
+    return this.muted || this.backgroundMuted ? 0 : volumeToGain(this._masterVolume);
+  }
+
+  private applyMasterLevel(): void {
+    if (!this.masterGain || !this.context) return;
+    const now = this.context.currentTime;
+    this.masterGain.gain.cancelScheduledValues(now);
+    this.masterGain.gain.setTargetAtTime(this.getMasterLevel(), now, MASTER_SMOOTHING);
+  }
+
+  /**
+   * Set master volume (0-100), applied to SFX and music alike.
+   */
+  setMasterVolume(volume: number): void {
+    this._masterVolume = clampLevel(volume);
+    this.applyMasterLevel();
+    debugLog('Master volume set to', volume);
+  }
+
+  /**
+   * Silence everything (the player's mute toggle).
+   */
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    this.applyMasterLevel();
+    debugLog('Muted', muted);
+  }
+
+  /**
+   * Silence everything while the tab is hidden, independent of the
+   * player's mute so unhiding doesn't undo it.
+   */
+  setBackgroundMuted(muted: boolean): void {
+    this.backgroundMuted = muted;
+    this.applyMasterLevel();
+    debugLog('Background muted', muted);
+  }
+
+  /**
+   * Set one sound's level (0-100) relative to the SFX volume.
+   */
+  setSfxLevel(channel: MixerChannel, level: number): void {
+    this.sfxLevels[channel] = clampLevel(level);
+    const bus = this.channelGains[channel];
+    if (bus && this.context) {
+      bus.gain.setValueAtTime(volumeToGain(this.sfxLevels[channel]), this.context.currentTime);
+    }
+    debugLog(`SFX level ${channel} set to`, level);
+  }
+
+  /**
+   * Bus a sound plays into: its mixer channel, or the SFX bus for sounds
+   * without one. Channel buses are created on first use.
+   */
+  private getSfxBus(ctx: AudioContext, sfx: GainNode, name: SFXName): GainNode {
+    if (!isMixerChannel(name)) return sfx;
+
+    let bus = this.channelGains[name];
+    if (!bus) {
+      bus = ctx.createGain();
+      bus.gain.value = volumeToGain(this.sfxLevels[name]);
+      bus.connect(sfx);
+      this.channelGains[name] = bus;
+    }
+    return bus;
+  }
+
   /**
    * Set SFX volume (0-100).
    */
@@ -165,48 +481,70 @@ class AudioManagerImpl {
       debugLog(`play(${name}) - SKIPPED: AudioContext not ready`);
       return;
     }
-    if (this._sfxVolume === 0) {
+    if (this._sfxVolume === 0 || (isMixerChannel(name) && this.sfxLevels[name] === 0)) {
       debugLog(`play(${name}) - SKIPPED: volume is 0`);
       return;
     }
 
     debugLog(`play(${name})`, options || '');
 
+    const bus = this.getSfxBus(this.context, this.sfxGain, name);
+    const { output, panner } = this.createVoiceOutput(this.context, bus, options?.position);
+
     switch (name) {
       case 'perfect':
-        this.playPerfect();
+        this.playPerfect(output, options ?? {});
         break;
       case 'slice':
-        this.playSlice();
+        this.playSlice(output);
         break;
       case 'place':
-        this.playPlace();
+        this.playPlace(output);
         break;
       case 'gameover':
-        this.playGameOver();
+        this.playGameOver(output);
         break;
       case 'ui':
-        this.playUI();
+        this.playUI(output);
         break;
       case 'combo':
-        this.playCombo(options?.multiplier ?? 2);
+        this.playCombo(output, options?.multiplier ?? 2, options ?? {});
+        break;
+      case 'regrow':
+        this.playRegrow(output);
+        break;
+      case 'rewind':
+        this.playRewind(output);
+        break;
+      case 'metronome':
+        this.playMetronome(output, options?.accent ?? false);
+        break;
+      case 'fall':
+        this.playFall(output, panner, options ?? {});
         break;
     }
   }
 
   /**
-   * Perfect hit: Bright ping with upward pitch bend
+   * Perfect hit: Bright ping with upward pitch bend, on a scale step
+   * (a rising streak plays an ascending melody)
    */
-  private playPerfect(): void {
+  private playPerfect(output: AudioNode, {
+    step = 0,
+    scale = DEFAULT_SCALE,
+    key = DEFAULT_KEY,
+    quantize = false,
+  }: PlayOptions): void {
     const ctx = this.context!;
-    const now = ctx.currentTime;
+    const now = this.getStartTime(ctx, quantize);
     const baseGain = GAIN_LEVELS.perfect;
+    const freq = midiToFrequency(getScaleNote(step, scale, key));
 
-    // Create oscillator - triangle wave for brightness
+    // Create oscillator - triangle wave for brightness, bending up a fifth
     const osc = ctx.createOscillator();
     osc.type = 'triangle';
-    osc.frequency.setValueAtTime(880, now); // A5
-    osc.frequency.exponentialRampToValueAtTime(1320, now + 0.05); // Up to E6
+    osc.frequency.setValueAtTime(freq, now);
+    osc.frequency.exponentialRampToValueAtTime(freq * 1.5, now + 0.05);
 
     // Envelope
     const gain = ctx.createGain();
@@ -216,8 +554,8 @@ class AudioManagerImpl {
     // Add subtle harmonic
     const osc2 = ctx.createOscillator();
     osc2.type = 'sine';
-    osc2.frequency.setValueAtTime(1760, now); // A6
-    osc2.frequency.exponentialRampToValueAtTime(2640, now + 0.05);
+    osc2.frequency.setValueAtTime(freq * 2, now); // Octave up
+    osc2.frequency.exponentialRampToValueAtTime(freq * 3, now + 0.05);
 
     const gain2 = ctx.createGain();
     gain2.gain.setValueAtTime(baseGain * 0.5, now);
@@ -226,8 +564,8 @@ class AudioManagerImpl {
     // Connect
     osc.connect(gain);
     osc2.connect(gain2);
-    gain.connect(this.sfxGain!);
-    gain2.connect(this.sfxGain!);
+    gain.connect(output);
+    gain2.connect(output);
 
     // Play
     osc.start(now);
@@ -249,7 +587,7 @@ class AudioManagerImpl {
   /**
    * Slice: Crisp noise burst with transient click - IMPROVED for audibility
    */
-  private playSlice(): void {
+  private playSlice(output: AudioNode): void {
     const ctx = this.context!;
     const now = ctx.currentTime;
     const baseGain = GAIN_LEVELS.slice;
@@ -289,11 +627,11 @@ class AudioManagerImpl {
     // Connect noise path
     noise.connect(filter);
     filter.connect(noiseGain);
-    noiseGain.connect(this.sfxGain!);
+    noiseGain.connect(output);
 
     // Connect click path
     click.connect(clickGain);
-    clickGain.connect(this.sfxGain!);
+    clickGain.connect(output);
 
     // Play
     noise.start(now);
@@ -316,7 +654,7 @@ class AudioManagerImpl {
   /**
    * Place: Low thump with pitch drop
    */
-  private playPlace(): void {
+  private playPlace(output: AudioNode): void {
     const ctx = this.context!;
     const now = ctx.currentTime;
     const baseGain = GAIN_LEVELS.place;
@@ -344,8 +682,8 @@ class AudioManagerImpl {
     // Connect
     osc.connect(gain);
     click.connect(clickGain);
-    gain.connect(this.sfxGain!);
-    clickGain.connect(this.sfxGain!);
+    gain.connect(output);
+    clickGain.connect(output);
 
     // Play
     osc.start(now);
@@ -368,14 +706,19 @@ class AudioManagerImpl {
    * Combo: Bright ascending ping based on multiplier
    * Higher multiplier = higher pitch
    */
-  private playCombo(multiplier: number): void {
+  private playCombo(
+    output: AudioNode,
+    multiplier: number,
+    { scale = DEFAULT_SCALE, key = DEFAULT_KEY, quantize = false }: PlayOptions
+  ): void {
     const ctx = this.context!;
-    const now = ctx.currentTime;
+    const now = this.getStartTime(ctx, quantize);
     const baseGain = GAIN_LEVELS.combo;
 
-    // Pitch increases with multiplier: 2x=A5, 3x=C#6, 4+=E6
-    const pitchMultiplier = Math.min(multiplier, 4);
-    const baseFreq = 880 * Math.pow(1.26, pitchMultiplier - 2); // ~major third per step
+    // Pitch climbs the key's triad with multiplier: 2x=root, 3x=third, 4+=fifth
+    const pitchMultiplier = Math.min(Math.max(multiplier, 2), 4);
+    const interval = getTriad(scale)[pitchMultiplier - 2] ?? 0;
+    const baseFreq = midiToFrequency(getTonic(key) + interval);
 
     // Main oscillator - sine for purity
     const osc = ctx.createOscillator();
@@ -401,8 +744,8 @@ class AudioManagerImpl {
     // Connect
     osc.connect(gain);
     osc2.connect(gain2);
-    gain.connect(this.sfxGain!);
-    gain2.connect(this.sfxGain!);
+    gain.connect(output);
+    gain2.connect(output);
 
     // Play
     osc.start(now);
@@ -423,10 +766,150 @@ class AudioManagerImpl {
     debugLog(`Combo sound played with multiplier ${multiplier}, freq ${baseFreq.toFixed(0)}Hz`);
   }
 
+  /**
+   * Regrow: Rising detuned shimmer that opens up as it climbs
+   */
+  private playRegrow(output: AudioNode): void {
+    const ctx = this.context;
+    if (!ctx) return;
+    const now = ctx.currentTime;
+    const baseGain = GAIN_LEVELS.regrow;
+    const duration = 0.3;
+
+    // Two slightly detuned triangles for a chorus-like shimmer
+    const osc = ctx.createOscillator();
+    osc.type = 'triangle';
+    osc.frequency.setValueAtTime(440, now); // A4
+    osc.frequency.exponentialRampToValueAtTime(1320, now + duration); // Up to E6
+
+    const osc2 = ctx.createOscillator();
+    osc2.type = 'triangle';
+    osc2.frequency.setValueAtTime(446, now);
+    osc2.frequency.exponentialRampToValueAtTime(1340, now + duration);
+
+    // Lowpass opens with the sweep
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(900, now);
+    filter.frequency.exponentialRampToValueAtTime(6000, now + duration);
+
+    // Envelope - soft attack, short tail
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.01, now);
+    gain.gain.exponentialRampToValueAtTime(baseGain, now + 0.05);
+    gain.gain.exponentialRampToValueAtTime(0.01, now + duration + 0.1);
+
+    // Connect
+    osc.connect(filter);
+    osc2.connect(filter);
+    filter.connect(gain);
+    gain.connect(output);
+
+    // Play
+    osc.start(now);
+    osc2.start(now);
+    osc.stop(now + duration + 0.1);
+    osc2.stop(now + duration + 0.1);
+
+    // Cleanup
+    osc.onended = () => {
+      osc.disconnect();
+      osc2.disconnect();
+      filter.disconnect();
+      gain.disconnect();
+    };
+  }
+
+  /**
+   * Rewind: Reverse-envelope swell that sweeps down, like tape pulled backwards
+   */
+  private playRewind(output: AudioNode): void {
+    const ctx = this.context;
+    if (!ctx) return;
+    const now = ctx.currentTime;
+    const baseGain = GAIN_LEVELS.rewind;
+    const duration = 0.35;
+
+    const osc = ctx.createOscillator();
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(1200, now);
+    osc.frequency.exponentialRampToValueAtTime(300, now + duration);
+
+    // Bandpass keeps the saw from getting harsh
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.frequency.setValueAtTime(1800, now);
+    filter.frequency.exponentialRampToValueAtTime(500, now + duration);
+    filter.Q.setValueAtTime(2, now);
+
+    // Envelope - swells in and cuts off, the reverse of a pluck
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.01, now);
+    gain.gain.exponentialRampToValueAtTime(baseGain, now + duration);
+    gain.gain.exponentialRampToValueAtTime(0.01, now + duration + 0.03);
+
+    // Connect
+    osc.connect(filter);
+    filter.connect(gain);
+    gain.connect(output);
+
+    // Play
+    osc.start(now);
+    osc.stop(now + duration + 0.05);
+
+    // Cleanup
+    osc.onended = () => {
+      osc.disconnect();
+      filter.disconnect();
+      gain.disconnect();
+    };
+  }
+
+  /**
+   * Metronome: Sharp woodblock-like tick with an instant attack, so the
+   * heard onset is as close as possible to when it was triggered
+   */
+  private playMetronome(output: AudioNode, accent: boolean): void {
+    const ctx = this.context;
+    if (!ctx) return;
+    const now = ctx.currentTime;
+    const baseGain = GAIN_LEVELS.metronome * (accent ? 1.3 : 1);
+    const duration = 0.05;
+
+    const osc = ctx.createOscillator();
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(accent ? 1760 : 1320, now);
+
+    // Lowpass rounds the square into a click
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(3000, now);
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(baseGain, now);
+    gain.gain.exponentialRampToValueAtTime(0.01, now + duration);
+
+    // Connect
+    osc.connect(filter);
+    filter.connect(gain);
+    gain.connect(output);
+
+    // Play
+    osc.start(now);
+    osc.stop(now + duration + 0.01);
+
+    // Cleanup
+    osc.onended = () => {
+      osc.disconnect();
+      filter.disconnect();
+      gain.disconnect();
+    };
+  }
+
   /**
    * Game Over: Low down-sweep with longer decay
    */
-  private playGameOver(): void {
+  private playGameOver(output: AudioNode): void {
     const ctx = this.context!;
     const now = ctx.currentTime;
     const baseGain = GAIN_LEVELS.gameover;
@@ -462,7 +945,7 @@ class AudioManagerImpl {
     osc.connect(filter);
     osc2.connect(filter);
     filter.connect(gain);
-    gain.connect(this.sfxGain!);
+    gain.connect(output);
 
     // Play
     osc.start(now);
@@ -479,10 +962,71 @@ class AudioManagerImpl {
     };
   }
 
+  /**
+   * Fall: Noise whoosh that drops in pitch and fades as the piece tumbles
+   * away. The panner follows its ballistic path, so it sweeps past the ear.
+   */
+  private playFall(output: AudioNode, panner: PannerNode | null, { position, velocity }: PlayOptions): void {
+    const ctx = this.context;
+    if (!ctx) return;
+    const now = ctx.currentTime;
+    const baseGain = GAIN_LEVELS.fall;
+    const duration = SPATIAL_CONFIG.FALL_DURATION;
+
+    const bufferSize = Math.floor(ctx.sampleRate * duration);
+    const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < bufferSize; i++) {
+      data[i] = Math.random() * 2 - 1;
+    }
+
+    const noise = ctx.createBufferSource();
+    noise.buffer = buffer;
+
+    // Receding pitch: the band slides down like a passing object
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.Q.value = 3;
+    filter.frequency.setValueAtTime(1800, now);
+    filter.frequency.exponentialRampToValueAtTime(350, now + duration);
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.001, now);
+    gain.gain.exponentialRampToValueAtTime(baseGain, now + 0.06);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + duration);
+
+    // Trace the piece's fall: p + v*t + g*t^2/2
+    if (panner && position && velocity) {
+      const gravity = GAME_CONSTANTS.GRAVITY;
+      const steps = Math.floor(duration / SPATIAL_CONFIG.FALL_STEP + 1e-6);
+      for (let i = 1; i <= steps; i++) {
+        const t = i * SPATIAL_CONFIG.FALL_STEP;
+        this.setPannerPosition(panner, {
+          x: position.x + velocity.x * t,
+          y: position.y + velocity.y * t + 0.5 * gravity * t * t,
+          z: position.z + velocity.z * t,
+        }, now + t, true);
+      }
+    }
+
+    noise.connect(filter);
+    filter.connect(gain);
+    gain.connect(output);
+
+    noise.start(now);
+    noise.stop(now + duration);
+
+    noise.onended = () => {
+      noise.disconnect();
+      filter.disconnect();
+      gain.disconnect();
+    };
+  }
+
   /**
    * UI: Tiny soft click
    */
-  private playUI(): void {
+  private playUI(output: AudioNode): void {
     const ctx = this.context!;
     const now = ctx.currentTime;
     const baseGain = GAIN_LEVELS.ui;
@@ -500,7 +1044,7 @@ class AudioManagerImpl {
 
     // Connect
     osc.connect(gain);
-    gain.connect(this.sfxGain!);
+    gain.connect(output);
 
     // Play
     osc.start(now);
@@ -572,6 +1116,7 @@ class AudioManagerImpl {
     this.masterGain = null;
     this.sfxGain = null;
     this.musicGain = null;
+    this.channelGains = {};
     this.initialized = false;
     this.unlockAttempted = false;
     debugLog('AudioManager disposed');
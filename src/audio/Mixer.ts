@@ -0,0 +1,56 @@
+/**
+ * Mixer channels: sounds with their own level in the advanced audio
+ * settings. Pure data so persisted levels can be sanitized and tested.
+ */
+
+/** Sounds with an adjustable level */
+export type MixerChannel = 'perfect' | 'slice' | 'place' | 'combo' | 'gameover' | 'ui';
+
+/** Level of each channel (0-100, 100 = as designed) */
+export type SfxLevels = Record<MixerChannel, number>;
+
+export const MIXER_CHANNELS: readonly { channel: MixerChannel; label: string }[] = [
+  { channel: 'perfect', label: 'Perfect Hit' },
+  { channel: 'slice', label: 'Slice' },
+  { channel: 'place', label: 'Place' },
+  { channel: 'combo', label: 'Combo' },
+  { channel: 'gameover', label: 'Game Over' },
+  { channel: 'ui', label: 'Menu Clicks' },
+];
+
+export const DEFAULT_SFX_LEVELS: SfxLevels = {
+  perfect: 100,
+  slice: 100,
+  place: 100,
+  combo: 100,
+  gameover: 100,
+  ui: 100,
+};
+
+export function isMixerChannel(name: string): name is MixerChannel {
+  return MIXER_CHANNELS.some((entry) => entry.channel === name);
+}
+
+export function clampLevel(level: number): number {
+  return Math.max(0, Math.min(100, level));
+}
+
+/**
+ * Rebuild levels from untrusted (persisted) data: missing or invalid
+ * channels get the default, the rest are clamped to 0-100.
+ */
+export function sanitizeSfxLevels(value: unknown): SfxLevels {
+  const source = typeof value === 'object' && value !== null
+    ? (value as Partial<Record<MixerChannel, unknown>>)
+    : {};
+  const result = { ...DEFAULT_SFX_LEVELS };
+
+  for (const { channel } of MIXER_CHANNELS) {
+    const stored = source[channel];
+    if (typeof stored === 'number' && Number.isFinite(stored)) {
+      result[channel] = clampLevel(stored);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,142 @@
+/**
+ * MusicLibrary - user-supplied music tracks, kept in IndexedDB
+ *
+ * Files are stored as Blobs so they survive reloads without a server.
+ * Playback uses object URLs, created once per track and cached for the
+ * session.
+ */
+
+import type { MusicTrack } from './Playlist';
+
+const DB_NAME = 'neon-stack-music';
+const DB_VERSION = 1;
+const STORE_NAME = 'tracks';
+
+/** Largest file accepted (bytes) */
+export const MAX_TRACK_BYTES = 30 * 1024 * 1024;
+
+/** A stored user track */
+interface StoredTrack {
+  id: string;
+  name: string;
+  data: Blob;
+  addedAt: number;
+}
+
+/** Object URLs of loaded user tracks, by id */
+const trackUrls = new Map<string, string>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => {
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        reject(request.error ?? new Error('Failed to open music library'));
+      };
+    });
+    // Let a later call retry (e.g. after private browsing blocked it)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run one request in its own transaction.
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      reject(request.error ?? new Error('Music library request failed'));
+    };
+  });
+}
+
+function toTrack(stored: StoredTrack): MusicTrack {
+  let url = trackUrls.get(stored.id);
+  if (!url) {
+    url = URL.createObjectURL(stored.data);
+    trackUrls.set(stored.id, url);
+  }
+  return { id: stored.id, name: stored.name, url };
+}
+
+/**
+ * Track name from a file name ("My Song.mp3" -> "My Song").
+ */
+function trackNameFromFile(fileName: string): string {
+  const name = fileName.replace(/\.[^.]+$/, '').trim();
+  return name || 'Untitled';
+}
+
+/**
+ * All stored user tracks, oldest first.
+ */
+export async function loadUserTracks(): Promise<MusicTrack[]> {
+  const stored = await runRequest<StoredTrack[]>('readonly', (store) =>
+    store.getAll() as IDBRequest<StoredTrack[]>
+  );
+  return stored.sort((a, b) => a.addedAt - b.addedAt).map(toTrack);
+}
+
+/**
+ * Store an audio file. Throws with a user-facing message if the file
+ * isn't audio or is too large.
+ */
+export async function saveUserTrack(file: File): Promise<MusicTrack> {
+  if (!file.type.startsWith('audio/')) {
+    throw new Error(`${file.name} is not an audio file`);
+  }
+  if (file.size > MAX_TRACK_BYTES) {
+    throw new Error(`${file.name} is larger than ${String(MAX_TRACK_BYTES / 1024 / 1024)} MB`);
+  }
+
+  const stored: StoredTrack = {
+    id: `user:${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: trackNameFromFile(file.name),
+    data: file,
+    addedAt: Date.now(),
+  };
+  await runRequest('readwrite', (store) => store.put(stored));
+  return toTrack(stored);
+}
+
+/**
+ * Remove a stored track and release its object URL.
+ */
+export async function deleteUserTrack(id: string): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete(id));
+  const url = trackUrls.get(id);
+  if (url) {
+    URL.revokeObjectURL(url);
+    trackUrls.delete(id);
+  }
+}
+
+/**
+ * Playback URL of a loaded user track, or undefined if not loaded.
+ */
+export function getUserTrackUrl(id: string): string | undefined {
+  return trackUrls.get(id);
+}
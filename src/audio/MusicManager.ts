@@ -1,11 +1,23 @@
 /**
- * MusicManager - Background music system with shuffle bag playback
+ * MusicManager - Background music system playing a playlist of tracks
+ * or a procedural synth (see SynthMusic)
  *
  * Features:
- * - No-repeat shuffle bag algorithm for track rotation
+ * - Editable playlist with pluggable playback strategies (see Playlist)
  * - HTMLAudioElement + WebAudio GainNode for volume/fades
  * - Mobile-safe: requires unlock() on first user gesture
  * - Smooth fade in/out transitions
+ * - Pause/resume that keeps the track position
+ * - Adaptive mix: streak-driven low-pass and intensity layer, a muffled
+ *   game over, and a side-chain style dip on each placement
+ *
+ * Signal chain:
+ *   mediaSource ─┐             ┌─> baseLayer ───────────────────┐
+ *                ├─> sourceBus ┤                                ├─> toneFilter -> duckGain -> gainNode -> out
+ *   synth ───────┘             └─> intensityEq -> intensityLayer ┘
+ *
+ * Both layers carry the same signal, so the crossfade never drifts in
+ * tempo or pitch and works with any track file or the synth.
  */
 
 /**
@@ -13,20 +25,12 @@
  */
 const MUSIC_DEBUG = import.meta.env.DEV && true;
 
-/**
- * Track URLs (files in public/music/)
- */
-const TRACK_URLS = [
-  '/music/NS-1.mp3',
-  '/music/NS-2.mp3',
-  '/music/NS-3.mp3',
-  '/music/NS-4.mp3',
-  '/music/NS-5.mp3',
-  '/music/NS-6.mp3',
-  '/music/NS-7.mp3',
-];
-
 import { getAudioManager } from './AudioManager';
+import { SynthMusic } from './SynthMusic';
+import { BUILTIN_TRACKS, TRACK_INFO, createPlaybackStrategy, getTrackBeatGrid } from './Playlist';
+import type { MusicSource } from './SynthMusic';
+import type { BeatGrid, MusicalKey } from './MusicTheory';
+import type { MusicTrack, PlaybackMode, PlaybackStrategy } from './Playlist';
 
 /**
  * Fade durations in seconds
@@ -35,39 +39,66 @@ const FADE_IN_DURATION = 0.25;
 const FADE_OUT_DURATION = 0.35;
 const MAX_MUSIC_GAIN = 0.2;
 
+/**
+ * Adaptive mix tuning
+ */
+const ADAPTIVE_CONFIG = {
+  /** Perfect streak at which the music is fully open */
+  FULL_INTENSITY_STREAK: 8,
+  /** Low-pass cutoff at zero and full intensity (Hz) */
+  CUTOFF_MIN: 1400,
+  CUTOFF_MAX: 18000,
+  /** Intensity layer EQ: presence shelf and bass shelf (dB) */
+  INTENSITY_TREBLE_DB: 6,
+  INTENSITY_BASS_DB: 4,
+  /** Time constant for intensity changes (s) */
+  INTENSITY_SMOOTHING: 0.35,
+  /** Cutoff (Hz) and level once the run is over */
+  GAMEOVER_CUTOFF: 450,
+  GAMEOVER_LEVEL: 0.5,
+  /** Time constant for the game over muffle (s) */
+  GAMEOVER_SMOOTHING: 0.25,
+  /** Level the placement dip drops to, and its attack (s) and release constant (s) */
+  DUCK_LEVEL: 0.55,
+  DUCK_ATTACK: 0.015,
+  DUCK_RELEASE: 0.12,
+} as const;
+
 function debugLog(message: string, ...args: unknown[]): void {
   if (MUSIC_DEBUG) {
     console.log(`[MUSIC] ${message}`, ...args);
   }
 }
 
-/**
- * Fisher-Yates shuffle algorithm (in-place)
- */
-function shuffleArray<T>(array: T[]): T[] {
-  for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    const temp = array[i];
-    array[i] = array[j] as T;
-    array[j] = temp as T;
-  }
-  return array;
-}
-
 class MusicManagerImpl {
   private audioContext: AudioContext | null = null;
   private gainNode: GainNode | null = null;
+  private sourceBus: GainNode | null = null;
+  private baseLayer: GainNode | null = null;
+  private intensityLayer: GainNode | null = null;
+  private intensityEq: BiquadFilterNode[] = [];
+  private toneFilter: BiquadFilterNode | null = null;
+  private duckGain: GainNode | null = null;
   private audioElement: HTMLAudioElement | null = null;
   private mediaSource: MediaElementAudioSourceNode | null = null;
+  private synth: SynthMusic | null = null;
+  private source: MusicSource = 'tracks';
   private ownsAudioContext: boolean = false;
 
-  private shuffleBag: number[] = [];
-  private lastPlayedIndex: number = -1;
+  private playlist: MusicTrack[] = [...BUILTIN_TRACKS];
+  private playbackMode: PlaybackMode = 'shuffle';
+  private strategy: PlaybackStrategy = createPlaybackStrategy('shuffle');
+  private currentTrack: MusicTrack | null = null;
   private targetVolume: number = 0.8;
   private isPlaying: boolean = false;
+  private isPaused: boolean = false;
   private isUnlocked: boolean = false;
   private isInitialized: boolean = false;
   private pendingStart: boolean = false;
+  /** startLoop found the playlist empty; start once tracks are enabled */
+  private awaitingTracks: boolean = false;
+  private intensity: number = 0;
+  private isMuffled: boolean = false;
 
   // Track unique errors to avoid spam
   private loggedErrors: Set<string> = new Set();
@@ -80,7 +111,7 @@ class MusicManagerImpl {
 
     // Create audio element
     this.audioElement = new Audio();
-    this.audioElement.loop = true;
+    this.audioElement.loop = this.strategy.loopsTrack;
     this.audioElement.preload = 'auto';
 
     // Safari/iOS friendliness
@@ -97,8 +128,12 @@ class MusicManagerImpl {
       }
     });
 
-    // Refill shuffle bag
-    this.refillShuffleBag();
+    // Move on through the playlist (never fires while looping one track)
+    this.audioElement.addEventListener('ended', () => {
+      if (this.isPlaying && !this.isPaused && this.source === 'tracks') {
+        void this.playNextTrack();
+      }
+    });
 
     this.isInitialized = true;
     debugLog('Initialized');
@@ -158,21 +193,31 @@ class MusicManagerImpl {
 
       debugLog('GainNode connected');
 
-      // Connect audio element to WebAudio
-      if (this.audioElement) {
+      this.createAdaptiveChain(this.audioContext, this.gainNode);
+
+      // Connect audio element to WebAudio, feeding both layers
+      if (this.audioElement && this.sourceBus) {
         debugLog('Connecting audio element to WebAudio...');
         this.mediaSource = this.audioContext.createMediaElementSource(this.audioElement);
-        this.mediaSource.connect(this.gainNode);
+        this.mediaSource.connect(this.sourceBus);
         debugLog('Audio element connected');
       }
 
+      // The synth feeds the same chain, so the adaptive mix applies to it too
+      if (this.sourceBus) {
+        this.synth = new SynthMusic(this.audioContext, this.sourceBus);
+      }
+
+      // Quantized SFX follow whatever is playing
+      audioManager.setBeatGridProvider(() => this.getBeatGrid());
+
       // Try to play/pause to fully unlock on iOS (only if we have a source)
       // Note: play() on empty Audio element hangs, so we load a track first
       if (this.audioElement) {
         debugLog('Performing iOS unlock workaround...');
-        const firstTrack = TRACK_URLS[0];
+        const firstTrack = BUILTIN_TRACKS[0];
         if (firstTrack) {
-          this.audioElement.src = firstTrack;
+          this.audioElement.src = firstTrack.url;
           this.audioElement.muted = true;
           this.audioElement.volume = 0;
           try {
@@ -208,41 +253,203 @@ class MusicManagerImpl {
   }
 
   /**
-   * Refill and shuffle the track bag.
-   * Ensures first pick of new bag isn't same as last played.
+   * Build the layer, filter and duck nodes in front of the volume gain.
+   */
+  private createAdaptiveChain(ctx: AudioContext, output: GainNode): void {
+    this.duckGain = ctx.createGain();
+    this.duckGain.connect(output);
+
+    this.toneFilter = ctx.createBiquadFilter();
+    this.toneFilter.type = 'lowpass';
+    this.toneFilter.Q.value = 0.7;
+    this.toneFilter.connect(this.duckGain);
+
+    this.baseLayer = ctx.createGain();
+    this.baseLayer.connect(this.toneFilter);
+
+    // The intensity layer is the same track, brighter and heavier
+    const treble = ctx.createBiquadFilter();
+    treble.type = 'highshelf';
+    treble.frequency.value = 3000;
+    treble.gain.value = ADAPTIVE_CONFIG.INTENSITY_TREBLE_DB;
+
+    const bass = ctx.createBiquadFilter();
+    bass.type = 'lowshelf';
+    bass.frequency.value = 120;
+    bass.gain.value = ADAPTIVE_CONFIG.INTENSITY_BASS_DB;
+
+    this.intensityLayer = ctx.createGain();
+    treble.connect(bass);
+    bass.connect(this.intensityLayer);
+    this.intensityLayer.connect(this.toneFilter);
+    this.intensityEq = [treble, bass];
+
+    this.sourceBus = ctx.createGain();
+    this.sourceBus.connect(this.baseLayer);
+    this.sourceBus.connect(treble);
+
+    // Start where the mood currently is, without a sweep
+    this.applyMood(0);
+    debugLog('Adaptive chain connected');
+  }
+
+  /**
+   * Move filter, layers and level toward the current intensity / muffle.
+   * A time constant of 0 jumps straight there.
+   */
+  private applyMood(timeConstant: number): void {
+    const ctx = this.audioContext;
+    const filter = this.toneFilter;
+    const base = this.baseLayer;
+    const layer = this.intensityLayer;
+    const duck = this.duckGain;
+    if (!ctx || !filter || !base || !layer || !duck) return;
+
+    const { CUTOFF_MIN, CUTOFF_MAX } = ADAPTIVE_CONFIG;
+    const cutoff = this.isMuffled
+      ? ADAPTIVE_CONFIG.GAMEOVER_CUTOFF
+      : CUTOFF_MIN * Math.pow(CUTOFF_MAX / CUTOFF_MIN, this.intensity);
+    const level = this.isMuffled ? ADAPTIVE_CONFIG.GAMEOVER_LEVEL : 1;
+
+    // Both layers carry the same signal, so they sum coherently: an
+    // equal-gain crossfade keeps the midrange level through the blend
+    const targets: [AudioParam, number][] = [
+      [filter.frequency, cutoff],
+      [base.gain, 1 - this.intensity],
+      [layer.gain, this.intensity],
+      [duck.gain, level],
+    ];
+
+    const now = ctx.currentTime;
+    for (const [param, value] of targets) {
+      param.cancelScheduledValues(now);
+      if (timeConstant > 0) {
+        param.setTargetAtTime(value, now, timeConstant);
+      } else {
+        param.setValueAtTime(value, now);
+      }
+    }
+  }
+
+  /**
+   * Follow the perfect streak: the low-pass opens and the intensity
+   * layer fades in as it grows.
    */
-  private refillShuffleBag(): void {
-    // Create array of indices [0, 1, 2, ..., n-1]
-    this.shuffleBag = Array.from({ length: TRACK_URLS.length }, (_, i) => i);
-    shuffleArray(this.shuffleBag);
-
-    // If the first track in new bag is same as last played, swap it
-    if (this.shuffleBag.length > 1 && this.shuffleBag[this.shuffleBag.length - 1] === this.lastPlayedIndex) {
-      // Swap with a random position that's not the last
-      const lastIdx = this.shuffleBag.length - 1;
-      const swapIdx = Math.floor(Math.random() * (this.shuffleBag.length - 1));
-      const temp = this.shuffleBag[lastIdx];
-      this.shuffleBag[lastIdx] = this.shuffleBag[swapIdx] as number;
-      this.shuffleBag[swapIdx] = temp as number;
+  setStreak(streak: number): void {
+    const intensity = Math.min(1, Math.max(0, streak) / ADAPTIVE_CONFIG.FULL_INTENSITY_STREAK);
+    if (intensity === this.intensity) return;
+
+    this.intensity = intensity;
+    debugLog(`Intensity ${intensity.toFixed(2)} (streak ${String(streak)})`);
+    if (!this.isMuffled) {
+      this.applyMood(ADAPTIVE_CONFIG.INTENSITY_SMOOTHING);
     }
+  }
 
-    debugLog('Shuffle bag refilled', this.shuffleBag.map(i => `NS-${i + 1}`));
+  /**
+   * Follow the stack height (the synth shifts key and tempo with it).
+   */
+  setHeight(height: number): void {
+    this.synth?.setHeight(height);
   }
 
   /**
-   * Get the next track index from the shuffle bag.
+   * Choose between the MP3 tracks and the synth. Playing music swaps
+   * over right away; paused music picks the new source up on resume.
    */
-  private getNextTrackIndex(): number {
-    if (this.shuffleBag.length === 0) {
-      this.refillShuffleBag();
+  setSource(source: MusicSource): void {
+    if (source === this.source) return;
+    this.source = source;
+    debugLog(`Source: ${source}`);
+
+    if (!this.isPlaying) return;
+    this.audioElement?.pause();
+    this.synth?.stop();
+    if (this.isPaused) return;
+
+    this.isPlaying = false;
+    void this.startLoop();
+  }
+
+  /**
+   * Replace the tracks to play from (enabled playlist entries, in order).
+   * If the playing track was removed, the next one starts; if the run
+   * started with no tracks enabled, the first one does.
+   */
+  setPlaylist(tracks: MusicTrack[]): void {
+    this.playlist = tracks;
+    debugLog('Playlist', tracks.map((track) => track.name));
+
+    if (this.awaitingTracks && tracks.length > 0 && this.source === 'tracks') {
+      void this.startLoop();
+      return;
+    }
+
+    const current = this.currentTrack;
+    if (!current || tracks.some((track) => track.id === current.id)) return;
+    if (!this.isPlaying || this.isPaused || this.source !== 'tracks') return;
+
+    if (tracks.length === 0) {
+      this.stop();
+    } else {
+      void this.playNextTrack();
     }
-    const index = this.shuffleBag.pop()!;
-    this.lastPlayedIndex = index;
-    return index;
   }
 
   /**
-   * Start playing the next track from the shuffle bag.
+   * Choose how the next track is picked. Takes effect when the current
+   * track ends, except that looping one track applies right away.
+   */
+  setPlaybackMode(mode: PlaybackMode): void {
+    if (mode === this.playbackMode) return;
+    this.playbackMode = mode;
+    this.strategy = createPlaybackStrategy(mode);
+    if (this.audioElement) {
+      this.audioElement.loop = this.strategy.loopsTrack;
+    }
+    debugLog(`Playback mode: ${mode}`);
+  }
+
+  /**
+   * Dip the music briefly, like a kick side-chaining the mix.
+   */
+  duck(): void {
+    const ctx = this.audioContext;
+    const duck = this.duckGain;
+    if (!ctx || !duck || !this.isPlaying || this.isPaused) return;
+
+    const rest = this.isMuffled ? ADAPTIVE_CONFIG.GAMEOVER_LEVEL : 1;
+    const attackEnd = ctx.currentTime + ADAPTIVE_CONFIG.DUCK_ATTACK;
+
+    duck.gain.cancelScheduledValues(ctx.currentTime);
+    duck.gain.setValueAtTime(duck.gain.value, ctx.currentTime);
+    duck.gain.linearRampToValueAtTime(rest * ADAPTIVE_CONFIG.DUCK_LEVEL, attackEnd);
+    duck.gain.setTargetAtTime(rest, attackEnd, ADAPTIVE_CONFIG.DUCK_RELEASE);
+  }
+
+  /**
+   * Duck and muffle the mix for the game over screen.
+   */
+  muffle(): void {
+    if (this.isMuffled) return;
+    this.isMuffled = true;
+    debugLog('Muffled');
+    this.applyMood(ADAPTIVE_CONFIG.GAMEOVER_SMOOTHING);
+  }
+
+  /**
+   * Back to a clear mix at zero intensity (new run).
+   */
+  resetMood(): void {
+    if (!this.isMuffled && this.intensity === 0) return;
+    this.isMuffled = false;
+    this.intensity = 0;
+    debugLog('Mood reset');
+    this.applyMood(ADAPTIVE_CONFIG.GAMEOVER_SMOOTHING);
+  }
+
+  /**
+   * Start playing the next track from the playlist.
    */
   async startLoop(): Promise<void> {
     if (!this.isUnlocked || !this.audioElement || !this.gainNode || !this.audioContext) {
@@ -251,6 +458,8 @@ class MusicManagerImpl {
       return;
     }
 
+    this.awaitingTracks = false;
+
     // If volume is 0, don't start
     if (this.targetVolume <= 0) {
       debugLog('startLoop skipped - volume is 0');
@@ -263,35 +472,122 @@ class MusicManagerImpl {
       return;
     }
 
-    const trackIndex = this.getNextTrackIndex();
-    const trackUrl = TRACK_URLS[trackIndex]!;
-    const trackName = `NS-${trackIndex + 1}`;
+    if (this.source === 'synth' && this.synth) {
+      debugLog('Starting synth');
+      this.fadeIn();
+      this.synth.reset();
+      this.synth.start();
+      this.isPlaying = true;
+      return;
+    }
 
-    debugLog(`Starting track: ${trackName}`, trackUrl);
+    if (this.playlist.length === 0) {
+      debugLog('startLoop skipped - playlist is empty');
+      this.awaitingTracks = true;
+      return;
+    }
+
+    this.fadeIn();
+    if (await this.playNextTrack()) {
+      this.isPlaying = true;
+    }
+  }
+
+  /**
+   * Load and play the track the playback strategy picks next.
+   * Resolves to false if playback failed.
+   */
+  private async playNextTrack(): Promise<boolean> {
+    const track = this.playlist[this.strategy.next(this.playlist.length)];
+    if (!track || !this.audioElement) return false;
+    this.currentTrack = track;
+
+    debugLog(`Starting track: ${track.name}`, track.url);
 
     try {
       // Set source
-      this.audioElement.src = trackUrl;
+      this.audioElement.src = track.url;
       this.audioElement.load();
       this.audioElement.currentTime = 0;
 
-      // Fade in: start at 0, ramp to target
-      const now = this.audioContext.currentTime;
-      this.gainNode.gain.cancelScheduledValues(now);
-      this.gainNode.gain.setValueAtTime(0, now);
-      this.gainNode.gain.linearRampToValueAtTime(this.targetVolume, now + FADE_IN_DURATION);
-
       // Start playback
       await this.audioElement.play();
-      this.isPlaying = true;
 
-      debugLog(`Playing: ${trackName}`);
+      debugLog(`Playing: ${track.name}`);
+      return true;
     } catch (err) {
-      const errorKey = `play-error-${trackUrl}`;
+      const errorKey = `play-error-${track.url}`;
       if (!this.loggedErrors.has(errorKey)) {
         this.loggedErrors.add(errorKey);
         console.warn('[MUSIC] Failed to start playback:', err);
       }
+      return false;
+    }
+  }
+
+  /**
+   * Fade in from silence to the target volume.
+   */
+  private fadeIn(): void {
+    if (!this.gainNode || !this.audioContext) return;
+    const now = this.audioContext.currentTime;
+    this.gainNode.gain.cancelScheduledValues(now);
+    this.gainNode.gain.setValueAtTime(0, now);
+    this.gainNode.gain.linearRampToValueAtTime(this.targetVolume, now + FADE_IN_DURATION);
+  }
+
+  /**
+   * Fade out and hold the current track where it is (game paused).
+   */
+  pause(): void {
+    if (!this.isPlaying || this.isPaused || !this.audioElement || !this.gainNode || !this.audioContext) {
+      return;
+    }
+
+    debugLog('Pausing with fade out');
+    this.isPaused = true;
+
+    const now = this.audioContext.currentTime;
+    this.gainNode.gain.cancelScheduledValues(now);
+    this.gainNode.gain.setValueAtTime(this.gainNode.gain.value, now);
+    this.gainNode.gain.linearRampToValueAtTime(0, now + FADE_OUT_DURATION);
+
+    // Pause the element once silent, unless resumed in the meantime
+    setTimeout(() => {
+      if (this.isPaused && this.audioElement) {
+        this.audioElement.pause();
+        this.synth?.stop();
+        debugLog('Paused');
+      }
+    }, FADE_OUT_DURATION * 1000 + 50);
+  }
+
+  /**
+   * Fade the paused track back in from where it stopped.
+   */
+  async resume(): Promise<void> {
+    if (!this.isPaused || !this.audioElement || !this.gainNode || !this.audioContext) {
+      return;
+    }
+
+    debugLog('Resuming with fade in');
+    this.isPaused = false;
+
+    const now = this.audioContext.currentTime;
+    this.gainNode.gain.cancelScheduledValues(now);
+    this.gainNode.gain.setValueAtTime(this.gainNode.gain.value, now);
+    this.gainNode.gain.linearRampToValueAtTime(this.targetVolume, now + FADE_IN_DURATION);
+
+    if (this.source === 'synth' && this.synth) {
+      this.synth.start();
+      return;
+    }
+
+    if (!this.audioElement.paused) return;
+    try {
+      await this.audioElement.play();
+    } catch (err) {
+      console.warn('[MUSIC] Failed to resume playback:', err);
     }
   }
 
@@ -301,6 +597,8 @@ class MusicManagerImpl {
   stop(): void {
     // Clear pending start if called before unlock completed
     this.pendingStart = false;
+    this.awaitingTracks = false;
+    this.isPaused = false;
 
     if (!this.isPlaying || !this.audioElement || !this.gainNode || !this.audioContext) {
       return;
@@ -317,6 +615,10 @@ class MusicManagerImpl {
 
     // Stop after fade completes
     setTimeout(() => {
+      // The synth schedules until told otherwise (unless restarted meanwhile)
+      if (!this.isPlaying) {
+        this.synth?.stop();
+      }
       if (this.audioElement && !this.isPlaying) {
         // Only pause if we haven't started again
         return;
@@ -348,6 +650,11 @@ class MusicManagerImpl {
       return;
     }
 
+    // Paused music stays silent; resume() fades to the new level
+    if (this.isPaused) {
+      return;
+    }
+
     if (targetGain <= 0) {
       // Fade out and stop
       if (this.isPlaying) {
@@ -370,6 +677,41 @@ class MusicManagerImpl {
     return this.isPlaying;
   }
 
+  /**
+   * Check if music is paused (fading out or held).
+   */
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  /**
+   * Where the beats of the playing music fall, or null if unknown
+   * (stopped, paused, or a track without tempo info).
+   */
+  getBeatGrid(): BeatGrid | null {
+    if (!this.isPlaying || this.isPaused || !this.audioContext) return null;
+
+    if (this.source === 'synth') {
+      return this.synth?.getBeatGrid() ?? null;
+    }
+
+    if (!this.currentTrack || !this.audioElement) return null;
+    return getTrackBeatGrid(
+      this.currentTrack.id,
+      this.audioContext.currentTime,
+      this.audioElement.currentTime
+    );
+  }
+
+  /**
+   * Key of the playing music, or null if unknown.
+   */
+  get key(): MusicalKey | null {
+    if (!this.isPlaying) return null;
+    if (this.source === 'synth') return this.synth?.key ?? null;
+    return (this.currentTrack && TRACK_INFO[this.currentTrack.id]?.key) ?? null;
+  }
+
   /**
    * Check if audio is unlocked.
    */
@@ -388,6 +730,21 @@ class MusicManagerImpl {
       this.mediaSource = null;
     }
 
+    if (this.synth) {
+      this.synth.dispose();
+      this.synth = null;
+    }
+
+    for (const node of [this.sourceBus, this.baseLayer, ...this.intensityEq, this.intensityLayer, this.toneFilter, this.duckGain]) {
+      node?.disconnect();
+    }
+    this.sourceBus = null;
+    this.baseLayer = null;
+    this.intensityEq = [];
+    this.intensityLayer = null;
+    this.toneFilter = null;
+    this.duckGain = null;
+
     if (this.gainNode) {
       this.gainNode.disconnect();
       this.gainNode = null;
@@ -408,6 +765,8 @@ class MusicManagerImpl {
     this.isInitialized = false;
     this.isUnlocked = false;
     this.isPlaying = false;
+    this.isMuffled = false;
+    this.intensity = 0;
     this.ownsAudioContext = false;
 
     debugLog('Disposed');
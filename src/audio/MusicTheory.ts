@@ -0,0 +1,105 @@
+/**
+ * Music theory helpers shared by SFX and the synth.
+ * Pure functions - no AudioContext - so note choice and beat
+ * quantization are unit tested.
+ */
+
+/** Pitch classes, in semitone order from C */
+export const MUSICAL_KEYS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'] as const;
+
+export type MusicalKey = (typeof MUSICAL_KEYS)[number];
+
+/** Scales as semitones above the tonic */
+export const SCALES = {
+  majorPentatonic: [0, 2, 4, 7, 9],
+  minorPentatonic: [0, 3, 5, 7, 10],
+} as const;
+
+export type ScaleName = keyof typeof SCALES;
+
+/** Beat positions on the AudioContext clock */
+export interface BeatGrid {
+  /** Time of any beat (s) */
+  origin: number;
+  /** Seconds per beat */
+  interval: number;
+}
+
+export const MUSIC_THEORY_CONFIG = {
+  /** Highest scale step a streak climbs to (two pentatonic octaves) */
+  MAX_SCALE_STEPS: 10,
+  /** Grid points per beat a sound can snap to (sixteenths) */
+  QUANTIZE_SUBDIVISION: 4,
+  /** Longest a sound is held back to land on the grid (s) */
+  QUANTIZE_WINDOW: 0.09,
+} as const;
+
+/**
+ * Frequency (Hz) of a MIDI note.
+ */
+export function midiToFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+/**
+ * Key a MIDI note belongs to (its pitch class).
+ */
+export function getKeyOfNote(note: number): MusicalKey {
+  return MUSICAL_KEYS[((Math.round(note) % 12) + 12) % 12] ?? 'C';
+}
+
+/**
+ * MIDI note of a key's tonic (octave 5 puts A at A5, 880 Hz).
+ */
+export function getTonic(key: MusicalKey, octave = 5): number {
+  return 12 * (octave + 1) + MUSICAL_KEYS.indexOf(key);
+}
+
+/**
+ * Root, third and fifth of the scale's triad, as semitones above the
+ * tonic (a minor third for minor scales).
+ */
+export function getTriad(scale: ScaleName): readonly number[] {
+  const intervals: readonly number[] = SCALES[scale];
+  return [0, intervals.includes(3) ? 3 : 4, 7];
+}
+
+/**
+ * MIDI note for a scale step. Step 0 is the tonic in `octave`; higher
+ * steps climb the scale into the next octaves, capped at MAX_SCALE_STEPS.
+ */
+export function getScaleNote(
+  step: number,
+  scale: ScaleName,
+  key: MusicalKey,
+  octave = 5
+): number {
+  const intervals = SCALES[scale];
+  const degree = Math.min(
+    MUSIC_THEORY_CONFIG.MAX_SCALE_STEPS - 1,
+    Math.max(0, Math.floor(step))
+  );
+  const tonic = getTonic(key, octave);
+  const interval = intervals[degree % intervals.length] ?? 0;
+  return tonic + interval + 12 * Math.floor(degree / intervals.length);
+}
+
+/**
+ * Time to play a sound so it lands on the next grid point (a sixteenth
+ * by default). Sounds are only held back up to `window` seconds; past
+ * that they play at `time` rather than feel late.
+ */
+export function quantizeTime(
+  time: number,
+  grid: BeatGrid,
+  subdivision: number = MUSIC_THEORY_CONFIG.QUANTIZE_SUBDIVISION,
+  window: number = MUSIC_THEORY_CONFIG.QUANTIZE_WINDOW
+): number {
+  if (grid.interval <= 0 || subdivision <= 0) return time;
+
+  const spacing = grid.interval / subdivision;
+  // Small epsilon so a time already on the grid doesn't skip a point
+  const index = Math.ceil((time - grid.origin) / spacing - 1e-6);
+  const target = grid.origin + index * spacing;
+  return target - time <= window ? Math.max(time, target) : time;
+}
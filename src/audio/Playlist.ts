@@ -0,0 +1,236 @@
+/**
+ * Playlist model and playback strategies.
+ * Pure data and functions: the settings store keeps the playlist, the
+ * MusicManager asks a strategy which track comes next.
+ */
+
+import type { BeatGrid, MusicalKey } from './MusicTheory';
+
+/** A playable music file */
+export interface MusicTrack {
+  id: string;
+  name: string;
+  url: string;
+}
+
+/** A playlist slot, in play order */
+export interface PlaylistEntry {
+  /** 'builtin:<name>' for bundled tracks, 'user:<key>' for uploads */
+  id: string;
+  name: string;
+  enabled: boolean;
+}
+
+/** How the next track is picked */
+export type PlaybackMode = 'shuffle' | 'sequential' | 'loop';
+
+export const PLAYBACK_MODES: readonly { mode: PlaybackMode; label: string }[] = [
+  { mode: 'shuffle', label: 'Shuffle' },
+  { mode: 'sequential', label: 'In Order' },
+  { mode: 'loop', label: 'Loop One' },
+];
+
+/** Tracks shipped in public/music/ */
+export const BUILTIN_TRACKS: readonly MusicTrack[] = [
+  { id: 'builtin:NS-1', name: 'NS-1', url: '/music/NS-1.mp3' },
+  { id: 'builtin:NS-2', name: 'NS-2', url: '/music/NS-2.mp3' },
+  { id: 'builtin:NS-3', name: 'NS-3', url: '/music/NS-3.mp3' },
+  { id: 'builtin:NS-4', name: 'NS-4', url: '/music/NS-4.mp3' },
+  { id: 'builtin:NS-5', name: 'NS-5', url: '/music/NS-5.mp3' },
+  { id: 'builtin:NS-6', name: 'NS-6', url: '/music/NS-6.mp3' },
+  { id: 'builtin:NS-7', name: 'NS-7', url: '/music/NS-7.mp3' },
+];
+
+/** Tempo and key of a track */
+export interface TrackInfo {
+  bpm: number;
+  /** Tonic of the minor key SFX play in (the relative minor of a major track) */
+  key: MusicalKey;
+}
+
+/**
+ * Tempo and key of the bundled tracks, by track id. Each file is a loop of
+ * whole bars with beat 1 at its start. Unlisted tracks (including all user
+ * tracks) play SFX unquantized in A.
+ */
+export const TRACK_INFO: Partial<Record<string, TrackInfo>> = {
+  'builtin:NS-1': { bpm: 120, key: 'E' },
+  'builtin:NS-2': { bpm: 120, key: 'F#' },
+  'builtin:NS-3': { bpm: 120, key: 'C#' },
+  'builtin:NS-4': { bpm: 120, key: 'E' },
+  'builtin:NS-5': { bpm: 120, key: 'E' },
+  'builtin:NS-6': { bpm: 400 / 3, key: 'A' },
+  'builtin:NS-7': { bpm: 120, key: 'F#' },
+};
+
+/**
+ * Beat grid of a track `trackTime` seconds in, with the AudioContext clock
+ * at `contextTime`, or null if the track's tempo is unknown.
+ */
+export function getTrackBeatGrid(
+  trackId: string,
+  contextTime: number,
+  trackTime: number
+): BeatGrid | null {
+  const info = TRACK_INFO[trackId];
+  if (!info) return null;
+  return { origin: contextTime - trackTime, interval: 60 / info.bpm };
+}
+
+export const DEFAULT_PLAYLIST: PlaylistEntry[] = BUILTIN_TRACKS.map(({ id, name }) => ({
+  id,
+  name,
+  enabled: true,
+}));
+
+export function isUserTrack(id: string): boolean {
+  return id.startsWith('user:');
+}
+
+/**
+ * Move an entry up (-1) or down (+1). Unchanged at the ends.
+ */
+export function movePlaylistEntry(
+  playlist: PlaylistEntry[],
+  id: string,
+  offset: number
+): PlaylistEntry[] {
+  const from = playlist.findIndex((entry) => entry.id === id);
+  const to = from + offset;
+  const entry = playlist[from];
+  if (!entry || to < 0 || to >= playlist.length) return playlist;
+
+  const next = playlist.filter((_, index) => index !== from);
+  next.splice(to, 0, entry);
+  return next;
+}
+
+export function setPlaylistEntryEnabled(
+  playlist: PlaylistEntry[],
+  id: string,
+  enabled: boolean
+): PlaylistEntry[] {
+  return playlist.map((entry) => (entry.id === id ? { ...entry, enabled } : entry));
+}
+
+/**
+ * Rebuild a playlist from untrusted (persisted) data: malformed and
+ * duplicate entries are dropped, and bundled tracks missing from it
+ * (e.g. added in an update) are appended, enabled.
+ */
+export function sanitizePlaylist(value: unknown): PlaylistEntry[] {
+  const source: unknown[] = Array.isArray(value) ? value : [];
+  const seen = new Set<string>();
+  const builtinIds = new Set(BUILTIN_TRACKS.map((track) => track.id));
+  const result: PlaylistEntry[] = [];
+
+  for (const item of source) {
+    if (typeof item !== 'object' || item === null) continue;
+    const { id, name, enabled } = item as Partial<Record<keyof PlaylistEntry, unknown>>;
+    if (typeof id !== 'string' || typeof name !== 'string' || seen.has(id)) continue;
+    if (!builtinIds.has(id) && !isUserTrack(id)) continue;
+
+    seen.add(id);
+    result.push({ id, name, enabled: enabled !== false });
+  }
+
+  for (const entry of DEFAULT_PLAYLIST) {
+    if (!seen.has(entry.id)) result.push(entry);
+  }
+  return result;
+}
+
+/**
+ * Picks which of `count` tracks plays next.
+ */
+export interface PlaybackStrategy {
+  /** Index of the next track, in [0, count) */
+  next(count: number): number;
+  /** True if a track repeats instead of moving on when it ends */
+  readonly loopsTrack: boolean;
+}
+
+/**
+ * Fisher-Yates shuffle algorithm (in-place)
+ */
+function shuffleArray<T>(array: T[], random: () => number): T[] {
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const temp = array[i];
+    array[i] = array[j] as T;
+    array[j] = temp as T;
+  }
+  return array;
+}
+
+/**
+ * No-repeat shuffle bag: every track plays once per round, and a new
+ * round never starts with the track that just ended the last one.
+ */
+export function createShuffleBag(random: () => number = Math.random): PlaybackStrategy {
+  let bag: number[] = [];
+  let bagSize = 0;
+  let last = -1;
+
+  const refill = (count: number) => {
+    bag = shuffleArray(Array.from({ length: count }, (_, i) => i), random);
+    bagSize = count;
+
+    // Tracks are popped from the end - don't repeat the last one played
+    const lastIdx = bag.length - 1;
+    if (bag.length > 1 && bag[lastIdx] === last) {
+      const swapIdx = Math.floor(random() * lastIdx);
+      bag[lastIdx] = bag[swapIdx] ?? last;
+      bag[swapIdx] = last;
+    }
+  };
+
+  return {
+    loopsTrack: false,
+    next(count) {
+      if (count <= 0) return 0;
+      // A playlist edit invalidates the round
+      if (bag.length === 0 || bagSize !== count) refill(count);
+      last = bag.pop() ?? 0;
+      return last;
+    },
+  };
+}
+
+/**
+ * Plays the playlist top to bottom, then wraps.
+ */
+export function createSequential(): PlaybackStrategy {
+  let cursor = -1;
+  return {
+    loopsTrack: false,
+    next(count) {
+      if (count <= 0) return 0;
+      cursor = (cursor + 1) % count;
+      return cursor;
+    },
+  };
+}
+
+/**
+ * Repeats the first enabled track.
+ */
+export function createSingleLoop(): PlaybackStrategy {
+  return {
+    loopsTrack: true,
+    next() {
+      return 0;
+    },
+  };
+}
+
+export function createPlaybackStrategy(mode: PlaybackMode): PlaybackStrategy {
+  switch (mode) {
+    case 'shuffle':
+      return createShuffleBag();
+    case 'sequential':
+      return createSequential();
+    case 'loop':
+      return createSingleLoop();
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * SynthMusic - Procedural music as an alternative to the MP3 tracks
+ *
+ * Features:
+ * - 16-step sequencer: four-on-the-floor drums, saw bass, square arpeggio
+ * - Minor i-VI-III-VII progression, one chord per bar
+ * - Lookahead scheduler (timer wakes often, notes are scheduled on the
+ *   AudioContext clock slightly ahead, so timing never depends on the timer)
+ * - Key and tempo climb with stack height, changing on bar lines
+ */
+
+import { midiToFrequency, getKeyOfNote } from './MusicTheory';
+import type { BeatGrid, MusicalKey } from './MusicTheory';
+
+/** Where background music comes from */
+export type MusicSource = 'tracks' | 'synth';
+
+/**
+ * Sequencer tuning
+ */
+export const SYNTH_CONFIG = {
+  /** Tempo at the base of the tower (BPM) */
+  BASE_TEMPO: 112,
+  /** Tempo added per section (BPM) */
+  TEMPO_STEP: 4,
+  /** Fastest tempo (BPM) */
+  MAX_TEMPO: 136,
+  /** Blocks per section (each section moves key and tempo) */
+  SECTION_HEIGHT: 10,
+  /** Key roots per section, as MIDI notes (A, C, D, F, G) */
+  SECTION_ROOTS: [45, 48, 50, 41, 43],
+  /** Sixteenth notes per bar */
+  STEPS_PER_BAR: 16,
+  /** How often the scheduler wakes (ms) */
+  LOOKAHEAD_MS: 25,
+  /** How far ahead notes are scheduled (s) */
+  SCHEDULE_AHEAD: 0.12,
+} as const;
+
+/** Key and tempo the sequencer plays at */
+export interface SynthSection {
+  /** MIDI note of the key's root (bass octave) */
+  root: number;
+  /** Beats per minute */
+  tempo: number;
+}
+
+/** Chords of the progression: semitones above the root, and the triad */
+const PROGRESSION: readonly { offset: number; triad: readonly number[] }[] = [
+  { offset: 0, triad: [0, 3, 7] },   // i
+  { offset: 8, triad: [0, 4, 7] },   // VI
+  { offset: 3, triad: [0, 4, 7] },   // III
+  { offset: 10, triad: [0, 4, 7] },  // VII
+];
+
+/** Steps (of 16) each part plays on */
+const PATTERNS: Record<'kick' | 'clap' | 'hat' | 'bass' | 'arp', readonly number[]> = {
+  kick: [0, 4, 8, 12],
+  clap: [4, 12],
+  hat: [2, 6, 10, 14],
+  bass: [0, 3, 6, 8, 10, 11, 14],
+  /** Arp note per step: index into the triad, an octave up past 2 */
+  arp: [0, 1, 2, 3, 2, 1, 0, 1, 2, 3, 4, 3, 2, 1, 2, 3],
+};
+
+/** Per-part gain levels */
+const PART_GAINS = {
+  kick: 0.9,
+  clap: 0.35,
+  hat: 0.12,
+  bass: 0.32,
+  arp: 0.1,
+} as const;
+
+/**
+ * Key and tempo for a stack height. Pure, so it can be tested.
+ */
+export function getSynthSection(height: number): SynthSection {
+  const { SECTION_HEIGHT, SECTION_ROOTS, BASE_TEMPO, TEMPO_STEP, MAX_TEMPO } = SYNTH_CONFIG;
+  const section = Math.floor(Math.max(0, height) / SECTION_HEIGHT);
+  const root = SECTION_ROOTS[section % SECTION_ROOTS.length] ?? SECTION_ROOTS[0];
+  const tempo = Math.min(MAX_TEMPO, BASE_TEMPO + section * TEMPO_STEP);
+  return { root, tempo };
+}
+
+export class SynthMusic {
+  private readonly context: AudioContext;
+  private readonly output: GainNode;
+  private readonly noiseBuffer: AudioBuffer;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private step = 0;
+  private nextStepTime = 0;
+  private section: SynthSection = getSynthSection(0);
+  private pendingSection: SynthSection | null = null;
+
+  /**
+   * @param context - Shared AudioContext
+   * @param destination - Node the synth mix feeds (the music chain)
+   */
+  constructor(context: AudioContext, destination: AudioNode) {
+    this.context = context;
+    this.output = context.createGain();
+    this.output.connect(destination);
+
+    // One second of white noise, shared by every drum hit
+    const length = context.sampleRate;
+    this.noiseBuffer = context.createBuffer(1, length, context.sampleRate);
+    const data = this.noiseBuffer.getChannelData(0);
+    for (let i = 0; i < length; i++) {
+      data[i] = Math.random() * 2 - 1;
+    }
+  }
+
+  /**
+   * Start (or continue) the sequence from the current step.
+   */
+  start(): void {
+    if (this.timer) return;
+    this.nextStepTime = this.context.currentTime + 0.05;
+    this.timer = setInterval(() => {
+      this.schedule();
+    }, SYNTH_CONFIG.LOOKAHEAD_MS);
+    this.schedule();
+  }
+
+  /**
+   * Stop scheduling. Notes already scheduled ring out; the position is kept.
+   */
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Back to the first bar at the base key and tempo.
+   */
+  reset(): void {
+    this.step = 0;
+    this.section = getSynthSection(0);
+    this.pendingSection = null;
+  }
+
+  /**
+   * Follow the stack height. Key and tempo change on the next bar line.
+   */
+  setHeight(height: number): void {
+    const next = getSynthSection(height);
+    const current = this.pendingSection ?? this.section;
+    if (next.root !== current.root || next.tempo !== current.tempo) {
+      this.pendingSection = next;
+    }
+  }
+
+  get running(): boolean {
+    return this.timer !== null;
+  }
+
+  /** Key the sequence is playing in */
+  get key(): MusicalKey {
+    return getKeyOfNote(this.section.root);
+  }
+
+  /**
+   * Where the beats fall, or null when stopped.
+   */
+  getBeatGrid(): BeatGrid | null {
+    if (!this.timer) return null;
+    const sixteenth = 60 / this.section.tempo / 4;
+    // The next step to schedule sits (step % 4) sixteenths after a beat
+    return {
+      origin: this.nextStepTime - (this.step % 4) * sixteenth,
+      interval: sixteenth * 4,
+    };
+  }
+
+  dispose(): void {
+    this.stop();
+    this.output.disconnect();
+  }
+
+  /**
+   * Schedule every step that starts inside the lookahead window.
+   */
+  private schedule(): void {
+    const now = this.context.currentTime;
+    const horizon = now + SYNTH_CONFIG.SCHEDULE_AHEAD;
+
+    // A throttled timer (background tab) fell behind: skip, don't burst
+    if (this.nextStepTime < now) this.nextStepTime = now;
+
+    while (this.nextStepTime < horizon) {
+      this.playStep(this.step, this.nextStepTime);
+      this.advance();
+    }
+  }
+
+  private advance(): void {
+    const barLength = SYNTH_CONFIG.STEPS_PER_BAR * PROGRESSION.length;
+    this.nextStepTime += 60 / this.section.tempo / 4;
+    this.step = (this.step + 1) % barLength;
+
+    // Key and tempo only move on a bar line
+    if (this.step % SYNTH_CONFIG.STEPS_PER_BAR === 0 && this.pendingSection) {
+      this.section = this.pendingSection;
+      this.pendingSection = null;
+    }
+  }
+
+  private playStep(step: number, time: number): void {
+    const beat = step % SYNTH_CONFIG.STEPS_PER_BAR;
+    const chord = PROGRESSION[Math.floor(step / SYNTH_CONFIG.STEPS_PER_BAR)] ?? PROGRESSION[0];
+    if (!chord) return;
+    const chordRoot = this.section.root + chord.offset;
+    const sixteenth = 60 / this.section.tempo / 4;
+
+    if (PATTERNS.kick.includes(beat)) this.playKick(time);
+    if (PATTERNS.clap.includes(beat)) this.playClap(time);
+    if (PATTERNS.hat.includes(beat)) this.playHat(time);
+
+    if (PATTERNS.bass.includes(beat)) {
+      // Octave jump on the offbeat pickups
+      const octave = beat === 6 || beat === 14 ? 12 : 0;
+      this.playBass(midiToFrequency(chordRoot + octave), time, sixteenth * 1.6);
+    }
+
+    const arpIndex = PATTERNS.arp[beat] ?? 0;
+    const interval = (chord.triad[arpIndex % 3] ?? 0) + 12 * Math.floor(arpIndex / 3);
+    this.playArp(midiToFrequency(chordRoot + 24 + interval), time, sixteenth * 0.9);
+  }
+
+  /**
+   * Kick: sine with a fast pitch drop.
+   */
+  private playKick(time: number): void {
+    const osc = this.context.createOscillator();
+    const gain = this.context.createGain();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(150, time);
+    osc.frequency.exponentialRampToValueAtTime(45, time + 0.12);
+    gain.gain.setValueAtTime(PART_GAINS.kick, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + 0.3);
+
+    this.connectVoice(osc, gain, time, 0.32);
+  }
+
+  /**
+   * Clap: band-passed noise burst.
+   */
+  private playClap(time: number): void {
+    const noise = this.createNoise();
+    const filter = this.context.createBiquadFilter();
+    const gain = this.context.createGain();
+    filter.type = 'bandpass';
+    filter.frequency.value = 1500;
+    filter.Q.value = 0.8;
+    gain.gain.setValueAtTime(PART_GAINS.clap, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + 0.18);
+
+    noise.connect(filter);
+    this.connectVoice(filter, gain, time, 0.2, noise);
+  }
+
+  /**
+   * Hat: short high-passed noise tick.
+   */
+  private playHat(time: number): void {
+    const noise = this.createNoise();
+    const filter = this.context.createBiquadFilter();
+    const gain = this.context.createGain();
+    filter.type = 'highpass';
+    filter.frequency.value = 7000;
+    gain.gain.setValueAtTime(PART_GAINS.hat, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + 0.05);
+
+    noise.connect(filter);
+    this.connectVoice(filter, gain, time, 0.06, noise);
+  }
+
+  /**
+   * Bass: sawtooth through a plucked low-pass.
+   */
+  private playBass(frequency: number, time: number, length: number): void {
+    const osc = this.context.createOscillator();
+    const filter = this.context.createBiquadFilter();
+    const gain = this.context.createGain();
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(frequency, time);
+    filter.type = 'lowpass';
+    filter.Q.value = 6;
+    filter.frequency.setValueAtTime(1200, time);
+    filter.frequency.exponentialRampToValueAtTime(200, time + length);
+    gain.gain.setValueAtTime(PART_GAINS.bass, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + length);
+
+    osc.connect(filter);
+    this.connectVoice(filter, gain, time, length, osc);
+  }
+
+  /**
+   * Arp: plucky square wave.
+   */
+  private playArp(frequency: number, time: number, length: number): void {
+    const osc = this.context.createOscillator();
+    const gain = this.context.createGain();
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(frequency, time);
+    gain.gain.setValueAtTime(PART_GAINS.arp, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + length);
+
+    this.connectVoice(osc, gain, time, length);
+  }
+
+  private createNoise(): AudioBufferSourceNode {
+    const noise = this.context.createBufferSource();
+    noise.buffer = this.noiseBuffer;
+    return noise;
+  }
+
+  /**
+   * Wire `node -> gain -> output`, play the source for `length` seconds,
+   * then disconnect everything once it ends.
+   */
+  private connectVoice(
+    node: AudioNode,
+    gain: GainNode,
+    time: number,
+    length: number,
+    source: AudioScheduledSourceNode = node as AudioScheduledSourceNode
+  ): void {
+    node.connect(gain);
+    gain.connect(this.output);
+    source.start(time);
+    source.stop(time + length);
+    source.onended = () => {
+      source.disconnect();
+      if (node !== source) node.disconnect();
+      gain.disconnect();
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SFX_LEVELS, isMixerChannel, sanitizeSfxLevels } from '../Mixer';
+
+describe('mixer', () => {
+  describe('isMixerChannel', () => {
+    it('knows which sounds have a level', () => {
+      expect(isMixerChannel('perfect')).toBe(true);
+      expect(isMixerChannel('ui')).toBe(true);
+      expect(isMixerChannel('metronome')).toBe(false);
+    });
+  });
+
+  describe('sanitizeSfxLevels', () => {
+    it('defaults every channel', () => {
+      expect(sanitizeSfxLevels(undefined)).toEqual(DEFAULT_SFX_LEVELS);
+      expect(sanitizeSfxLevels('loud')).toEqual(DEFAULT_SFX_LEVELS);
+    });
+
+    it('keeps stored levels and fills in missing channels', () => {
+      const levels = sanitizeSfxLevels({ slice: 40, ui: 0 });
+      expect(levels.slice).toBe(40);
+      expect(levels.ui).toBe(0);
+      expect(levels.perfect).toBe(DEFAULT_SFX_LEVELS.perfect);
+    });
+
+    it('clamps out-of-range levels and drops invalid ones', () => {
+      const levels = sanitizeSfxLevels({ place: 250, combo: -5, gameover: 'max', perfect: NaN });
+      expect(levels.place).toBe(100);
+      expect(levels.combo).toBe(0);
+      expect(levels.gameover).toBe(DEFAULT_SFX_LEVELS.gameover);
+      expect(levels.perfect).toBe(DEFAULT_SFX_LEVELS.perfect);
+    });
+
+    it('ignores unknown channels', () => {
+      expect(sanitizeSfxLevels({ metronome: 10 })).toEqual(DEFAULT_SFX_LEVELS);
+    });
+  });
+});
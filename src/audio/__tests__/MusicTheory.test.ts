@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getScaleNote,
+  getKeyOfNote,
+  getTriad,
+  midiToFrequency,
+  quantizeTime,
+  MUSIC_THEORY_CONFIG,
+} from '../MusicTheory';
+
+describe('music theory', () => {
+  describe('midiToFrequency', () => {
+    it('tunes A4 to 440 Hz', () => {
+      expect(midiToFrequency(69)).toBe(440);
+    });
+
+    it('doubles per octave', () => {
+      expect(midiToFrequency(57)).toBeCloseTo(220);
+      expect(midiToFrequency(81)).toBeCloseTo(880);
+    });
+  });
+
+  describe('getKeyOfNote', () => {
+    it('names the pitch class in any octave', () => {
+      expect(getKeyOfNote(45)).toBe('A');
+      expect(getKeyOfNote(81)).toBe('A');
+      expect(getKeyOfNote(60)).toBe('C');
+      expect(getKeyOfNote(61)).toBe('C#');
+    });
+  });
+
+  describe('getScaleNote', () => {
+    it('starts on the tonic', () => {
+      expect(getScaleNote(0, 'minorPentatonic', 'A')).toBe(81); // A5
+      expect(getScaleNote(0, 'majorPentatonic', 'C')).toBe(72); // C5
+    });
+
+    it('climbs the scale one step at a time', () => {
+      const notes = [0, 1, 2, 3, 4].map((step) => getScaleNote(step, 'minorPentatonic', 'A'));
+      // A C D E G
+      expect(notes).toEqual([81, 84, 86, 88, 91]);
+    });
+
+    it('continues into the next octave', () => {
+      expect(getScaleNote(5, 'majorPentatonic', 'C')).toBe(84); // C6
+      expect(getScaleNote(6, 'majorPentatonic', 'C')).toBe(86); // D6
+    });
+
+    it('transposes with the key', () => {
+      const inA = getScaleNote(3, 'majorPentatonic', 'A');
+      const inB = getScaleNote(3, 'majorPentatonic', 'B');
+      expect(inB - inA).toBe(2);
+    });
+
+    it('holds at the top of the climb', () => {
+      const top = getScaleNote(MUSIC_THEORY_CONFIG.MAX_SCALE_STEPS - 1, 'minorPentatonic', 'A');
+      expect(getScaleNote(MUSIC_THEORY_CONFIG.MAX_SCALE_STEPS + 20, 'minorPentatonic', 'A')).toBe(top);
+    });
+
+    it('clamps negative steps to the tonic', () => {
+      expect(getScaleNote(-3, 'minorPentatonic', 'A')).toBe(getScaleNote(0, 'minorPentatonic', 'A'));
+    });
+  });
+
+  describe('getTriad', () => {
+    it('uses a minor third for minor scales', () => {
+      expect(getTriad('minorPentatonic')).toEqual([0, 3, 7]);
+      expect(getTriad('majorPentatonic')).toEqual([0, 4, 7]);
+    });
+  });
+
+  describe('quantizeTime', () => {
+    // 120 BPM: a beat every 0.5s, sixteenths every 0.125s
+    const grid = { origin: 10, interval: 0.5 };
+
+    it('snaps forward to the next sixteenth', () => {
+      expect(quantizeTime(10.05, grid)).toBeCloseTo(10.125);
+      expect(quantizeTime(10.2, grid)).toBeCloseTo(10.25);
+    });
+
+    it('keeps a time already on the grid', () => {
+      expect(quantizeTime(10.25, grid)).toBeCloseTo(10.25);
+    });
+
+    it('works before the grid origin', () => {
+      expect(quantizeTime(9.95, grid)).toBeCloseTo(10);
+    });
+
+    it('plays right away when the next point is too far off', () => {
+      expect(quantizeTime(10.01, grid)).toBe(10.01);
+    });
+
+    it('honours a custom subdivision and window', () => {
+      expect(quantizeTime(10.1, grid, 1, 0.5)).toBeCloseTo(10.5);
+      expect(quantizeTime(10.1, grid, 1, 0.2)).toBe(10.1);
+    });
+
+    it('ignores a degenerate grid', () => {
+      expect(quantizeTime(3, { origin: 0, interval: 0 })).toBe(3);
+    });
+  });
+});
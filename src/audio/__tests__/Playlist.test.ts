@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILTIN_TRACKS,
+  DEFAULT_PLAYLIST,
+  createSequential,
+  createShuffleBag,
+  createSingleLoop,
+  getTrackBeatGrid,
+  movePlaylistEntry,
+  sanitizePlaylist,
+  setPlaylistEntryEnabled,
+  type PlaylistEntry,
+} from '../Playlist';
+
+/** Deterministic LCG so shuffles are repeatable */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+const entries: PlaylistEntry[] = [
+  { id: 'builtin:NS-1', name: 'NS-1', enabled: true },
+  { id: 'user:a', name: 'Mine', enabled: true },
+  { id: 'builtin:NS-2', name: 'NS-2', enabled: false },
+];
+
+describe('playlist', () => {
+  describe('movePlaylistEntry', () => {
+    it('moves an entry up and down', () => {
+      expect(movePlaylistEntry(entries, 'user:a', -1).map((e) => e.id)).toEqual([
+        'user:a',
+        'builtin:NS-1',
+        'builtin:NS-2',
+      ]);
+      expect(movePlaylistEntry(entries, 'user:a', 1).map((e) => e.id)).toEqual([
+        'builtin:NS-1',
+        'builtin:NS-2',
+        'user:a',
+      ]);
+    });
+
+    it('leaves the playlist alone at the ends or for unknown ids', () => {
+      expect(movePlaylistEntry(entries, 'builtin:NS-1', -1)).toBe(entries);
+      expect(movePlaylistEntry(entries, 'builtin:NS-2', 1)).toBe(entries);
+      expect(movePlaylistEntry(entries, 'user:missing', 1)).toBe(entries);
+    });
+  });
+
+  describe('setPlaylistEntryEnabled', () => {
+    it('toggles only the matching entry', () => {
+      const next = setPlaylistEntryEnabled(entries, 'builtin:NS-2', true);
+      expect(next.map((e) => e.enabled)).toEqual([true, true, true]);
+      expect(entries[2]?.enabled).toBe(false);
+    });
+  });
+
+  describe('sanitizePlaylist', () => {
+    it('defaults to the bundled tracks', () => {
+      expect(sanitizePlaylist(undefined)).toEqual(DEFAULT_PLAYLIST);
+      expect(sanitizePlaylist('nope')).toEqual(DEFAULT_PLAYLIST);
+    });
+
+    it('keeps order and appends missing bundled tracks', () => {
+      const result = sanitizePlaylist(entries);
+      expect(result.slice(0, 3)).toEqual(entries);
+      expect(result).toHaveLength(BUILTIN_TRACKS.length + 1);
+    });
+
+    it('drops malformed, unknown and duplicate entries', () => {
+      const result = sanitizePlaylist([
+        null,
+        { id: 'user:a' },
+        { id: 'http://evil', name: 'x', enabled: true },
+        { id: 'user:b', name: 'B', enabled: true },
+        { id: 'user:b', name: 'B again', enabled: false },
+      ]);
+      expect(result.filter((e) => e.id.startsWith('user:'))).toEqual([
+        { id: 'user:b', name: 'B', enabled: true },
+      ]);
+    });
+  });
+});
+
+describe('getTrackBeatGrid', () => {
+  it('returns a grid for every bundled track', () => {
+    for (const track of BUILTIN_TRACKS) {
+      const grid = getTrackBeatGrid(track.id, 10, 2.5);
+      expect(grid).not.toBeNull();
+      expect(grid?.interval).toBeGreaterThan(0);
+    }
+  });
+
+  it('puts beat 1 at the start of the file', () => {
+    // 120 BPM: 2.5 s into the track, with the context clock at 10 s
+    expect(getTrackBeatGrid('builtin:NS-1', 10, 2.5)).toEqual({ origin: 7.5, interval: 0.5 });
+  });
+
+  it('returns null for tracks without tempo info', () => {
+    expect(getTrackBeatGrid('user:abc', 10, 2.5)).toBeNull();
+  });
+});
+
+describe('playback strategies', () => {
+  it('shuffle bag plays every track once per round', () => {
+    const bag = createShuffleBag(seededRandom(1));
+    const round = Array.from({ length: 5 }, () => bag.next(5));
+    expect([...round].sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('shuffle bag never repeats a track across rounds', () => {
+    const bag = createShuffleBag(seededRandom(7));
+    let previous = -1;
+    for (let i = 0; i < 200; i++) {
+      const index = bag.next(3);
+      expect(index).not.toBe(previous);
+      previous = index;
+    }
+  });
+
+  it('shuffle bag restarts when the playlist size changes', () => {
+    const bag = createShuffleBag(seededRandom(3));
+    bag.next(5);
+    for (let i = 0; i < 10; i++) {
+      expect(bag.next(2)).toBeLessThan(2);
+    }
+  });
+
+  it('sequential plays in order and wraps', () => {
+    const sequential = createSequential();
+    expect(Array.from({ length: 5 }, () => sequential.next(3))).toEqual([0, 1, 2, 0, 1]);
+    expect(sequential.loopsTrack).toBe(false);
+  });
+
+  it('single loop repeats the first track', () => {
+    const loop = createSingleLoop();
+    expect([loop.next(4), loop.next(4)]).toEqual([0, 0]);
+    expect(loop.loopsTrack).toBe(true);
+  });
+});
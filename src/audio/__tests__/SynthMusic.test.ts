@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { getSynthSection, SYNTH_CONFIG } from '../SynthMusic';
+
+describe('synth music', () => {
+  describe('getSynthSection', () => {
+    it('starts at the first key and base tempo', () => {
+      expect(getSynthSection(0)).toEqual({
+        root: SYNTH_CONFIG.SECTION_ROOTS[0],
+        tempo: SYNTH_CONFIG.BASE_TEMPO,
+      });
+    });
+
+    it('holds key and tempo within a section', () => {
+      expect(getSynthSection(SYNTH_CONFIG.SECTION_HEIGHT - 1)).toEqual(getSynthSection(0));
+    });
+
+    it('moves key and tempo up each section', () => {
+      const next = getSynthSection(SYNTH_CONFIG.SECTION_HEIGHT);
+      expect(next.root).toBe(SYNTH_CONFIG.SECTION_ROOTS[1]);
+      expect(next.tempo).toBe(SYNTH_CONFIG.BASE_TEMPO + SYNTH_CONFIG.TEMPO_STEP);
+    });
+
+    it('caps the tempo and cycles keys on tall towers', () => {
+      const rootCount = SYNTH_CONFIG.SECTION_ROOTS.length;
+      const section = getSynthSection(SYNTH_CONFIG.SECTION_HEIGHT * rootCount * 4);
+      expect(section.tempo).toBe(SYNTH_CONFIG.MAX_TEMPO);
+      expect(section.root).toBe(SYNTH_CONFIG.SECTION_ROOTS[0]);
+    });
+
+    it('treats negative heights as the base', () => {
+      expect(getSynthSection(-5)).toEqual(getSynthSection(0));
+    });
+  });
+});
@@ -3,6 +3,31 @@
  */
 
 export { getAudioManager, resetAudioManager } from './AudioManager';
-export type { SFXName, PlayOptions } from './AudioManager';
+export type { SFXName, PlayOptions, BeatGridProvider } from './AudioManager';
+
+export { MIXER_CHANNELS, DEFAULT_SFX_LEVELS, sanitizeSfxLevels } from './Mixer';
+export type { MixerChannel, SfxLevels } from './Mixer';
 
 export { getMusicManager, resetMusicManager } from './MusicManager';
+export type { MusicSource } from './SynthMusic';
+
+export {
+  BUILTIN_TRACKS,
+  DEFAULT_PLAYLIST,
+  PLAYBACK_MODES,
+  isUserTrack,
+  movePlaylistEntry,
+  setPlaylistEntryEnabled,
+  sanitizePlaylist,
+} from './Playlist';
+export type { MusicTrack, PlaylistEntry, PlaybackMode } from './Playlist';
+export {
+  loadUserTracks,
+  saveUserTrack,
+  deleteUserTrack,
+  getUserTrackUrl,
+  MAX_TRACK_BYTES,
+} from './MusicLibrary';
+
+export { MUSICAL_KEYS } from './MusicTheory';
+export type { MusicalKey, ScaleName, BeatGrid } from './MusicTheory';
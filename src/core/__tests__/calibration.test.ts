@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { CALIBRATION_CONFIG, computeCalibration, getTapError } from '../calibration';
+
+/** Beats every 600ms starting at 1000 */
+function beats(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => 1000 + i * CALIBRATION_CONFIG.BEAT_INTERVAL_MS);
+}
+
+describe('calibration', () => {
+  describe('getTapError', () => {
+    it('measures the gap to the nearest beat', () => {
+      expect(getTapError(1040, beats(3))).toBe(40);
+      expect(getTapError(1580, beats(3))).toBe(-20);
+    });
+
+    it('ignores taps too far from any beat', () => {
+      expect(getTapError(1300, beats(3))).toBeNull();
+      expect(getTapError(0, beats(3))).toBeNull();
+    });
+  });
+
+  describe('computeCalibration', () => {
+    it('averages a consistent delay', () => {
+      const beatTimes = beats(12);
+      const taps = beatTimes.map((beat, i) => beat + 50 + (i % 2 === 0 ? 5 : -5));
+
+      expect(computeCalibration(beatTimes, taps)).toEqual({ offsetMs: 50, spreadMs: 5, tapCount: 12 });
+    });
+
+    it('handles early taps', () => {
+      const beatTimes = beats(8);
+      const taps = beatTimes.map((beat) => beat - 30);
+
+      expect(computeCalibration(beatTimes, taps)?.offsetMs).toBe(-30);
+    });
+
+    it('counts one tap per beat', () => {
+      const beatTimes = beats(8);
+      const taps = beatTimes.flatMap((beat) => [beat + 40, beat + 120]);
+
+      const result = computeCalibration(beatTimes, taps);
+      expect(result?.tapCount).toBe(8);
+      expect(result?.offsetMs).toBe(40);
+    });
+
+    it('drops outliers around the median', () => {
+      const beatTimes = beats(10);
+      const taps = beatTimes.map((beat, i) => beat + (i === 3 ? 220 : 60));
+
+      const result = computeCalibration(beatTimes, taps);
+      expect(result?.offsetMs).toBe(60);
+      expect(result?.tapCount).toBe(9);
+    });
+
+    it('needs enough taps near a beat', () => {
+      const beatTimes = beats(12);
+      const taps = beatTimes.slice(0, 4).map((beat) => beat + 20);
+
+      expect(computeCalibration(beatTimes, taps)).toBeNull();
+      expect(computeCalibration(beatTimes, [])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDailyKey,
+  getPreviousDailyKey,
+  hashString,
+  createDailyChallenge,
+  getDailyStreak,
+  DAILY_MOTION_PROFILES,
+} from '../daily';
+import { GameSimulation } from '../simulation';
+
+describe('daily', () => {
+  describe('getDailyKey', () => {
+    it('formats the local calendar day', () => {
+      expect(getDailyKey(new Date(2025, 0, 5, 23, 59))).toBe('2025-01-05');
+      expect(getDailyKey(new Date(2025, 11, 31, 0, 1))).toBe('2025-12-31');
+    });
+  });
+
+  describe('getPreviousDailyKey', () => {
+    it('steps back across month and year boundaries', () => {
+      expect(getPreviousDailyKey('2025-03-01')).toBe('2025-02-28');
+      expect(getPreviousDailyKey('2024-03-01')).toBe('2024-02-29');
+      expect(getPreviousDailyKey('2025-01-01')).toBe('2024-12-31');
+    });
+  });
+
+  describe('hashString', () => {
+    it('is stable and spreads nearby inputs', () => {
+      expect(hashString('2025-01-01')).toBe(hashString('2025-01-01'));
+      expect(hashString('2025-01-01')).not.toBe(hashString('2025-01-02'));
+    });
+  });
+
+  describe('createDailyChallenge', () => {
+    it('is identical for the same day', () => {
+      expect(createDailyChallenge('2025-06-01')).toEqual(createDailyChallenge('2025-06-01'));
+    });
+
+    it('differs between days', () => {
+      const a = createDailyChallenge('2025-06-01');
+      const b = createDailyChallenge('2025-06-02');
+      expect(a.seed).not.toBe(b.seed);
+      expect(a.modifiers).not.toEqual(b.modifiers);
+    });
+
+    it('keeps modifiers within their ranges', () => {
+      for (let day = 1; day <= 28; day++) {
+        const key = `2025-02-${String(day).padStart(2, '0')}`;
+        const { modifiers } = createDailyChallenge(key);
+        expect(['x', 'z']).toContain(modifiers.startAxis);
+        expect(modifiers.speedScale).toBeGreaterThanOrEqual(0.9);
+        expect(modifiers.speedScale).toBeLessThan(1.25);
+        expect(modifiers.speedRamp).toBeGreaterThanOrEqual(0);
+        expect(modifiers.speedRamp).toBeLessThan(0.02);
+        expect(DAILY_MOTION_PROFILES).toContain(modifiers.motion);
+      }
+    });
+
+    it('starts the simulation on the challenge axis', () => {
+      const challenge = createDailyChallenge('2025-06-01');
+      const sim = new GameSimulation();
+      sim.start(challenge.seed, challenge.modifiers);
+      expect(sim.getState().movingAxis).toBe(challenge.modifiers.startAxis);
+    });
+  });
+
+  describe('getDailyStreak', () => {
+    it('counts consecutive days ending today', () => {
+      expect(getDailyStreak(['2025-01-03', '2025-01-04', '2025-01-05'], '2025-01-05')).toBe(3);
+    });
+
+    it('keeps a streak alive until today is played', () => {
+      expect(getDailyStreak(['2025-01-03', '2025-01-04'], '2025-01-05')).toBe(2);
+    });
+
+    it('breaks on a missed day', () => {
+      expect(getDailyStreak(['2025-01-01', '2025-01-03'], '2025-01-05')).toBe(0);
+      expect(getDailyStreak(['2025-01-01', '2025-01-03', '2025-01-05'], '2025-01-05')).toBe(1);
+    });
+
+    it('is zero with no attempts', () => {
+      expect(getDailyStreak([], '2025-01-05')).toBe(0);
+    });
+  });
+});
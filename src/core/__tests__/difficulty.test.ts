@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createDifficultyCurve,
+  getDifficultyCurve,
+  sanitizeDifficulty,
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_PRESETS,
+} from '../difficulty';
+import type { DifficultyPreset } from '../difficulty';
+import { GAME_CONSTANTS } from '../types';
+
+const PRESETS = Object.keys(DIFFICULTY_PRESETS) as DifficultyPreset[];
+
+describe('difficulty', () => {
+  describe('normal preset', () => {
+    it('starts at the base constants', () => {
+      const params = getDifficultyCurve('normal')({ height: 0, perfectStreak: 0 });
+
+      expect(params.speed).toBeCloseTo(GAME_CONSTANTS.OSCILLATION_SPEED);
+      expect(params.amplitude).toBeCloseTo(GAME_CONSTANTS.OSCILLATION_AMPLITUDE);
+      expect(params.tolerance).toBeCloseTo(GAME_CONSTANTS.PERFECT_TOLERANCE);
+    });
+
+    it('plays faster and wider higher up the tower', () => {
+      const curve = getDifficultyCurve('normal');
+      const low = curve({ height: 2, perfectStreak: 0 });
+      const high = curve({ height: 80, perfectStreak: 0 });
+
+      expect(high.speed).toBeGreaterThan(low.speed);
+      expect(high.amplitude).toBeGreaterThan(low.amplitude);
+    });
+
+    it('tightens the perfect tolerance during a streak', () => {
+      const curve = getDifficultyCurve('normal');
+      const fresh = curve({ height: 10, perfectStreak: 0 });
+      const streaking = curve({ height: 10, perfectStreak: 5 });
+
+      expect(streaking.tolerance).toBeLessThan(fresh.tolerance);
+    });
+  });
+
+  describe('createDifficultyCurve', () => {
+    it('respects every preset bound', () => {
+      for (const preset of PRESETS) {
+        const config = DIFFICULTY_PRESETS[preset];
+        const params = createDifficultyCurve(config)({ height: 10_000, perfectStreak: 10_000 });
+
+        expect(params.speed).toBeCloseTo(GAME_CONSTANTS.OSCILLATION_SPEED * config.maxSpeedScale);
+        expect(params.amplitude).toBeCloseTo(
+          GAME_CONSTANTS.OSCILLATION_AMPLITUDE * config.maxAmplitudeScale
+        );
+        expect(params.tolerance).toBeCloseTo(config.minTolerance);
+      }
+    });
+
+    it('treats negative heights as the bottom of the tower', () => {
+      const curve = getDifficultyCurve('hard');
+      expect(curve({ height: -3, perfectStreak: 0 })).toEqual(curve({ height: 0, perfectStreak: 0 }));
+    });
+  });
+
+  describe('sanitizeDifficulty', () => {
+    it('keeps known presets', () => {
+      expect(PRESETS.map(sanitizeDifficulty)).toEqual(PRESETS);
+    });
+
+    it('falls back to the default for stale or hand-edited values', () => {
+      expect(sanitizeDifficulty('nightmare')).toBe(DEFAULT_DIFFICULTY);
+      expect(sanitizeDifficulty('toString')).toBe(DEFAULT_DIFFICULTY);
+      expect(sanitizeDifficulty(2)).toBe(DEFAULT_DIFFICULTY);
+      expect(sanitizeDifficulty(undefined)).toBe(DEFAULT_DIFFICULTY);
+    });
+  });
+
+  it('orders presets from easiest to hardest', () => {
+    const atHeight = (preset: DifficultyPreset) =>
+      getDifficultyCurve(preset)({ height: 20, perfectStreak: 3 });
+
+    for (let i = 1; i < PRESETS.length; i++) {
+      const easier = atHeight(PRESETS[i - 1] ?? 'normal');
+      const harder = atHeight(PRESETS[i] ?? 'normal');
+      expect(harder.speed).toBeGreaterThan(easier.speed);
+      expect(harder.tolerance).toBeLessThan(easier.tolerance);
+    }
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventBus } from '../events';
+
+interface TestEvents {
+  ping: { n: number };
+  pong: { label: string };
+}
+
+describe('EventBus', () => {
+  it('delivers events to listeners of that type only', () => {
+    const bus = new EventBus<TestEvents>();
+    const ping = vi.fn();
+    const pong = vi.fn();
+    bus.on('ping', ping);
+    bus.on('pong', pong);
+
+    bus.emit('ping', { n: 1 });
+
+    expect(ping).toHaveBeenCalledWith({ n: 1 });
+    expect(pong).not.toHaveBeenCalled();
+  });
+
+  it('calls listeners in subscription order', () => {
+    const bus = new EventBus<TestEvents>();
+    const calls: string[] = [];
+    bus.on('ping', () => calls.push('a'));
+    bus.on('ping', () => calls.push('b'));
+
+    bus.emit('ping', { n: 1 });
+
+    expect(calls).toEqual(['a', 'b']);
+  });
+
+  it('stops delivering after unsubscribe', () => {
+    const bus = new EventBus<TestEvents>();
+    const listener = vi.fn();
+    const unsubscribe = bus.on('ping', listener);
+
+    unsubscribe();
+    bus.emit('ping', { n: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(bus.listenerCount('ping')).toBe(0);
+  });
+
+  it('lets a listener unsubscribe while being called', () => {
+    const bus = new EventBus<TestEvents>();
+    const second = vi.fn();
+    const unsubscribe = bus.on('ping', () => {
+      unsubscribe();
+    });
+    bus.on('ping', second);
+
+    bus.emit('ping', { n: 1 });
+    bus.emit('ping', { n: 2 });
+
+    expect(second).toHaveBeenCalledTimes(2);
+    expect(bus.listenerCount('ping')).toBe(1);
+  });
+
+  it('keeps calling listeners after one throws', () => {
+    const bus = new EventBus<TestEvents>();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const after = vi.fn();
+    bus.on('ping', () => {
+      throw new Error('boom');
+    });
+    bus.on('ping', after);
+
+    bus.emit('ping', { n: 1 });
+
+    expect(after).toHaveBeenCalled();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('clears every listener', () => {
+    const bus = new EventBus<TestEvents>();
+    bus.on('ping', vi.fn());
+    bus.on('pong', vi.fn());
+
+    bus.clear();
+
+    expect(bus.listenerCount('ping')).toBe(0);
+    expect(bus.listenerCount('pong')).toBe(0);
+  });
+});
@@ -6,6 +6,9 @@ import {
   createBlock,
   createBaseBlock,
   createMovingBlock,
+  regrowBlock,
+  getSpawnSide,
+  getCutLine,
   vec3,
   resetIdCounter,
 } from '../geometry';
@@ -193,6 +196,31 @@ describe('geometry', () => {
     });
   });
 
+  describe('regrowBlock', () => {
+    it('grows only along the given axis, keeping the center', () => {
+      const block = createBlock(vec3(0.5, 1, -0.25), vec3(2, 0.5, 1.5), 'shrunk');
+
+      const grown = regrowBlock(block, 'x', 0.2);
+
+      expect(grown.dimensions.x).toBeCloseTo(2.2);
+      expect(grown.dimensions.z).toBe(1.5);
+      expect(grown.position).toEqual(block.position);
+    });
+
+    it('never grows past the initial size', () => {
+      const block = createBlock(vec3(0, 1, 0), vec3(3, 0.5, 2.9), 'almost');
+
+      const grown = regrowBlock(block, 'z', 0.5);
+
+      expect(grown.dimensions.z).toBe(GAME_CONSTANTS.INITIAL_BLOCK_SIZE);
+    });
+
+    it('returns the same block when already full size', () => {
+      const block = createBlock(vec3(0, 1, 0), vec3(3, 0.5, 3), 'full');
+      expect(regrowBlock(block, 'x')).toBe(block);
+    });
+  });
+
   describe('createBaseBlock', () => {
     it('creates a base block at origin with correct dimensions', () => {
       const base = createBaseBlock();
@@ -223,7 +251,54 @@ describe('geometry', () => {
 
       expect(moving.position.y).toBe(2.5);
       expect(moving.position.x).toBe(1); // Same x as last block
-      expect(moving.position.z).toBe(-GAME_CONSTANTS.OSCILLATION_AMPLITUDE);
+      // Spawn edge is measured from the last block's center
+      expect(moving.position.z).toBe(0.5 - GAME_CONSTANTS.OSCILLATION_AMPLITUDE);
+    });
+
+    it('spawns on the requested side at the given amplitude', () => {
+      const lastBlock = createBlock(vec3(-0.5, 1, 0), vec3(2, 0.5, 3), 'last');
+
+      const moving = createMovingBlock(lastBlock, 'x', 1, 5);
+
+      expect(moving.position.x).toBe(4.5);
+    });
+  });
+
+  describe('getCutLine', () => {
+    it('finds the edge between the kept block and the overhang', () => {
+      const base = createBaseBlock();
+      const moving = createBlock(vec3(1, 0.5, 0), vec3(3, 0.5, 3));
+      const { kept, fallen } = sliceBlock(moving, base, 'x');
+      if (!kept || !fallen) throw new Error('Expected a slice');
+
+      const cut = getCutLine(kept, fallen, 'x');
+
+      expect(cut.axis).toBe('x');
+      expect(cut.center.x).toBeCloseTo(1.5);
+      expect(cut.center.y).toBeCloseTo(0.75);
+      expect(cut.center.z).toBe(0);
+      expect(cut.length).toBe(3);
+    });
+
+    it('handles overhangs on the negative side of z', () => {
+      const base = createBaseBlock();
+      const moving = createBlock(vec3(0, 0.5, -1), vec3(3, 0.5, 3));
+      const { kept, fallen } = sliceBlock(moving, base, 'z');
+      if (!kept || !fallen) throw new Error('Expected a slice');
+
+      const cut = getCutLine(kept, fallen, 'z');
+
+      expect(cut.center.z).toBeCloseTo(-1.5);
+      expect(cut.center.x).toBe(0);
+      expect(cut.length).toBe(3);
+    });
+  });
+
+  describe('getSpawnSide', () => {
+    it('alternates sides for each axis', () => {
+      // Stack sizes 1, 3, 5... share the starting axis; 2, 4, 6... the other
+      const sides = [1, 2, 3, 4, 5, 6, 7, 8].map(getSpawnSide);
+      expect(sides).toEqual([-1, -1, 1, 1, -1, -1, 1, 1]);
     });
   });
 });
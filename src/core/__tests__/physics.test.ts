@@ -6,7 +6,13 @@ import {
   createFallingPiece,
   shouldRemoveFallingPiece,
 } from '../physics';
-import { createBlock, vec3 } from '../geometry';
+import { createBlock, createMovingBlock, vec3 } from '../geometry';
+import { createRng } from '../random';
+import {
+  getMotionOffset,
+  MOTION_PROFILES,
+  MAX_ACCELERATION,
+} from '../motion';
 import { GAME_CONSTANTS } from '../types';
 import type { FallingPiece } from '../types';
 
@@ -50,9 +56,10 @@ describe('physics', () => {
   describe('updateBlockOscillation', () => {
     it('updates x position when axis is x', () => {
       const block = createBlock(vec3(0, 1, 2), vec3(3, 0.5, 3), 'test');
-      const quarterPeriod = Math.PI / (2 * GAME_CONSTANTS.OSCILLATION_SPEED);
+      const halfPeriod = Math.PI / GAME_CONSTANTS.OSCILLATION_SPEED;
 
-      const updated = updateBlockOscillation(block, 'x', quarterPeriod);
+      // Spawned at the negative edge, so half a period later it's at the positive one
+      const updated = updateBlockOscillation(block, 'x', halfPeriod);
 
       expect(updated.position.x).toBeCloseTo(GAME_CONSTANTS.OSCILLATION_AMPLITUDE);
       expect(updated.position.y).toBe(1); // Unchanged
@@ -61,9 +68,9 @@ describe('physics', () => {
 
     it('updates z position when axis is z', () => {
       const block = createBlock(vec3(1, 2, 0), vec3(3, 0.5, 3), 'test');
-      const quarterPeriod = Math.PI / (2 * GAME_CONSTANTS.OSCILLATION_SPEED);
+      const halfPeriod = Math.PI / GAME_CONSTANTS.OSCILLATION_SPEED;
 
-      const updated = updateBlockOscillation(block, 'z', quarterPeriod);
+      const updated = updateBlockOscillation(block, 'z', halfPeriod);
 
       expect(updated.position.z).toBeCloseTo(GAME_CONSTANTS.OSCILLATION_AMPLITUDE);
       expect(updated.position.x).toBe(1); // Unchanged
@@ -77,6 +84,134 @@ describe('physics', () => {
       expect(updated).not.toBe(block);
       expect(updated.position).not.toBe(block.position);
     });
+
+    it('continues from the spawn position without a jump', () => {
+      const base = createBlock(vec3(0.7, 0, -0.4), vec3(3, 0.5, 3), 'base');
+      const options = { speed: 2.4, amplitude: 4.5 };
+
+      for (const axis of ['x', 'z'] as const) {
+        for (const spawnSide of [-1, 1] as const) {
+          for (const profile of MOTION_PROFILES) {
+            const spawned = createMovingBlock(base, axis, spawnSide, options.amplitude);
+            const center = base.position[axis];
+            const first = updateBlockOscillation(spawned, axis, 0, center, { ...options, profile, spawnSide });
+            const next = updateBlockOscillation(spawned, axis, 0.016, center, { ...options, profile, spawnSide });
+
+            expect(first.position[axis]).toBeCloseTo(spawned.position[axis]);
+            // One frame later it has moved a little (not teleported), and inward
+            expect(Math.abs(next.position[axis] - first.position[axis])).toBeLessThan(0.5);
+            expect(Math.abs(next.position[axis] - center)).toBeLessThanOrEqual(
+              Math.abs(first.position[axis] - center)
+            );
+          }
+        }
+      }
+    });
+  });
+
+  describe('motion profiles', () => {
+    const amplitude = 4;
+    const speed = 2;
+    const period = (2 * Math.PI) / speed;
+    /** Time of the k-th edge after the spawn edge */
+    const edgeTime = (k: number) => ((k + 1) * Math.PI) / speed;
+
+    it('stays within the amplitude', () => {
+      for (const profile of MOTION_PROFILES) {
+        for (let t = 0; t < 20; t += 0.01) {
+          const offset = getMotionOffset(profile, t, amplitude, speed, 99);
+          expect(Math.abs(offset)).toBeLessThanOrEqual(amplitude + 1e-9);
+        }
+      }
+    });
+
+    it('starts at the negative edge', () => {
+      for (const profile of MOTION_PROFILES) {
+        expect(getMotionOffset(profile, 0, amplitude, speed)).toBe(-amplitude);
+      }
+    });
+
+    it('matches the plain sine a quarter period behind for the sine profile', () => {
+      const quarterPeriod = period / 4;
+      for (let t = 0; t < 10; t += 0.137) {
+        expect(getMotionOffset('sine', t, amplitude, speed)).toBeCloseTo(
+          oscillatePosition(t - quarterPeriod, amplitude, speed, 0)
+        );
+      }
+    });
+
+    it('repeats every period for the paced profiles', () => {
+      for (const profile of ['sine', 'linear', 'eased'] as const) {
+        for (let t = 0.05; t < 5; t += 0.31) {
+          expect(getMotionOffset(profile, t + period, amplitude, speed)).toBeCloseTo(
+            getMotionOffset(profile, t, amplitude, speed)
+          );
+        }
+      }
+    });
+
+    it('reaches the edges every half period', () => {
+      for (const profile of ['sine', 'linear', 'eased', 'erratic'] as const) {
+        for (let k = 0; k < 6; k++) {
+          const expected = k % 2 === 0 ? amplitude : -amplitude;
+          expect(getMotionOffset(profile, edgeTime(k), amplitude, speed, 5)).toBeCloseTo(expected);
+        }
+      }
+    });
+
+    it('moves at constant speed for the linear profile', () => {
+      // A quarter of the way through the first pass
+      expect(getMotionOffset('linear', edgeTime(0) / 4, amplitude, speed)).toBeCloseTo(-amplitude / 2);
+    });
+
+    it('lingers near the edges for the eased profile', () => {
+      const nearEdge = edgeTime(0) * 0.95;
+      expect(getMotionOffset('eased', nearEdge, amplitude, speed)).toBeGreaterThan(
+        getMotionOffset('linear', nearEdge, amplitude, speed)
+      );
+    });
+
+    it('shortens each pass for the accelerating profile until the cap', () => {
+      /** Time of the next sign change after `from` */
+      const nextCrossing = (from: number) => {
+        const start = Math.sign(getMotionOffset('accelerating', from, amplitude, speed));
+        let t = from;
+        while (Math.sign(getMotionOffset('accelerating', t, amplitude, speed)) === start) {
+          t += 0.0005;
+        }
+        return t;
+      };
+
+      const crossings = [nextCrossing(0.01)];
+      for (let i = 0; i < 10; i++) {
+        crossings.push(nextCrossing((crossings[i] ?? 0) + 0.001));
+      }
+      const passes = crossings.slice(1).map((t, i) => t - (crossings[i] ?? 0));
+
+      expect(passes[1]).toBeLessThan(passes[0] ?? 0);
+      // Once capped, passes settle at π / (speed * MAX_ACCELERATION)
+      expect(passes[passes.length - 1]).toBeCloseTo(Math.PI / (speed * MAX_ACCELERATION), 2);
+    });
+
+    it('varies the erratic profile by seed but reproduces it per seed', () => {
+      const t = edgeTime(2) + 0.3;
+      const first = getMotionOffset('erratic', t, amplitude, speed, 1);
+
+      expect(getMotionOffset('erratic', t, amplitude, speed, 1)).toBe(first);
+      expect(getMotionOffset('erratic', t, amplitude, speed, 2)).not.toBe(first);
+    });
+
+    it('is continuous for every profile', () => {
+      for (const profile of MOTION_PROFILES) {
+        let previous = getMotionOffset(profile, 0, amplitude, speed, 3);
+        for (let t = 0.001; t < 10; t += 0.001) {
+          const offset = getMotionOffset(profile, t, amplitude, speed, 3);
+          // Fastest case: erratic at 3.4x or accelerating at 2x the linear pace
+          expect(Math.abs(offset - previous)).toBeLessThan(0.1);
+          previous = offset;
+        }
+      }
+    });
   });
 
   describe('updateFallingPiece', () => {
@@ -134,7 +269,7 @@ describe('physics', () => {
       const fallenBlock = createBlock(vec3(2, 1, 0), vec3(1, 0.5, 3), 'fallen');
       const baseBlock = createBlock(vec3(0, 0, 0), vec3(3, 0.5, 3), 'base');
 
-      const piece = createFallingPiece(fallenBlock, baseBlock, 'x', 1000);
+      const piece = createFallingPiece(fallenBlock, baseBlock, 'x', 1000, createRng(1));
 
       expect(piece.id).toBe('falling-fallen');
       expect(piece.block).toBe(fallenBlock);
@@ -147,14 +282,38 @@ describe('physics', () => {
 
       // Overhang on positive side
       const fallenRight = createBlock(vec3(2, 1, 0), vec3(1, 0.5, 3), 'fallen-right');
-      const pieceRight = createFallingPiece(fallenRight, baseBlock, 'x', 0);
+      const pieceRight = createFallingPiece(fallenRight, baseBlock, 'x', 0, createRng(1));
       expect(pieceRight.velocity.x).toBeGreaterThan(0);
 
       // Overhang on negative side
       const fallenLeft = createBlock(vec3(-2, 1, 0), vec3(1, 0.5, 3), 'fallen-left');
-      const pieceLeft = createFallingPiece(fallenLeft, baseBlock, 'x', 0);
+      const pieceLeft = createFallingPiece(fallenLeft, baseBlock, 'x', 0, createRng(1));
       expect(pieceLeft.velocity.x).toBeLessThan(0);
     });
+
+    it('is reproducible for the same seed', () => {
+      const fallenBlock = createBlock(vec3(2, 1, 0), vec3(1, 0.5, 3), 'fallen');
+      const baseBlock = createBlock(vec3(0, 0, 0), vec3(3, 0.5, 3), 'base');
+
+      const first = createFallingPiece(fallenBlock, baseBlock, 'z', 0, createRng(42));
+      const second = createFallingPiece(fallenBlock, baseBlock, 'z', 0, createRng(42));
+
+      expect(second.velocity).toEqual(first.velocity);
+      expect(second.angularVelocity).toEqual(first.angularVelocity);
+    });
+
+    it('keeps velocity within the expected ranges', () => {
+      const fallenBlock = createBlock(vec3(0, 1, 2), vec3(3, 0.5, 1), 'fallen');
+      const baseBlock = createBlock(vec3(0, 0, 0), vec3(3, 0.5, 3), 'base');
+      const rng = createRng(7);
+
+      for (let i = 0; i < 50; i++) {
+        const piece = createFallingPiece(fallenBlock, baseBlock, 'z', 0, rng);
+        expect(piece.velocity.z).toBeGreaterThanOrEqual(2);
+        expect(piece.velocity.z).toBeLessThan(4);
+        expect(Math.abs(piece.velocity.x)).toBeLessThanOrEqual(0.25);
+      }
+    });
   });
 
   describe('shouldRemoveFallingPiece', () => {
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { createRng, randomRange, generateSeed } from '../random';
+
+describe('random', () => {
+  describe('createRng', () => {
+    it('produces the same sequence for the same seed', () => {
+      const a = createRng(1234);
+      const b = createRng(1234);
+
+      for (let i = 0; i < 20; i++) {
+        expect(a.next()).toBe(b.next());
+      }
+    });
+
+    it('produces different sequences for different seeds', () => {
+      const a = createRng(1);
+      const b = createRng(2);
+      expect(a.next()).not.toBe(b.next());
+    });
+
+    it('returns values in [0, 1)', () => {
+      const rng = createRng(99);
+      for (let i = 0; i < 1000; i++) {
+        const value = rng.next();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+
+    it('resumes a sequence from its state', () => {
+      const rng = createRng(555);
+      rng.next();
+      rng.next();
+
+      const resumed = createRng(rng.state);
+      expect(resumed.next()).toBe(rng.next());
+    });
+  });
+
+  describe('randomRange', () => {
+    it('stays within bounds', () => {
+      const rng = createRng(3);
+      for (let i = 0; i < 100; i++) {
+        const value = randomRange(rng, -2, 5);
+        expect(value).toBeGreaterThanOrEqual(-2);
+        expect(value).toBeLessThan(5);
+      }
+    });
+  });
+
+  describe('generateSeed', () => {
+    it('returns an unsigned 32-bit integer', () => {
+      const seed = generateSeed();
+      expect(Number.isInteger(seed)).toBe(true);
+      expect(seed).toBeGreaterThanOrEqual(0);
+      expect(seed).toBeLessThan(4294967296);
+    });
+  });
+});
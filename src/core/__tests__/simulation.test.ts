@@ -0,0 +1,472 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GameSimulation,
+  FIXED_TIMESTEP_MS,
+  getNextAxis,
+  simulateReplay,
+} from '../simulation';
+import { createRng } from '../random';
+import { CLASSIC_MODIFIERS, GAME_CONSTANTS } from '../types';
+import type { RunModifiers } from '../types';
+
+/** Ticks until the block is within `tolerance` of the top block's center */
+function tickUntilAligned(sim: GameSimulation, tolerance: number): void {
+  for (let i = 0; i < 1000; i++) {
+    sim.tick(FIXED_TIMESTEP_MS);
+    const { currentBlock, blocks, movingAxis } = sim.getState();
+    const top = blocks[blocks.length - 1];
+    if (currentBlock && top && Math.abs(currentBlock.position[movingAxis] - top.position[movingAxis]) < tolerance) {
+      return;
+    }
+  }
+  throw new Error('Block never aligned');
+}
+
+/** Plays a run, dropping at pseudo-random times drawn from `botSeed` */
+function playRandomRun(seed: number, botSeed: number, modifiers?: RunModifiers): GameSimulation {
+  const sim = new GameSimulation();
+  const bot = createRng(botSeed);
+  sim.start(seed, modifiers);
+
+  while (sim.getState().phase === 'playing') {
+    sim.advanceTo(sim.getState().gameTime + 200 + Math.floor(bot.next() * 1200));
+    sim.drop();
+  }
+  return sim;
+}
+
+describe('simulation', () => {
+  describe('getNextAxis', () => {
+    it('alternates between x and z', () => {
+      expect(getNextAxis('x')).toBe('z');
+      expect(getNextAxis('z')).toBe('x');
+    });
+  });
+
+  describe('start', () => {
+    it('starts a run with a base block and a moving block', () => {
+      const sim = new GameSimulation();
+      sim.start(1);
+      const state = sim.getState();
+
+      expect(state.phase).toBe('playing');
+      expect(state.blocks).toHaveLength(1);
+      expect(state.currentBlock).not.toBeNull();
+      expect(state.movingAxis).toBe('x');
+      expect(state.seed).toBe(1);
+      expect(state.score).toBe(0);
+    });
+
+    it('numbers blocks per instance, so simulations run side by side', () => {
+      const first = new GameSimulation();
+      const second = new GameSimulation();
+      first.start(1);
+      tickUntilAligned(first, 0.05);
+      first.drop();
+
+      // Starting another run must not reset or share the first one's sequence
+      second.start(2);
+      tickUntilAligned(first, 0.05);
+      first.drop();
+
+      const { blocks, currentBlock } = first.getState();
+      const ids = [...blocks, currentBlock].map((block) => block?.id);
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(second.getState().currentBlock?.id).toBe('block-1');
+    });
+
+    it('ignores drops and ticks before the run starts', () => {
+      const sim = new GameSimulation();
+      expect(sim.drop()).toBeNull();
+      sim.tick(FIXED_TIMESTEP_MS);
+      expect(sim.getState().gameTime).toBe(0);
+    });
+  });
+
+  describe('drop', () => {
+    it('scores a perfect hit when aligned', () => {
+      const sim = new GameSimulation();
+      sim.start(1);
+      tickUntilAligned(sim, GAME_CONSTANTS.PERFECT_TOLERANCE / 2);
+
+      const outcome = sim.drop();
+
+      expect(outcome?.result.isPerfect).toBe(true);
+      expect(outcome?.points).toBe(GAME_CONSTANTS.POINTS_PER_HIT);
+      expect(sim.getState().perfectStreak).toBe(1);
+      expect(sim.getState().movingAxis).toBe('z');
+    });
+
+    it('multiplies points for consecutive perfects', () => {
+      const sim = new GameSimulation();
+      sim.start(1);
+
+      const points: number[] = [];
+      for (let i = 0; i < 3; i++) {
+        tickUntilAligned(sim, GAME_CONSTANTS.PERFECT_TOLERANCE / 2);
+        points.push(sim.drop()?.points ?? 0);
+      }
+
+      expect(points).toEqual([10, 20, 40]);
+      expect(sim.getState().score).toBe(70);
+      expect(sim.getState().perfectCount).toBe(3);
+      expect(sim.getState().maxStreak).toBe(3);
+    });
+
+    it('slices off the overhang and creates a falling piece', () => {
+      const sim = new GameSimulation();
+      sim.start(1);
+      sim.advanceTo(600);
+
+      const outcome = sim.drop();
+
+      expect(outcome?.result.isPerfect).toBe(false);
+      expect(outcome?.fallingPiece).not.toBeNull();
+      expect(sim.getState().fallingPieces).toHaveLength(1);
+      expect(sim.getState().blocks[1]?.dimensions.x).toBeLessThan(GAME_CONSTANTS.INITIAL_BLOCK_SIZE);
+    });
+
+    it('regrows a shrunk block once the perfect streak is long enough', () => {
+      const sim = new GameSimulation();
+      sim.start(1);
+      sim.advanceTo(600);
+      sim.drop(); // Slice on x
+
+      const shrunk = sim.getState().blocks[1]?.dimensions.x ?? 0;
+      const outcomes = [];
+      for (let i = 0; i < GAME_CONSTANTS.REGROW_STREAK + 1; i++) {
+        tickUntilAligned(sim, GAME_CONSTANTS.PERFECT_TOLERANCE / 4);
+        outcomes.push(sim.drop());
+      }
+
+      // Streak too short, or the z side was never cut
+      outcomes.slice(0, -1).forEach((outcome) => {
+        expect(outcome?.regrowth).toBe(0);
+      });
+
+      const last = outcomes[outcomes.length - 1];
+      const top = sim.getState().blocks[sim.getState().blocks.length - 1];
+      expect(last?.axis).toBe('x');
+      expect(last?.regrowth).toBeCloseTo(GAME_CONSTANTS.REGROW_AMOUNT);
+      expect(top?.dimensions.x).toBeCloseTo(shrunk + GAME_CONSTANTS.REGROW_AMOUNT);
+      expect(sim.getState().lastRegrowth).toBe(last?.regrowth);
+    });
+
+    it('ends the run on a complete miss', () => {
+      const sim = new GameSimulation();
+      sim.start(1);
+
+      // Before the first tick the block sits at its spawn edge, off the stack
+      const outcome = sim.drop();
+
+      expect(outcome?.gameOver).toBe(true);
+      expect(sim.getState().phase).toBe('gameover');
+      expect(sim.getState().currentBlock).toBeNull();
+    });
+
+    it('records every drop in the input log', () => {
+      const sim = new GameSimulation();
+      sim.start(1);
+      sim.advanceTo(592);
+      sim.drop();
+      sim.advanceTo(1600);
+      sim.drop();
+
+      expect(sim.getState().inputLog).toEqual([{ gameTime: 592 }, { gameTime: 1600 }]);
+    });
+  });
+
+  describe('drop timing', () => {
+    it('slices at the press time, however the ticks fell around it', () => {
+      // One frame handles the press just before the next tick, the other just after
+      const early = new GameSimulation();
+      early.start(5);
+      early.advanceTo(784);
+      const earlyOutcome = early.drop(790);
+
+      const late = new GameSimulation();
+      late.start(5);
+      late.advanceTo(800);
+      const lateOutcome = late.drop(790);
+
+      expect(lateOutcome?.result).toEqual(earlyOutcome?.result);
+      expect(late.getState().blocks).toEqual(early.getState().blocks);
+      expect(late.getState().spawnTime).toBe(790);
+    });
+
+    it('evaluates the block between ticks', () => {
+      const atTick = new GameSimulation();
+      atTick.start(5);
+      atTick.advanceTo(400);
+      const atTickOutcome = atTick.drop();
+
+      const between = new GameSimulation();
+      between.start(5);
+      between.advanceTo(400);
+      const betweenOutcome = between.drop(408);
+
+      // Neither is perfect, so the kept sizes show where the block was
+      expect(atTickOutcome?.result.isPerfect).toBe(false);
+      expect(betweenOutcome?.result.kept?.dimensions).not.toEqual(atTickOutcome?.result.kept?.dimensions);
+    });
+
+    it('clamps the press time to the block lifetime and one step ahead', () => {
+      const sim = new GameSimulation();
+      sim.start(5);
+      sim.advanceTo(800);
+      sim.drop(5000);
+      sim.advanceTo(1600);
+      sim.drop(100);
+
+      expect(sim.getState().inputLog).toEqual([
+        { gameTime: 800 + FIXED_TIMESTEP_MS },
+        { gameTime: 800 + FIXED_TIMESTEP_MS },
+      ]);
+    });
+
+    it('replays presses between ticks exactly', () => {
+      const live = new GameSimulation();
+      const bot = createRng(12);
+      live.start(31);
+      while (live.getState().phase === 'playing') {
+        live.advanceTo(live.getState().gameTime + 200 + Math.floor(bot.next() * 1200));
+        live.drop(live.getState().gameTime - 10 + bot.next() * 20);
+      }
+      const replayed = simulateReplay(live.toReplayLog());
+
+      expect(replayed.score).toBe(live.getState().score);
+      expect(replayed.blocks).toEqual(live.getState().blocks);
+      expect(replayed.fallingPieces).toEqual(live.getState().fallingPieces);
+    });
+  });
+
+  describe('rewind', () => {
+    /** Starts a run and places perfects until the rewind is earned */
+    function earnRewind(): GameSimulation {
+      const sim = new GameSimulation();
+      sim.start(1);
+      for (let i = 0; i < GAME_CONSTANTS.REWIND_STREAK; i++) {
+        expect(sim.getState().rewind).toBe('locked');
+        tickUntilAligned(sim, GAME_CONSTANTS.PERFECT_TOLERANCE / 4);
+        sim.drop();
+      }
+      return sim;
+    }
+
+    it('is earned by a long enough perfect streak', () => {
+      const sim = earnRewind();
+
+      expect(sim.getState().perfectStreak).toBe(GAME_CONSTANTS.REWIND_STREAK);
+      expect(sim.getState().rewind).toBe('ready');
+    });
+
+    it('does nothing until earned', () => {
+      const sim = new GameSimulation();
+      sim.start(1);
+      tickUntilAligned(sim, GAME_CONSTANTS.PERFECT_TOLERANCE / 4);
+      sim.drop();
+
+      expect(sim.rewind()).toBeNull();
+      expect(sim.getState().blocks).toHaveLength(2);
+    });
+
+    it('undoes the last slice and respawns the dropped block', () => {
+      const sim = earnRewind();
+      tickUntilAligned(sim, 1);
+      const before = sim.getState();
+      const outcome = sim.drop();
+      expect(outcome?.result.isPerfect).toBe(false);
+
+      sim.advanceTo(sim.getState().gameTime + 100);
+      const result = sim.rewind();
+      const after = sim.getState();
+
+      expect(result?.fallen).toEqual(outcome?.result.fallen);
+      expect(after.blocks).toEqual(before.blocks);
+      expect(after.score).toBe(before.score);
+      expect(after.perfectStreak).toBe(before.perfectStreak);
+      expect(after.movingAxis).toBe(before.movingAxis);
+      expect(after.fallingPieces).not.toContain(outcome?.fallingPiece);
+      expect(after.spawnTime).toBe(after.gameTime);
+      expect(after.rewind).toBe('used');
+    });
+
+    it('can only be used once per run', () => {
+      const sim = earnRewind();
+      expect(sim.rewind()).not.toBeNull();
+
+      // Reaching the streak again doesn't bring it back
+      tickUntilAligned(sim, GAME_CONSTANTS.PERFECT_TOLERANCE / 4);
+      sim.drop();
+
+      expect(sim.getState().perfectStreak).toBe(GAME_CONSTANTS.REWIND_STREAK);
+      expect(sim.getState().rewind).toBe('used');
+      expect(sim.rewind()).toBeNull();
+    });
+
+    it('is recorded and replayed exactly', () => {
+      const sim = earnRewind();
+      tickUntilAligned(sim, 1);
+      sim.drop();
+      sim.advanceTo(sim.getState().gameTime + 100);
+      sim.rewind();
+      const rewindTime = sim.getState().gameTime;
+      while (sim.getState().phase === 'playing') {
+        sim.advanceTo(sim.getState().gameTime + 500);
+        sim.drop();
+      }
+
+      const log = sim.toReplayLog();
+      const replayed = simulateReplay(log);
+
+      expect(log.inputs).toContainEqual({ gameTime: rewindTime, action: 'rewind' });
+      expect(replayed.rewind).toBe('used');
+      expect(replayed.score).toBe(sim.getState().score);
+      expect(replayed.blocks).toEqual(sim.getState().blocks);
+    });
+  });
+
+  describe('pause', () => {
+    it('freezes ticks, drops and rewinds until resumed', () => {
+      const sim = new GameSimulation();
+      sim.start(1);
+      sim.advanceTo(400);
+      const before = sim.getState();
+
+      expect(sim.pause()).toBe(true);
+      sim.tick(FIXED_TIMESTEP_MS);
+      expect(sim.drop()).toBeNull();
+      expect(sim.rewind()).toBeNull();
+
+      const paused = sim.getState();
+      expect(paused.phase).toBe('paused');
+      expect(paused.gameTime).toBe(before.gameTime);
+      expect(paused.currentBlock).toEqual(before.currentBlock);
+      expect(paused.inputLog).toHaveLength(0);
+    });
+
+    it('resumes from the same game time', () => {
+      const paused = new GameSimulation();
+      paused.start(1);
+      paused.advanceTo(400);
+      paused.pause();
+      expect(paused.resume()).toBe(true);
+      paused.advanceTo(800);
+
+      const straight = new GameSimulation();
+      straight.start(1);
+      straight.advanceTo(800);
+
+      expect(paused.getState()).toEqual(straight.getState());
+    });
+
+    it('only pauses a playing run', () => {
+      const sim = new GameSimulation();
+      expect(sim.pause()).toBe(false);
+      expect(sim.resume()).toBe(false);
+
+      sim.start(1);
+      sim.drop(); // Misses from the spawn edge
+      expect(sim.pause()).toBe(false);
+      expect(sim.getState().phase).toBe('gameover');
+    });
+  });
+
+  describe('determinism', () => {
+    it('produces identical runs for the same seed and inputs', () => {
+      const a = playRandomRun(77, 5).getState();
+      const b = playRandomRun(77, 5).getState();
+
+      expect(b.score).toBe(a.score);
+      expect(b.blocks).toEqual(a.blocks);
+      expect(b.fallingPieces).toEqual(a.fallingPieces);
+    });
+
+    it('replays a recorded run exactly', () => {
+      const live = playRandomRun(2024, 9);
+      const replayed = simulateReplay(live.toReplayLog());
+
+      expect(replayed.phase).toBe('gameover');
+      expect(replayed.score).toBe(live.getState().score);
+      expect(replayed.blocks).toEqual(live.getState().blocks);
+      expect(replayed.fallingPieces).toEqual(live.getState().fallingPieces);
+    });
+
+    it('replays runs on every difficulty', () => {
+      for (const difficulty of ['casual', 'hard', 'insane'] as const) {
+        const live = playRandomRun(11, 4, { ...CLASSIC_MODIFIERS, difficulty });
+        const log = live.toReplayLog();
+        const replayed = simulateReplay(log);
+
+        expect(log.modifiers?.difficulty).toBe(difficulty);
+        expect(replayed.blocks).toEqual(live.getState().blocks);
+      }
+    });
+
+    it('reports the inputs a replay fires from tick', () => {
+      const live = playRandomRun(8, 2);
+      const log = live.toReplayLog();
+      const sim = new GameSimulation();
+      sim.startReplay(log);
+
+      const played = [];
+      while (sim.getState().phase === 'playing') {
+        played.push(...sim.tick(FIXED_TIMESTEP_MS));
+      }
+
+      expect(played).toHaveLength(log.inputs.length);
+      expect(played.every((input) => input.action === 'drop')).toBe(true);
+      expect(played[played.length - 1]).toMatchObject({ action: 'drop', outcome: { gameOver: true } });
+    });
+
+    it('does not record inputs while replaying', () => {
+      const live = playRandomRun(3, 3);
+      const sim = new GameSimulation();
+      sim.startReplay(live.toReplayLog());
+      sim.advanceTo(live.getState().gameTime + FIXED_TIMESTEP_MS);
+
+      expect(sim.isReplay).toBe(true);
+      expect(sim.getState().inputLog).toHaveLength(0);
+    });
+  });
+
+  describe('tick', () => {
+    it('moves each new block on from its spawn edge without jumping', () => {
+      const sim = new GameSimulation();
+      const bot = createRng(8);
+      sim.start(21, { ...CLASSIC_MODIFIERS, difficulty: 'hard' });
+
+      while (sim.getState().phase === 'playing') {
+        const spawned = sim.getState().currentBlock;
+        const axis = sim.getState().movingAxis;
+        sim.tick(FIXED_TIMESTEP_MS);
+        const moved = sim.getState().currentBlock;
+        if (!spawned || !moved) throw new Error('Missing moving block');
+
+        expect(Math.abs(moved.position[axis] - spawned.position[axis])).toBeLessThan(0.5);
+
+        sim.advanceTo(sim.getState().gameTime + 300 + Math.floor(bot.next() * 900));
+        sim.drop();
+      }
+    });
+  });
+
+  describe('invariants', () => {
+    it('only grows blocks by regrowth, and always ends in game over', () => {
+      for (let seed = 0; seed < 200; seed++) {
+        const { phase, blocks } = playRandomRun(seed, seed + 1000).getState();
+        expect(phase).toBe('gameover');
+
+        blocks.slice(1).forEach((block, i) => {
+          const prev = blocks[i];
+          if (!prev) throw new Error('Missing previous block');
+          const regrowth = GAME_CONSTANTS.REGROW_AMOUNT + 1e-9;
+          expect(block.dimensions.x).toBeLessThanOrEqual(prev.dimensions.x + regrowth);
+          expect(block.dimensions.z).toBeLessThanOrEqual(prev.dimensions.z + regrowth);
+          expect(block.dimensions.x).toBeLessThanOrEqual(GAME_CONSTANTS.INITIAL_BLOCK_SIZE);
+          expect(block.dimensions.z).toBeLessThanOrEqual(GAME_CONSTANTS.INITIAL_BLOCK_SIZE);
+        });
+      }
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { buildHeightHistogram, computeRunStats } from '../stats';
+import type { RunSummary } from '../stats';
+
+function run(overrides: Partial<RunSummary>): RunSummary {
+  return {
+    score: 0,
+    height: 0,
+    perfectCount: 0,
+    maxStreak: 0,
+    duration: 0,
+    ...overrides,
+  };
+}
+
+describe('stats', () => {
+  describe('buildHeightHistogram', () => {
+    it('returns no buckets for no runs', () => {
+      expect(buildHeightHistogram([])).toEqual([]);
+    });
+
+    it('buckets heights into fixed-width bins', () => {
+      expect(buildHeightHistogram([0, 3, 4, 5, 12], 5)).toEqual([
+        { min: 0, max: 4, count: 3 },
+        { min: 5, max: 9, count: 1 },
+        { min: 10, max: 14, count: 1 },
+      ]);
+    });
+
+    it('keeps empty bins between populated ones', () => {
+      const histogram = buildHeightHistogram([1, 21], 10);
+      expect(histogram.map((b) => b.count)).toEqual([1, 0, 1]);
+    });
+  });
+
+  describe('computeRunStats', () => {
+    it('returns zeros for an empty history', () => {
+      expect(computeRunStats([])).toEqual({
+        runCount: 0,
+        averageScore: 0,
+        perfectRate: 0,
+        longestStreak: 0,
+        heightHistogram: [],
+      });
+    });
+
+    it('aggregates across runs', () => {
+      const stats = computeRunStats([
+        run({ score: 100, height: 10, perfectCount: 5, maxStreak: 3 }),
+        run({ score: 50, height: 10, perfectCount: 0, maxStreak: 0 }),
+        run({ score: 0, height: 0 }),
+      ]);
+
+      expect(stats.runCount).toBe(3);
+      expect(stats.averageScore).toBe(50);
+      expect(stats.perfectRate).toBe(0.25);
+      expect(stats.longestStreak).toBe(3);
+    });
+
+    it('has a zero perfect rate when nothing was placed', () => {
+      expect(computeRunStats([run({ height: 0 })]).perfectRate).toBe(0);
+    });
+  });
+});
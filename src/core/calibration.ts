@@ -0,0 +1,97 @@
+/**
+ * Pure input latency calibration.
+ * The player taps along to a metronome; each tap is matched to its nearest
+ * beat and the typical gap becomes the input offset applied to drops.
+ */
+
+export const CALIBRATION_CONFIG = {
+  /** Time between beats (ms) */
+  BEAT_INTERVAL_MS: 600,
+  /** Lead-in beats the player listens to before taps count */
+  COUNT_IN_BEATS: 4,
+  /** Beats taps are scored against */
+  SCORED_BEATS: 12,
+  /** Taps further than this from their beat are ignored (ms) */
+  MAX_TAP_ERROR_MS: 250,
+  /** Taps needed for a usable result */
+  MIN_TAPS: 6,
+  /** Taps this far from the median are outliers (ms) */
+  OUTLIER_MS: 80,
+} as const;
+
+export interface CalibrationResult {
+  /** Average tap delay after its beat (ms, negative when early) */
+  offsetMs: number;
+  /** Standard deviation of the counted taps (ms) */
+  spreadMs: number;
+  /** Taps the result is based on */
+  tapCount: number;
+}
+
+/**
+ * Signed gap from a tap to its nearest beat, or null if no beat is within
+ * `maxError`. `beats` must be sorted.
+ */
+export function getTapError(
+  tap: number,
+  beats: readonly number[],
+  maxError: number = CALIBRATION_CONFIG.MAX_TAP_ERROR_MS
+): number | null {
+  let best: number | null = null;
+  for (const beat of beats) {
+    const error = tap - beat;
+    if (Math.abs(error) <= maxError && (best === null || Math.abs(error) < Math.abs(best))) {
+      best = error;
+    }
+    if (beat > tap + maxError) break;
+  }
+  return best;
+}
+
+function median(values: readonly number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const upper = sorted[mid] ?? 0;
+  return sorted.length % 2 === 1 ? upper : ((sorted[mid - 1] ?? upper) + upper) / 2;
+}
+
+/**
+ * Work out a player's latency from beat and tap times (same clock, ms).
+ * Each beat counts once, for the tap closest to it; stray taps and
+ * outliers around the median are dropped before averaging.
+ * @returns The result, or null if too few taps landed near a beat
+ */
+export function computeCalibration(
+  beats: readonly number[],
+  taps: readonly number[],
+  minTaps: number = CALIBRATION_CONFIG.MIN_TAPS
+): CalibrationResult | null {
+  // Nearest tap per beat, so double taps don't weigh twice
+  const errorByBeat = new Map<number, number>();
+  for (const tap of taps) {
+    const error = getTapError(tap, beats);
+    if (error === null) continue;
+
+    const beat = tap - error;
+    const previous = errorByBeat.get(beat);
+    if (previous === undefined || Math.abs(error) < Math.abs(previous)) {
+      errorByBeat.set(beat, error);
+    }
+  }
+
+  const errors = [...errorByBeat.values()];
+  if (errors.length < minTaps) return null;
+
+  const center = median(errors);
+  const kept = errors.filter((error) => Math.abs(error - center) <= CALIBRATION_CONFIG.OUTLIER_MS);
+  if (kept.length < minTaps) return null;
+
+  const mean = kept.reduce((sum, error) => sum + error, 0) / kept.length;
+  const variance = kept.reduce((sum, error) => sum + (error - mean) ** 2, 0) / kept.length;
+
+  return {
+    offsetMs: Math.round(mean),
+    spreadMs: Math.round(Math.sqrt(variance)),
+    tapCount: kept.length,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Daily challenge: everyone gets the same run for a given calendar day.
+ * The seed and run modifiers are derived purely from the date.
+ */
+
+import type { Axis, RunModifiers } from './types';
+import type { MotionProfile } from './motion';
+import { createRng, randomRange } from './random';
+
+/** Range of the daily base speed multiplier */
+const DAILY_SPEED_SCALE_MIN = 0.9;
+const DAILY_SPEED_SCALE_MAX = 1.25;
+/** Upper bound for the daily per-block speed ramp */
+const DAILY_SPEED_RAMP_MAX = 0.02;
+/** Motion profiles a daily run can roll */
+export const DAILY_MOTION_PROFILES: readonly MotionProfile[] = ['sine', 'linear', 'eased'];
+
+/** A run's daily seed and modifiers */
+export interface DailyChallenge {
+  /** Local calendar day, 'YYYY-MM-DD' */
+  key: string;
+  seed: number;
+  modifiers: RunModifiers;
+}
+
+/**
+ * Calendar day key in local time ('YYYY-MM-DD').
+ */
+export function getDailyKey(date: Date): string {
+  const year = String(date.getFullYear());
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Day key for the day before `key`.
+ */
+export function getPreviousDailyKey(key: string): string {
+  const [year = 0, month = 1, day = 1] = key.split('-').map(Number);
+  return getDailyKey(new Date(year, month - 1, day - 1));
+}
+
+/**
+ * FNV-1a hash of a string to an unsigned 32-bit seed.
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Build the challenge for a day. Same key, same run, on every device.
+ */
+export function createDailyChallenge(key: string): DailyChallenge {
+  const seed = hashString(`neon-stack-daily:${key}`);
+
+  // Separate stream from the in-game rng so modifiers don't shift gameplay variance
+  const rng = createRng(hashString(`neon-stack-daily-modifiers:${key}`));
+  const startAxis: Axis = rng.next() < 0.5 ? 'x' : 'z';
+  const speedScale = randomRange(rng, DAILY_SPEED_SCALE_MIN, DAILY_SPEED_SCALE_MAX);
+  const speedRamp = randomRange(rng, 0, DAILY_SPEED_RAMP_MAX);
+  const motion = DAILY_MOTION_PROFILES[Math.floor(rng.next() * DAILY_MOTION_PROFILES.length)] ?? 'sine';
+
+  return {
+    key,
+    seed,
+    modifiers: {
+      startAxis,
+      speedScale,
+      speedRamp,
+      // Everyone plays the same curve so scores are comparable
+      difficulty: 'normal',
+      motion,
+    },
+  };
+}
+
+/**
+ * Count consecutive played days ending today (or yesterday, so a streak
+ * isn't shown as broken before today's attempt).
+ * @param playedKeys - Day keys with a recorded attempt
+ * @param todayKey - Today's day key
+ */
+export function getDailyStreak(playedKeys: Iterable<string>, todayKey: string): number {
+  const played = new Set(playedKeys);
+
+  let cursor = played.has(todayKey) ? todayKey : getPreviousDailyKey(todayKey);
+  let streak = 0;
+  while (played.has(cursor)) {
+    streak++;
+    cursor = getPreviousDailyKey(cursor);
+  }
+  return streak;
+}
@@ -0,0 +1,170 @@
+/**
+ * Difficulty curves.
+ * A curve maps the current stack height and perfect streak to the
+ * oscillation speed, amplitude and perfect tolerance for the next block.
+ */
+
+import { GAME_CONSTANTS } from './types';
+import type { MotionProfile } from './motion';
+
+/** Selectable difficulty presets */
+export type DifficultyPreset = 'casual' | 'normal' | 'hard' | 'insane';
+
+/** Where the run is when the next block spawns */
+export interface DifficultyContext {
+  /** Blocks placed so far (the base doesn't count) */
+  height: number;
+  /** Current perfect streak */
+  perfectStreak: number;
+}
+
+/** Tuning for the next block */
+export interface DifficultyParams {
+  /** Oscillation speed (radians per second) */
+  speed: number;
+  /** Oscillation amplitude (units) */
+  amplitude: number;
+  /** Perfect hit tolerance (units) */
+  tolerance: number;
+  /** How the block is paced across each pass */
+  motion: MotionProfile;
+}
+
+/** Maps a run's progress to block tuning */
+export type DifficultyCurve = (context: DifficultyContext) => DifficultyParams;
+
+/** Linear ramp parameters behind a preset's curve */
+export interface DifficultyConfig {
+  label: string;
+  description: string;
+  /** Speed multiplier at height 0 */
+  speedScale: number;
+  /** Speed multiplier added per placed block */
+  speedPerBlock: number;
+  /** Upper bound on the speed multiplier */
+  maxSpeedScale: number;
+  /** Amplitude multiplier at height 0 */
+  amplitudeScale: number;
+  /** Amplitude multiplier added per placed block */
+  amplitudePerBlock: number;
+  /** Upper bound on the amplitude multiplier */
+  maxAmplitudeScale: number;
+  /** Perfect tolerance at streak 0 */
+  tolerance: number;
+  /** Fraction of tolerance removed per perfect in the streak */
+  toleranceDecayPerStreak: number;
+  /** Lower bound on the perfect tolerance */
+  minTolerance: number;
+  /** Motion profile for every block */
+  motion: MotionProfile;
+}
+
+export const DIFFICULTY_PRESETS: Record<DifficultyPreset, DifficultyConfig> = {
+  casual: {
+    label: 'Casual',
+    description: 'Slow, steady blocks and a forgiving perfect window',
+    speedScale: 0.8,
+    speedPerBlock: 0.005,
+    maxSpeedScale: 1.2,
+    amplitudeScale: 0.85,
+    amplitudePerBlock: 0,
+    maxAmplitudeScale: 0.85,
+    tolerance: 0.15,
+    toleranceDecayPerStreak: 0,
+    minTolerance: 0.15,
+    motion: 'linear',
+  },
+  normal: {
+    label: 'Normal',
+    description: 'Speeds up gently as the tower grows',
+    speedScale: 1,
+    speedPerBlock: 0.01,
+    maxSpeedScale: 1.6,
+    amplitudeScale: 1,
+    amplitudePerBlock: 0.005,
+    maxAmplitudeScale: 1.25,
+    tolerance: GAME_CONSTANTS.PERFECT_TOLERANCE,
+    toleranceDecayPerStreak: 0.03,
+    minTolerance: 0.07,
+    motion: 'sine',
+  },
+  hard: {
+    label: 'Hard',
+    description: 'Blocks speed up on every pass, perfects are tighter',
+    speedScale: 1.2,
+    speedPerBlock: 0.015,
+    maxSpeedScale: 2,
+    amplitudeScale: 1.1,
+    amplitudePerBlock: 0.01,
+    maxAmplitudeScale: 1.4,
+    tolerance: 0.08,
+    toleranceDecayPerStreak: 0.05,
+    minTolerance: 0.05,
+    motion: 'accelerating',
+  },
+  insane: {
+    label: 'Insane',
+    description: 'Blocks change speed mid-swing without warning',
+    speedScale: 1.5,
+    speedPerBlock: 0.02,
+    maxSpeedScale: 2.5,
+    amplitudeScale: 1.2,
+    amplitudePerBlock: 0.01,
+    maxAmplitudeScale: 1.5,
+    tolerance: 0.06,
+    toleranceDecayPerStreak: 0.05,
+    minTolerance: 0.04,
+    motion: 'erratic',
+  },
+};
+
+export const DEFAULT_DIFFICULTY: DifficultyPreset = 'normal';
+
+export function isDifficultyPreset(value: unknown): value is DifficultyPreset {
+  return typeof value === 'string' && Object.keys(DIFFICULTY_PRESETS).includes(value);
+}
+
+/**
+ * Preset from untrusted (persisted) data: unknown values (stale or
+ * hand-edited) fall back to the default.
+ */
+export function sanitizeDifficulty(value: unknown): DifficultyPreset {
+  return isDifficultyPreset(value) ? value : DEFAULT_DIFFICULTY;
+}
+
+/**
+ * Build a curve that ramps linearly with height and tightens with streak.
+ */
+export function createDifficultyCurve(config: DifficultyConfig): DifficultyCurve {
+  return ({ height, perfectStreak }) => {
+    const placed = Math.max(0, height);
+    const speedScale = Math.min(config.maxSpeedScale, config.speedScale + config.speedPerBlock * placed);
+    const amplitudeScale = Math.min(
+      config.maxAmplitudeScale,
+      config.amplitudeScale + config.amplitudePerBlock * placed
+    );
+    const tolerance = Math.max(
+      config.minTolerance,
+      config.tolerance * (1 - config.toleranceDecayPerStreak * perfectStreak)
+    );
+
+    return {
+      speed: GAME_CONSTANTS.OSCILLATION_SPEED * speedScale,
+      amplitude: GAME_CONSTANTS.OSCILLATION_AMPLITUDE * amplitudeScale,
+      tolerance,
+      motion: config.motion,
+    };
+  };
+}
+
+const PRESET_CURVES: Record<DifficultyPreset, DifficultyCurve> = {
+  casual: createDifficultyCurve(DIFFICULTY_PRESETS.casual),
+  normal: createDifficultyCurve(DIFFICULTY_PRESETS.normal),
+  hard: createDifficultyCurve(DIFFICULTY_PRESETS.hard),
+  insane: createDifficultyCurve(DIFFICULTY_PRESETS.insane),
+};
+
+/** Curve for a preset */
+export function getDifficultyCurve(preset: DifficultyPreset): DifficultyCurve {
+  return PRESET_CURVES[preset];
+}
@@ -0,0 +1,161 @@
+/**
+ * Typed game events.
+ * The game store emits these as a run plays out, so VFX, audio, HUD and
+ * analytics can react to exactly what happened instead of inferring it
+ * from state changes.
+ */
+
+import type { Axis, Block, FallingPiece, SliceResult } from './types';
+import type { CutLine } from './geometry';
+
+/** Fields every game event carries */
+export interface GameEventBase {
+  /** True when the event comes from a replay, not the player */
+  isReplay: boolean;
+}
+
+/** Any drop that landed on the stack */
+export interface PlacedEvent extends GameEventBase {
+  result: SliceResult;
+  /** Block now on top of the stack (after any regrowth) */
+  block: Block;
+  /** Block it landed on */
+  base: Block;
+  /** Axis the block was moving along */
+  axis: Axis;
+  points: number;
+  score: number;
+  /** Blocks placed this run (the base doesn't count) */
+  height: number;
+}
+
+/** A placement that cut off an overhang */
+export interface SlicedEvent extends GameEventBase {
+  result: SliceResult;
+  block: Block;
+  axis: Axis;
+  fallingPiece: FallingPiece;
+  cut: CutLine;
+}
+
+/** A placement within perfect tolerance */
+export interface PerfectEvent extends GameEventBase {
+  result: SliceResult;
+  block: Block;
+  axis: Axis;
+  /** Perfect streak including this hit */
+  streak: number;
+  /** Size regained along `axis` (0 if none) */
+  regrowth: number;
+}
+
+/** A perfect that extended the streak to combo length or beyond */
+export interface ComboReachedEvent extends GameEventBase {
+  streak: number;
+}
+
+/** A complete miss ended the run */
+export interface GameOverEvent extends GameEventBase {
+  result: SliceResult;
+  score: number;
+  height: number;
+  /** Top of the final stack (world units) */
+  stackHeight: number;
+}
+
+/** A run (live or replay) started from the idle or game over screen */
+export interface RestartEvent extends GameEventBase {
+  seed: number;
+}
+
+/** A rewind took back the last placement */
+export interface RewoundEvent extends GameEventBase {
+  /** Block popped off the stack */
+  removed: Block;
+  /** Overhang the rewound drop had sliced off (null for a perfect) */
+  fallen: Block | null;
+  /** Axis the respawned block moves along */
+  axis: Axis;
+  score: number;
+}
+
+/** A live run was paused */
+export interface PausedEvent extends GameEventBase {
+  /** What paused it: the player, or the page losing focus */
+  reason: PauseReason;
+}
+
+/** A paused run picked up again after its countdown */
+export type ResumedEvent = GameEventBase;
+
+export type PauseReason = 'player' | 'hidden' | 'blur';
+
+export interface GameEventMap {
+  placed: PlacedEvent;
+  sliced: SlicedEvent;
+  perfect: PerfectEvent;
+  comboReached: ComboReachedEvent;
+  gameOver: GameOverEvent;
+  restart: RestartEvent;
+  rewound: RewoundEvent;
+  paused: PausedEvent;
+  resumed: ResumedEvent;
+}
+
+export type GameEventType = keyof GameEventMap;
+
+export type EventListener<T> = (event: T) => void;
+
+/**
+ * Minimal typed publish/subscribe.
+ * Listeners run synchronously in subscription order; one that throws is
+ * logged and doesn't stop the others.
+ */
+export class EventBus<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<never>>>();
+
+  /**
+   * Subscribe to an event.
+   * @returns Unsubscribe function
+   */
+  on<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener);
+
+    return () => {
+      this.off(type, listener);
+    };
+  }
+
+  off<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(type: K, event: Events[K]): void {
+    const set = this.listeners.get(type);
+    if (!set) return;
+
+    // Copy so listeners can unsubscribe while being called
+    for (const listener of [...set] as EventListener<Events[K]>[]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`[EventBus] "${String(type)}" listener failed:`, error);
+      }
+    }
+  }
+
+  /** Number of listeners for an event */
+  listenerCount(type: keyof Events): number {
+    return this.listeners.get(type)?.size ?? 0;
+  }
+
+  /** Drop every listener */
+  clear(): void {
+    this.listeners.clear();
+  }
+}
@@ -3,18 +3,32 @@
  * No side effects, fully deterministic.
  */
 
-import type { Block, SliceResult, Axis, Vector3 } from './types';
+import type { Block, SliceResult, Axis, SpawnSide, Vector3 } from './types';
 import { GAME_CONSTANTS } from './types';
 
+/** Hands out block IDs */
+export type IdGenerator = () => string;
+
+/**
+ * Create an independent ID sequence (block-1, block-2, ...), so each
+ * simulation numbers its own blocks.
+ */
+export function createIdGenerator(): IdGenerator {
+  let counter = 0;
+  return () => `block-${String(++counter)}`;
+}
+
+/** Shared sequence for blocks created without a generator */
+let sharedIds = createIdGenerator();
+
 /** Generate a unique ID */
-let idCounter = 0;
 export function generateId(): string {
-  return `block-${++idCounter}`;
+  return sharedIds();
 }
 
-/** Reset ID counter (useful for tests) */
+/** Reset the shared ID sequence (useful for tests) */
 export function resetIdCounter(): void {
-  idCounter = 0;
+  sharedIds = createIdGenerator();
 }
 
 /** Create a new Vector3 */
@@ -90,7 +104,9 @@ export function isPerfectHit(
 export function sliceBlock(
   moving: Block,
   base: Block,
-  axis: Axis
+  axis: Axis,
+  tolerance: number = GAME_CONSTANTS.PERFECT_TOLERANCE,
+  nextId: IdGenerator = generateId
 ): SliceResult {
   const movingPos = moving.position[axis];
   const movingSize = moving.dimensions[axis === 'x' ? 'x' : 'z'];
@@ -98,7 +114,7 @@ export function sliceBlock(
   const baseSize = base.dimensions[axis === 'x' ? 'x' : 'z'];
 
   // Check for perfect hit first
-  if (isPerfectHit(movingPos, movingSize, basePos, baseSize)) {
+  if (isPerfectHit(movingPos, movingSize, basePos, baseSize, tolerance)) {
     // Perfect hit - keep the full block, centered on base
     const keptBlock = createBlock(
       {
@@ -106,7 +122,8 @@ export function sliceBlock(
         y: moving.position.y,
         z: axis === 'z' ? basePos : moving.position.z,
       },
-      { ...moving.dimensions }
+      { ...moving.dimensions },
+      nextId()
     );
     return {
       kept: keptBlock,
@@ -124,7 +141,8 @@ export function sliceBlock(
       kept: null,
       fallen: createBlock(
         { ...moving.position },
-        { ...moving.dimensions }
+        { ...moving.dimensions },
+        nextId()
       ),
       isPerfect: false,
     };
@@ -161,7 +179,8 @@ export function sliceBlock(
       x: axis === 'x' ? keptSize : moving.dimensions.x,
       y: moving.dimensions.y,
       z: axis === 'z' ? keptSize : moving.dimensions.z,
-    }
+    },
+    nextId()
   );
 
   const fallenBlock = createBlock(
@@ -174,7 +193,8 @@ export function sliceBlock(
       x: axis === 'x' ? fallenSize : moving.dimensions.x,
       y: moving.dimensions.y,
       z: axis === 'z' ? fallenSize : moving.dimensions.z,
-    }
+    },
+    nextId()
   );
 
   return {
@@ -184,6 +204,55 @@ export function sliceBlock(
   };
 }
 
+/** Where a slice cut a block, on the kept block's top face */
+export interface CutLine {
+  /** Center of the cut edge */
+  center: Vector3;
+  /** Length of the cut edge (the kept block's size across `axis`) */
+  length: number;
+  /** Axis the cut crosses (the axis the block was moving along) */
+  axis: Axis;
+}
+
+/**
+ * The edge a slice left between the kept block and the piece that fell.
+ */
+export function getCutLine(kept: Block, fallen: Block, axis: Axis): CutLine {
+  const side = Math.sign(fallen.position[axis] - kept.position[axis]);
+  const edge = kept.position[axis] + (side * kept.dimensions[axis]) / 2;
+  const topY = kept.position.y + kept.dimensions.y / 2;
+
+  return {
+    center: {
+      x: axis === 'x' ? edge : kept.position.x,
+      y: topY,
+      z: axis === 'z' ? edge : kept.position.z,
+    },
+    length: axis === 'x' ? kept.dimensions.z : kept.dimensions.x,
+    axis,
+  };
+}
+
+/**
+ * Grow a block along one axis, keeping it centered, without exceeding `maxSize`.
+ * Returns the same block when it is already at full size.
+ */
+export function regrowBlock(
+  block: Block,
+  axis: Axis,
+  amount: number = GAME_CONSTANTS.REGROW_AMOUNT,
+  maxSize: number = GAME_CONSTANTS.INITIAL_BLOCK_SIZE
+): Block {
+  const size = block.dimensions[axis];
+  const grownSize = Math.min(maxSize, size + amount);
+  if (grownSize <= size) return block;
+
+  return {
+    ...block,
+    dimensions: { ...block.dimensions, [axis]: grownSize },
+  };
+}
+
 /**
  * Create the initial base block (platform).
  */
@@ -196,17 +265,35 @@ export function createBaseBlock(): Block {
 }
 
 /**
- * Create a new moving block that spawns above the last placed block.
+ * Side the next moving block spawns on for a stack of `stackSize`.
+ * Axes alternate every block, so this flips every second block and each
+ * axis alternates between its two edges.
  */
-export function createMovingBlock(lastBlock: Block, axis: Axis): Block {
-  const spawnOffset = GAME_CONSTANTS.OSCILLATION_AMPLITUDE;
+export function getSpawnSide(stackSize: number): SpawnSide {
+  const axisTurn = Math.floor(Math.max(0, stackSize - 1) / 2);
+  return axisTurn % 2 === 0 ? -1 : 1;
+}
+
+/**
+ * Create a new moving block that spawns above the last placed block,
+ * at the edge of its oscillation on `side`.
+ */
+export function createMovingBlock(
+  lastBlock: Block,
+  axis: Axis,
+  side: SpawnSide = -1,
+  amplitude: number = GAME_CONSTANTS.OSCILLATION_AMPLITUDE,
+  nextId: IdGenerator = generateId
+): Block {
+  const spawnOffset = side * amplitude;
 
   return createBlock(
     {
-      x: axis === 'x' ? -spawnOffset : lastBlock.position.x,
+      x: axis === 'x' ? lastBlock.position.x + spawnOffset : lastBlock.position.x,
       y: lastBlock.position.y + GAME_CONSTANTS.BLOCK_HEIGHT,
-      z: axis === 'z' ? -spawnOffset : lastBlock.position.z,
+      z: axis === 'z' ? lastBlock.position.z + spawnOffset : lastBlock.position.z,
     },
-    { ...lastBlock.dimensions }
+    { ...lastBlock.dimensions },
+    nextId()
   );
 }
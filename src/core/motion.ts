@@ -0,0 +1,130 @@
+/**
+ * Motion profiles for the moving block.
+ * A profile maps time since the block spawned to its offset from the
+ * oscillation center, always within [-amplitude, amplitude]. Every profile
+ * starts at the -amplitude edge and moves inward; callers mirror it for
+ * blocks spawning on the other side.
+ *
+ * Every profile except `accelerating` is built from passes: a pass is one
+ * edge-to-edge sweep lasting π / speed seconds. Profiles only differ in
+ * how a pass is paced.
+ */
+
+import { createRng } from './random';
+
+/** Available motion profiles */
+export type MotionProfile = 'sine' | 'linear' | 'eased' | 'accelerating' | 'erratic';
+
+export const MOTION_PROFILES: readonly MotionProfile[] = [
+  'sine',
+  'linear',
+  'eased',
+  'accelerating',
+  'erratic',
+];
+
+/** Speed multiplier gained per pass by the accelerating profile */
+export const ACCELERATION_PER_PASS = 0.15;
+
+/** Cap on the accelerating profile's speed multiplier */
+export const MAX_ACCELERATION = 2;
+
+/** Maps progress through a pass [0, 1] to position along it [0, 1] */
+type PassEasing = (progress: number, pass: number, seed: number) => number;
+
+const sineEasing: PassEasing = (u) => (1 - Math.cos(Math.PI * u)) / 2;
+
+const linearEasing: PassEasing = (u) => u;
+
+const cubicEasing: PassEasing = (u) =>
+  u < 0.5 ? 4 * u * u * u : 1 - Math.pow(-2 * u + 2, 3) / 2;
+
+/**
+ * Constant speed with a seeded speed change in each half of the pass.
+ * Each half still takes the same time, so the block crosses the center
+ * and reaches the edges on the beat.
+ */
+const erraticEasing: PassEasing = (u, pass, seed) => {
+  const half = u < 0.5 ? 0 : 1;
+  const local = (u - half * 0.5) * 2;
+  const rng = createRng((seed ^ Math.imul(pass * 2 + half + 1, 0x9e3779b1)) >>> 0);
+  const breakTime = 0.25 + rng.next() * 0.5;
+  const breakPosition = 0.15 + rng.next() * 0.7;
+
+  const warped = local < breakTime
+    ? (breakPosition * local) / breakTime
+    : breakPosition + ((1 - breakPosition) * (local - breakTime)) / (1 - breakTime);
+  return (half + warped) / 2;
+};
+
+/**
+ * Offset for a paced ping-pong.
+ * Pass k runs from phase kπ to (k + 1)π: even passes sweep
+ * -amplitude → +amplitude, odd passes sweep back.
+ */
+function passOffset(
+  phase: number,
+  amplitude: number,
+  easing: PassEasing,
+  seed: number
+): number {
+  const pass = Math.floor(phase / Math.PI);
+  const progress = (phase - pass * Math.PI) / Math.PI;
+  const position = 2 * easing(progress, pass, seed) - 1;
+
+  return pass % 2 === 0 ? position * amplitude : -position * amplitude;
+}
+
+/**
+ * Pass phase for a block that speeds up each pass until MAX_ACCELERATION.
+ * Speed only changes at the edges, where the block is momentarily still.
+ */
+function acceleratingPhase(elapsedTime: number, speed: number): number {
+  let phase = 0;
+  let remaining = elapsedTime;
+  let pass = 0;
+
+  for (;;) {
+    const multiplier = Math.min(MAX_ACCELERATION, 1 + ACCELERATION_PER_PASS * pass);
+    const duration = Math.PI / (speed * multiplier);
+    if (remaining < duration || multiplier >= MAX_ACCELERATION) {
+      return phase + remaining * speed * multiplier;
+    }
+    phase += Math.PI;
+    remaining -= duration;
+    pass++;
+  }
+}
+
+/**
+ * Offset from the oscillation center for a profile.
+ * @param profile - Motion profile
+ * @param elapsedTime - Seconds since the block spawned at the -amplitude edge
+ * @param amplitude - Maximum displacement from center
+ * @param speed - Angular speed in radians per second
+ * @param seed - Seed for the erratic profile's speed changes
+ */
+export function getMotionOffset(
+  profile: MotionProfile,
+  elapsedTime: number,
+  amplitude: number,
+  speed: number,
+  seed: number = 0
+): number {
+  if (elapsedTime <= 0 || speed <= 0) return -amplitude;
+
+  const phase = elapsedTime * speed;
+
+  switch (profile) {
+    case 'sine':
+      return passOffset(phase, amplitude, sineEasing, seed);
+    case 'linear':
+      return passOffset(phase, amplitude, linearEasing, seed);
+    case 'eased':
+      return passOffset(phase, amplitude, cubicEasing, seed);
+    case 'erratic':
+      return passOffset(phase, amplitude, erraticEasing, seed);
+    case 'accelerating':
+      return passOffset(acceleratingPhase(elapsedTime, speed), amplitude, sineEasing, seed);
+  }
+}
@@ -1,11 +1,15 @@
 /**
  * Pure physics functions for block movement and falling pieces.
- * All functions are deterministic based on elapsed time.
+ * All functions are deterministic based on elapsed time and the supplied Rng.
  */
 
-import type { Vector3, FallingPiece, Block, Axis } from './types';
+import type { Vector3, FallingPiece, Block, Axis, SpawnSide } from './types';
 import { GAME_CONSTANTS } from './types';
 import { vec3 } from './geometry';
+import type { Rng } from './random';
+import { randomRange } from './random';
+import type { MotionProfile } from './motion';
+import { getMotionOffset } from './motion';
 
 /**
  * Calculate oscillating position along an axis using sine wave.
@@ -24,22 +28,44 @@ export function oscillatePosition(
   return centerOffset + Math.sin(elapsedTime * speed) * amplitude;
 }
 
+/** How a moving block oscillates; every field has a classic default */
+export interface OscillationOptions {
+  /** Angular speed in radians per second */
+  speed?: number;
+  /** Maximum displacement from center */
+  amplitude?: number;
+  /** How the block is paced along each pass */
+  profile?: MotionProfile;
+  /** Seed for profiles with random variation */
+  seed?: number;
+  /** Edge the block spawned at */
+  spawnSide?: SpawnSide;
+}
+
 /**
  * Update a block's position based on oscillation.
+ * At `elapsedTime` 0 the block sits at its spawn edge, where
+ * createMovingBlock put it, and moves inward from there.
  * Returns a new block with updated position (immutable).
+ * @param elapsedTime - Seconds since the block spawned
  */
 export function updateBlockOscillation(
   block: Block,
   axis: Axis,
   elapsedTime: number,
-  centerOffset: number = 0
+  centerOffset: number = 0,
+  options: OscillationOptions = {}
 ): Block {
-  const oscillatedPos = oscillatePosition(
-    elapsedTime,
-    GAME_CONSTANTS.OSCILLATION_AMPLITUDE,
-    GAME_CONSTANTS.OSCILLATION_SPEED,
-    centerOffset
-  );
+  const {
+    speed = GAME_CONSTANTS.OSCILLATION_SPEED,
+    amplitude = GAME_CONSTANTS.OSCILLATION_AMPLITUDE,
+    profile = 'sine',
+    seed = 0,
+    spawnSide = -1,
+  } = options;
+  // Profiles start at the negative edge; mirror for the positive side
+  const offset = getMotionOffset(profile, elapsedTime, amplitude, speed, seed);
+  const oscillatedPos = centerOffset - spawnSide * offset;
 
   return {
     ...block,
@@ -57,27 +83,28 @@ export function updateBlockOscillation(
 export function calculateFallingVelocity(
   fallenBlock: Block,
   baseBlock: Block,
-  axis: Axis
+  axis: Axis,
+  rng: Rng
 ): Vector3 {
   const direction = fallenBlock.position[axis] > baseBlock.position[axis] ? 1 : -1;
-  const horizontalSpeed = 2 + Math.random() * 2; // Some randomness for visual variety
+  const horizontalSpeed = randomRange(rng, 2, 4); // Some randomness for visual variety
 
   return vec3(
-    axis === 'x' ? direction * horizontalSpeed : (Math.random() - 0.5) * 0.5,
+    axis === 'x' ? direction * horizontalSpeed : randomRange(rng, -0.25, 0.25),
     0, // Initial vertical velocity is 0
-    axis === 'z' ? direction * horizontalSpeed : (Math.random() - 0.5) * 0.5
+    axis === 'z' ? direction * horizontalSpeed : randomRange(rng, -0.25, 0.25)
   );
 }
 
 /**
  * Calculate angular velocity for a falling piece (tumbling effect).
  */
-export function calculateAngularVelocity(axis: Axis): Vector3 {
-  const rotationSpeed = 2 + Math.random() * 3;
+export function calculateAngularVelocity(axis: Axis, rng: Rng): Vector3 {
+  const rotationSpeed = randomRange(rng, 2, 5);
   return vec3(
-    axis === 'z' ? rotationSpeed : (Math.random() - 0.5) * 2,
-    (Math.random() - 0.5) * 2,
-    axis === 'x' ? rotationSpeed : (Math.random() - 0.5) * 2
+    axis === 'z' ? rotationSpeed : randomRange(rng, -1, 1),
+    randomRange(rng, -1, 1),
+    axis === 'x' ? rotationSpeed : randomRange(rng, -1, 1)
   );
 }
 
@@ -122,13 +149,14 @@ export function createFallingPiece(
   fallenBlock: Block,
   baseBlock: Block,
   axis: Axis,
-  currentTime: number
+  currentTime: number,
+  rng: Rng
 ): FallingPiece {
   return {
     id: `falling-${fallenBlock.id}`,
     block: fallenBlock,
-    velocity: calculateFallingVelocity(fallenBlock, baseBlock, axis),
-    angularVelocity: calculateAngularVelocity(axis),
+    velocity: calculateFallingVelocity(fallenBlock, baseBlock, axis, rng),
+    angularVelocity: calculateAngularVelocity(axis, rng),
     createdAt: currentTime,
   };
 }
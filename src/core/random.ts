@@ -0,0 +1,50 @@
+/**
+ * Seedable pseudo-random number generator.
+ * Every random decision in the game draws from an Rng so a run can be
+ * reproduced exactly from its seed.
+ */
+
+/** A deterministic random source */
+export interface Rng {
+  /** Next float in [0, 1) */
+  next(): number;
+  /** Internal 32-bit state, enough to resume the sequence later */
+  readonly state: number;
+}
+
+/**
+ * Create a Mulberry32 generator.
+ * Small, fast and good enough for gameplay variance.
+ * @param seed - 32-bit seed (or a state previously read from `rng.state`)
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+
+  return {
+    next(): number {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    get state(): number {
+      return state;
+    },
+  };
+}
+
+/**
+ * Float in [min, max) drawn from the generator.
+ */
+export function randomRange(rng: Rng, min: number, max: number): number {
+  return min + rng.next() * (max - min);
+}
+
+/**
+ * Pick a fresh seed for a run that wasn't given one.
+ * This is the only place allowed to touch Math.random.
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
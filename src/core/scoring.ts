@@ -53,7 +53,7 @@ export function formatScore(score: number): string {
  * Get a message based on perfect streak.
  */
 export function getStreakMessage(streak: number): string | null {
-  if (streak < 2) return null;
+  if (streak < GAME_CONSTANTS.COMBO_STREAK) return null;
 
   const messages: Record<number, string> = {
     2: 'DOUBLE',
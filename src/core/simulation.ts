@@ -0,0 +1,517 @@
+/**
+ * Headless game simulation.
+ * Owns the game rules (start, drop, tick) with no React/Three dependencies,
+ * so runs can be simulated in tests, bots or Node. The zustand store is a
+ * thin adapter over this class.
+ */
+
+import type {
+  Axis,
+  Block,
+  FallingPiece,
+  GamePhase,
+  ReplayInput,
+  ReplayLog,
+  RunModifiers,
+  SliceResult,
+} from './types';
+import { CLASSIC_MODIFIERS, GAME_CONSTANTS } from './types';
+import {
+  createBaseBlock,
+  createMovingBlock,
+  getSpawnSide,
+  sliceBlock,
+  regrowBlock,
+  createIdGenerator,
+} from './geometry';
+import type { IdGenerator } from './geometry';
+import {
+  updateBlockOscillation,
+  createFallingPiece,
+  shouldRemoveFallingPiece,
+} from './physics';
+import { calculateHitScore, updatePerfectStreak } from './scoring';
+import type { DifficultyParams } from './difficulty';
+import { getDifficultyCurve } from './difficulty';
+import type { Rng } from './random';
+import { createRng, generateSeed } from './random';
+
+/** Fixed simulation step (ms) used by the game loop and replays */
+export const FIXED_TIMESTEP_MS = 16;
+
+/** Placements remembered for rewinding */
+export const MAX_REWIND_HISTORY = 8;
+
+/** Whether the run's one rewind is still to be earned, ready, or spent */
+export type RewindStatus = 'locked' | 'ready' | 'used';
+
+/** What a rewind took back */
+export interface RewindResult {
+  /** Block popped off the top of the stack */
+  removed: Block;
+  /** Overhang the rewound drop sliced off (null for a perfect) */
+  fallen: Block | null;
+}
+
+/** Snapshot of a simulated run. Replaced (never mutated) on every change. */
+export interface SimulationState {
+  phase: GamePhase;
+  blocks: Block[];
+  currentBlock: Block | null;
+  movingAxis: Axis;
+  /** Game time in milliseconds */
+  gameTime: number;
+  /** Game time the current block spawned (ms) */
+  spawnTime: number;
+  seed: number;
+  modifiers: RunModifiers;
+  score: number;
+  perfectStreak: number;
+  /** Perfect hits this run */
+  perfectCount: number;
+  /** Longest perfect streak this run */
+  maxStreak: number;
+  fallingPieces: FallingPiece[];
+  lastPerfectHit: boolean;
+  /** Size the last placed block regained from a perfect streak (0 if none) */
+  lastRegrowth: number;
+  rewind: RewindStatus;
+  /** Inputs recorded for this run (empty while replaying) */
+  inputLog: ReplayInput[];
+}
+
+/** State just before a placement, kept so the placement can be undone */
+interface HistoryEntry {
+  state: SimulationState;
+  rngState: number;
+  /** Piece the placement sliced off */
+  fallingPiece: FallingPiece | null;
+}
+
+/** What a single drop did */
+export interface DropOutcome {
+  result: SliceResult;
+  /** Block the drop landed on */
+  base: Block;
+  /** Axis the dropped block was moving along */
+  axis: Axis;
+  points: number;
+  fallingPiece: FallingPiece | null;
+  /** Size regained along `axis` by a perfect streak (0 if none) */
+  regrowth: number;
+  gameOver: boolean;
+}
+
+/** A recorded input a replay re-drove, with what it did */
+export type ReplayedInput =
+  | { action: 'drop'; outcome: DropOutcome }
+  | { action: 'rewind'; result: RewindResult };
+
+export function getNextAxis(current: Axis): Axis {
+  return current === 'x' ? 'z' : 'x';
+}
+
+function getTopBlock(blocks: Block[]): Block {
+  const top = blocks[blocks.length - 1];
+  if (!top) {
+    throw new Error('No blocks in stack');
+  }
+  return top;
+}
+
+/**
+ * Tuning for the block about to be placed on a stack of `stackSize`:
+ * the run's difficulty curve with the run modifiers applied on top.
+ */
+export function getDifficultyParams(
+  modifiers: RunModifiers,
+  stackSize: number,
+  perfectStreak: number
+): DifficultyParams {
+  const placed = Math.max(0, stackSize - 1);
+  const params = getDifficultyCurve(modifiers.difficulty)({ height: placed, perfectStreak });
+  return {
+    ...params,
+    speed: params.speed * modifiers.speedScale * (1 + modifiers.speedRamp * placed),
+    motion: modifiers.motion ?? params.motion,
+  };
+}
+
+/**
+ * Per-block seed for motion profiles with random variation,
+ * so each block of a run moves differently but replays identically.
+ */
+export function getMotionSeed(runSeed: number, stackSize: number): number {
+  return (runSeed ^ Math.imul(stackSize, 0x85ebca6b)) >>> 0;
+}
+
+function createIdleState(): SimulationState {
+  return {
+    phase: 'idle',
+    blocks: [],
+    currentBlock: null,
+    movingAxis: 'x',
+    gameTime: 0,
+    spawnTime: 0,
+    seed: 0,
+    modifiers: CLASSIC_MODIFIERS,
+    score: 0,
+    perfectStreak: 0,
+    perfectCount: 0,
+    maxStreak: 0,
+    fallingPieces: [],
+    lastPerfectHit: false,
+    lastRegrowth: 0,
+    rewind: 'locked',
+    inputLog: [],
+  };
+}
+
+export class GameSimulation {
+  private state: SimulationState = createIdleState();
+  private rng: Rng = createRng(0);
+  private replay: ReplayLog | null = null;
+  private replayCursor = 0;
+  private history: HistoryEntry[] = [];
+  /** Block IDs are numbered per simulation, so instances can run side by side */
+  private nextId: IdGenerator = createIdGenerator();
+
+  /**
+   * Start a new run. A seed is generated when none is given.
+   */
+  start(seed: number = generateSeed(), modifiers: RunModifiers = CLASSIC_MODIFIERS): void {
+    this.nextId = createIdGenerator();
+    this.rng = createRng(seed);
+    this.replay = null;
+    this.replayCursor = 0;
+    this.history = [];
+
+    const baseBlock = createBaseBlock();
+    const { amplitude } = getDifficultyParams(modifiers, 1, 0);
+    this.state = {
+      ...createIdleState(),
+      phase: 'playing',
+      blocks: [baseBlock],
+      currentBlock: createMovingBlock(
+        baseBlock,
+        modifiers.startAxis,
+        getSpawnSide(1),
+        amplitude,
+        this.nextId
+      ),
+      movingAxis: modifiers.startAxis,
+      seed,
+      modifiers,
+    };
+  }
+
+  /**
+   * Start re-driving a recorded run. Drops fire automatically from `tick`.
+   */
+  startReplay(log: ReplayLog): void {
+    this.start(log.seed, log.modifiers);
+    this.replay = log;
+    this.playDueInputs();
+  }
+
+  /**
+   * Drop the current block onto the stack.
+   * @param atTime Game time of the press (ms). The block is sliced where it
+   *   was at that instant rather than at the last tick, so a press lands the
+   *   same however the frames fell. Clamped to the current block's lifetime
+   *   and at most one step ahead; defaults to the current game time.
+   * @returns What happened, or null if there was nothing to drop
+   */
+  drop(atTime?: number): DropOutcome | null {
+    const state = this.state;
+    if (state.phase !== 'playing' || !state.currentBlock) return null;
+
+    const dropTime = Math.min(
+      Math.max(atTime ?? state.gameTime, state.spawnTime),
+      state.gameTime + FIXED_TIMESTEP_MS
+    );
+    const droppedBlock = dropTime === state.gameTime
+      ? state.currentBlock
+      : this.getBlockAt(state, state.currentBlock, dropTime);
+
+    const topBlock = getTopBlock(state.blocks);
+    const axis = state.movingAxis;
+    const rngBefore = this.rng.state;
+    const { tolerance } = getDifficultyParams(state.modifiers, state.blocks.length, state.perfectStreak);
+    const result = sliceBlock(droppedBlock, topBlock, axis, tolerance, this.nextId);
+    const fallingPiece = result.fallen
+      ? createFallingPiece(result.fallen, topBlock, axis, dropTime, this.rng)
+      : null;
+    const fallingPieces = fallingPiece
+      ? [...state.fallingPieces, fallingPiece]
+      : state.fallingPieces;
+
+    // Replays re-drive drop() from the log, so only live runs record
+    const inputLog = this.replay
+      ? state.inputLog
+      : [...state.inputLog, { gameTime: dropTime }];
+
+    if (!result.kept) {
+      // Complete miss - game over
+      this.state = {
+        ...state,
+        phase: 'gameover',
+        currentBlock: null,
+        fallingPieces,
+        inputLog,
+      };
+      return { result, base: topBlock, axis, points: 0, fallingPiece, regrowth: 0, gameOver: true };
+    }
+
+    // Successful placement
+    const points = calculateHitScore(state.perfectStreak, result.isPerfect);
+    const perfectStreak = updatePerfectStreak(state.perfectStreak, result.isPerfect);
+    const nextAxis = getNextAxis(axis);
+
+    // Comeback: a long enough perfect streak grows the block back
+    const placed = result.isPerfect && perfectStreak >= GAME_CONSTANTS.REGROW_STREAK
+      ? regrowBlock(result.kept, axis)
+      : result.kept;
+    const regrowth = placed.dimensions[axis] - result.kept.dimensions[axis];
+
+    // The next block spawns at the edge its oscillation starts from
+    const stackSize = state.blocks.length + 1;
+    const { amplitude } = getDifficultyParams(state.modifiers, stackSize, perfectStreak);
+    const currentBlock = createMovingBlock(
+      placed,
+      nextAxis,
+      getSpawnSide(stackSize),
+      amplitude,
+      this.nextId
+    );
+
+    this.history = [
+      ...this.history.slice(1 - MAX_REWIND_HISTORY),
+      { state, rngState: rngBefore, fallingPiece },
+    ];
+
+    this.state = {
+      ...state,
+      blocks: [...state.blocks, placed],
+      currentBlock,
+      movingAxis: nextAxis,
+      spawnTime: dropTime,
+      score: state.score + points,
+      perfectStreak,
+      perfectCount: state.perfectCount + (result.isPerfect ? 1 : 0),
+      maxStreak: Math.max(state.maxStreak, perfectStreak),
+      fallingPieces,
+      lastPerfectHit: result.isPerfect,
+      lastRegrowth: regrowth,
+      rewind: state.rewind === 'locked' && perfectStreak >= GAME_CONSTANTS.REWIND_STREAK
+        ? 'ready'
+        : state.rewind,
+      inputLog,
+    };
+    return { result, base: topBlock, axis, points, fallingPiece, regrowth, gameOver: false };
+  }
+
+  /**
+   * Spend the run's rewind: undo the last placement and respawn the block
+   * that was dropped. Score, streak and stats go back to what they were;
+   * game time keeps running.
+   * @returns What was taken back, or null if the rewind isn't available
+   */
+  rewind(): RewindResult | null {
+    const state = this.state;
+    const entry = this.history[this.history.length - 1];
+    if (state.phase !== 'playing' || state.rewind !== 'ready' || !entry) return null;
+
+    const previous = entry.state;
+    const result: RewindResult = {
+      removed: getTopBlock(state.blocks),
+      fallen: entry.fallingPiece?.block ?? null,
+    };
+
+    // The dropped block starts a fresh swing from its spawn edge
+    const topBlock = getTopBlock(previous.blocks);
+    const stackSize = previous.blocks.length;
+    const { amplitude } = getDifficultyParams(previous.modifiers, stackSize, previous.perfectStreak);
+    const currentBlock = createMovingBlock(
+      topBlock,
+      previous.movingAxis,
+      getSpawnSide(stackSize),
+      amplitude,
+      this.nextId
+    );
+
+    const inputLog = this.replay
+      ? state.inputLog
+      : [...state.inputLog, { gameTime: state.gameTime, action: 'rewind' as const }];
+
+    this.rng = createRng(entry.rngState);
+    this.history = this.history.slice(0, -1);
+    this.state = {
+      ...previous,
+      currentBlock,
+      gameTime: state.gameTime,
+      spawnTime: state.gameTime,
+      fallingPieces: state.fallingPieces.filter((piece) => piece !== entry.fallingPiece),
+      rewind: 'used',
+      inputLog,
+    };
+    return result;
+  }
+
+  /**
+   * Freeze a live run. Ticks, drops and rewinds are ignored until resumed.
+   * @returns True if the run was playing
+   */
+  pause(): boolean {
+    if (this.state.phase !== 'playing') return false;
+    this.state = { ...this.state, phase: 'paused' };
+    return true;
+  }
+
+  /**
+   * Continue a paused run from the same game time.
+   * @returns True if the run was paused
+   */
+  resume(): boolean {
+    if (this.state.phase !== 'paused') return false;
+    this.state = { ...this.state, phase: 'playing' };
+    return true;
+  }
+
+  /**
+   * Advance game time and move the current block.
+   * @returns Recorded inputs a replay fired during this step
+   */
+  tick(deltaMs: number): ReplayedInput[] {
+    const state = this.state;
+    if (state.phase !== 'playing' || !state.currentBlock) return [];
+
+    const gameTime = state.gameTime + deltaMs;
+
+    this.state = {
+      ...state,
+      gameTime,
+      currentBlock: this.getBlockAt(state, state.currentBlock, gameTime),
+    };
+
+    // Replay: fire every recorded input that this step reached
+    return this.playDueInputs();
+  }
+
+  /**
+   * Drop falling pieces that are too old or too far below.
+   * @returns True if any piece was removed
+   */
+  cleanupFallingPieces(): boolean {
+    const state = this.state;
+    const remaining = state.fallingPieces.filter(
+      (piece) => !shouldRemoveFallingPiece(piece, state.gameTime)
+    );
+
+    if (remaining.length === state.fallingPieces.length) return false;
+
+    this.state = { ...state, fallingPieces: remaining };
+    return true;
+  }
+
+  /**
+   * Go back to the idle state.
+   */
+  reset(): void {
+    this.state = createIdleState();
+    this.replay = null;
+    this.replayCursor = 0;
+    this.history = [];
+  }
+
+  /**
+   * Tick at the fixed step until game time reaches `gameTime` or the run ends.
+   */
+  advanceTo(gameTime: number): void {
+    while (this.state.phase === 'playing' && this.state.gameTime + FIXED_TIMESTEP_MS <= gameTime) {
+      this.tick(FIXED_TIMESTEP_MS);
+    }
+  }
+
+  /** Current snapshot */
+  getState(): SimulationState {
+    return this.state;
+  }
+
+  /** True while re-driving a recorded run */
+  get isReplay(): boolean {
+    return this.replay !== null;
+  }
+
+  /** The log being replayed, if any */
+  get activeReplay(): ReplayLog | null {
+    return this.replay;
+  }
+
+  /**
+   * Replay log of the current live run.
+   */
+  toReplayLog(): ReplayLog {
+    return {
+      seed: this.state.seed,
+      modifiers: this.state.modifiers,
+      inputs: this.state.inputLog,
+      score: this.state.score,
+      duration: this.state.gameTime,
+    };
+  }
+
+  /**
+   * Where the current block is at `gameTime`.
+   * Oscillates around the center of the top block.
+   */
+  private getBlockAt(state: SimulationState, block: Block, gameTime: number): Block {
+    const topBlock = getTopBlock(state.blocks);
+    const centerOffset = topBlock.position[state.movingAxis];
+    const { speed, amplitude, motion } = getDifficultyParams(
+      state.modifiers,
+      state.blocks.length,
+      state.perfectStreak
+    );
+
+    // A drop between ticks can spawn the next block just ahead of game time
+    const elapsed = Math.max(0, gameTime - state.spawnTime) / 1000;
+
+    return updateBlockOscillation(block, state.movingAxis, elapsed, centerOffset, {
+      speed,
+      amplitude,
+      profile: motion,
+      seed: getMotionSeed(state.seed, state.blocks.length),
+      spawnSide: getSpawnSide(state.blocks.length),
+    });
+  }
+
+  private playDueInputs(): ReplayedInput[] {
+    if (!this.replay) return [];
+
+    const played: ReplayedInput[] = [];
+    let next = this.replay.inputs[this.replayCursor];
+    while (next && this.state.phase === 'playing' && next.gameTime <= this.state.gameTime) {
+      this.replayCursor++;
+      if (next.action === 'rewind') {
+        const result = this.rewind();
+        if (result) played.push({ action: 'rewind', result });
+      } else {
+        const outcome = this.drop(next.gameTime);
+        if (outcome) played.push({ action: 'drop', outcome });
+      }
+      next = this.replay.inputs[this.replayCursor];
+    }
+    return played;
+  }
+}
+
+/**
+ * Play a recorded run to completion without rendering.
+ */
+export function simulateReplay(log: ReplayLog): SimulationState {
+  const simulation = new GameSimulation();
+  simulation.startReplay(log);
+  simulation.advanceTo(log.duration + FIXED_TIMESTEP_MS);
+  return simulation.getState();
+}
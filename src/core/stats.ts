@@ -0,0 +1,95 @@
+/**
+ * Pure aggregate statistics over finished runs.
+ */
+
+/** The parts of a finished run that statistics care about */
+export interface RunSummary {
+  score: number;
+  /** Blocks placed on top of the base */
+  height: number;
+  perfectCount: number;
+  maxStreak: number;
+  /** Run length in milliseconds of game time */
+  duration: number;
+}
+
+/** One bar of the final-height histogram, covering [min, max] inclusive */
+export interface HistogramBucket {
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface RunStats {
+  runCount: number;
+  averageScore: number;
+  /** Perfect hits / placed blocks, 0..1 */
+  perfectRate: number;
+  longestStreak: number;
+  heightHistogram: HistogramBucket[];
+}
+
+/** Default histogram bucket width (blocks) */
+export const HEIGHT_BUCKET_SIZE = 5;
+
+/**
+ * Bucket final heights into fixed-width bins from 0 up to the tallest run.
+ * Empty bins in between are kept so the histogram reads left to right.
+ */
+export function buildHeightHistogram(
+  heights: number[],
+  bucketSize: number = HEIGHT_BUCKET_SIZE
+): HistogramBucket[] {
+  if (heights.length === 0) return [];
+
+  const bucketCount = Math.floor(Math.max(...heights) / bucketSize) + 1;
+  const buckets: HistogramBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+    min: i * bucketSize,
+    max: (i + 1) * bucketSize - 1,
+    count: 0,
+  }));
+
+  for (const height of heights) {
+    const bucket = buckets[Math.floor(Math.max(0, height) / bucketSize)];
+    if (bucket) bucket.count++;
+  }
+  return buckets;
+}
+
+/**
+ * Aggregate statistics across a run history.
+ */
+export function computeRunStats(
+  runs: RunSummary[],
+  bucketSize: number = HEIGHT_BUCKET_SIZE
+): RunStats {
+  if (runs.length === 0) {
+    return {
+      runCount: 0,
+      averageScore: 0,
+      perfectRate: 0,
+      longestStreak: 0,
+      heightHistogram: [],
+    };
+  }
+
+  let totalScore = 0;
+  let totalPlaced = 0;
+  let totalPerfect = 0;
+  let longestStreak = 0;
+
+  for (const run of runs) {
+    totalScore += run.score;
+    totalPlaced += run.height;
+    totalPerfect += run.perfectCount;
+    longestStreak = Math.max(longestStreak, run.maxStreak);
+  }
+
+  return {
+    runCount: runs.length,
+    averageScore: totalScore / runs.length,
+    perfectRate: totalPlaced > 0 ? totalPerfect / totalPlaced : 0,
+    longestStreak,
+    heightHistogram: buildHeightHistogram(runs.map((run) => run.height), bucketSize),
+  };
+}
@@ -2,6 +2,9 @@
  * Core game types - pure data structures with no dependencies
  */
 
+import type { DifficultyPreset } from './difficulty';
+import type { MotionProfile } from './motion';
+
 /** 3D vector for positions and dimensions */
 export interface Vector3 {
   x: number;
@@ -32,8 +35,11 @@ export interface SliceResult {
 /** Axis along which blocks move */
 export type Axis = 'x' | 'z';
 
+/** Edge a moving block spawns at: -1 for the negative side, 1 for the positive */
+export type SpawnSide = -1 | 1;
+
 /** Game phase states */
-export type GamePhase = 'idle' | 'playing' | 'gameover';
+export type GamePhase = 'idle' | 'playing' | 'paused' | 'gameover';
 
 /** A piece that is falling off after a slice */
 export interface FallingPiece {
@@ -44,6 +50,49 @@ export interface FallingPiece {
   createdAt: number;
 }
 
+/** Per-run tuning on top of the seed (daily challenges vary these) */
+export interface RunModifiers {
+  /** Axis the first moving block travels along */
+  startAxis: Axis;
+  /** Multiplier on OSCILLATION_SPEED */
+  speedScale: number;
+  /** Extra speed per placed block, as a fraction of the base speed */
+  speedRamp: number;
+  /** Difficulty curve the run plays on */
+  difficulty: DifficultyPreset;
+  /** Overrides the difficulty's motion profile */
+  motion?: MotionProfile;
+}
+
+/** Modifiers for a normal run */
+export const CLASSIC_MODIFIERS: RunModifiers = {
+  startAxis: 'x',
+  speedScale: 1,
+  speedRamp: 0,
+  difficulty: 'normal',
+};
+
+/** A recorded player input, timestamped in game time (ms) */
+export interface ReplayInput {
+  gameTime: number;
+  /** What the player did (missing means a drop) */
+  action?: 'rewind';
+}
+
+/** Everything needed to re-drive a run frame-exactly */
+export interface ReplayLog {
+  /** Seed the run started from */
+  seed: number;
+  /** Run tuning (missing in logs recorded before modifiers existed) */
+  modifiers?: RunModifiers;
+  /** Drops and rewinds in the order they happened */
+  inputs: ReplayInput[];
+  /** Final score, for display */
+  score: number;
+  /** Game time at game over (ms) */
+  duration: number;
+}
+
 /** Game constants */
 export const GAME_CONSTANTS = {
   /** Height of each block */
@@ -64,4 +113,14 @@ export const GAME_CONSTANTS = {
   POINTS_PER_HIT: 10,
   /** Bonus multiplier per perfect streak */
   PERFECT_STREAK_MULTIPLIER: 2,
+  /** Perfect streak that counts as a combo */
+  COMBO_STREAK: 2,
+  /** Perfect streak at which placed blocks start regrowing */
+  REGROW_STREAK: 3,
+  /** Size regained per perfect once regrowing (units) */
+  REGROW_AMOUNT: 0.2,
+  /** Perfect streak that earns the run's rewind */
+  REWIND_STREAK: 5,
+  /** Seconds counted down before a paused run resumes */
+  RESUME_COUNTDOWN: 3,
 } as const;
@@ -2,12 +2,15 @@
  * Production-quality input handling for desktop + mobile.
  *
  * Uses Pointer Events as the primary mechanism with de-duplication guards
- * to ensure exactly one drop per user intent.
+ * to ensure exactly one drop per user intent. Gamepads are polled while
+ * connected and go through the same guards.
  *
  * Also handles audio context unlock on first user gesture.
  */
 
 import { getAudioManager, getMusicManager } from '@/audio';
+import type { KeyBindings } from './KeyBindings';
+import { DEFAULT_KEY_BINDINGS, getActionForKey, isBindableKey } from './KeyBindings';
 
 export interface InputConfig {
   /** Minimum time between drops in ms */
@@ -21,14 +24,39 @@ const DEFAULT_CONFIG: InputConfig = {
   ignoreSelector: '[data-no-game-input]',
 };
 
-type DropCallback = () => void;
+/** Button indices in the standard gamepad mapping */
+const GAMEPAD_BUTTONS = {
+  /** A / B / X / Y (Cross / Circle / Square / Triangle) */
+  FACE: [0, 1, 2, 3] as readonly number[],
+  LEFT_SHOULDER: 4,
+  RIGHT_SHOULDER: 5,
+  START: 9,
+};
+
+/** Receives when the press happened (performance.now() time) */
+type DropCallback = (pressedAt: number) => void;
 type VariantCallback = (variant: 'A' | 'B' | 'C') => void;
 type EscapeCallback = () => void;
+type RewindCallback = () => void;
+type MuteCallback = () => void;
+type VariantCycleCallback = (step: 1 | -1) => void;
+/** Receives the captured key code, or null if capture was cancelled */
+type CaptureCallback = (code: string | null) => void;
+type GamepadListener = (connected: boolean) => void;
 
 class InputManager {
   private callback: DropCallback | null = null;
   private variantCallback: VariantCallback | null = null;
   private escapeCallback: EscapeCallback | null = null;
+  private rewindCallback: RewindCallback | null = null;
+  private muteCallback: MuteCallback | null = null;
+  private variantCycleCallback: VariantCycleCallback | null = null;
+  private captureCallback: CaptureCallback | null = null;
+  private gamepadListeners = new Set<GamepadListener>();
+  /** Last pressed state of each button, per connected pad index */
+  private gamepadButtons = new Map<number, boolean[]>();
+  private gamepadFrame: number | null = null;
+  private keyBindings: KeyBindings = DEFAULT_KEY_BINDINGS;
   private config: InputConfig;
   private lastDropTime = 0;
   private activePointerIds = new Set<number>();
@@ -38,12 +66,18 @@ class InputManager {
   private boundHandlePointerDown: (e: PointerEvent) => void;
   private boundHandleKeyDown: (e: KeyboardEvent) => void;
   private boundPreventGhostClick: (e: MouseEvent) => void;
+  private boundHandleGamepadConnected: (e: GamepadEvent) => void;
+  private boundHandleGamepadDisconnected: (e: GamepadEvent) => void;
+  private boundPollGamepads: () => void;
 
   constructor(config: Partial<InputConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.boundHandlePointerDown = this.handlePointerDown.bind(this);
     this.boundHandleKeyDown = this.handleKeyDown.bind(this);
     this.boundPreventGhostClick = this.preventGhostClick.bind(this);
+    this.boundHandleGamepadConnected = this.handleGamepadConnected.bind(this);
+    this.boundHandleGamepadDisconnected = this.handleGamepadDisconnected.bind(this);
+    this.boundPollGamepads = this.pollGamepads.bind(this);
   }
 
   /**
@@ -92,6 +126,11 @@ class InputManager {
       capture: true,
     });
 
+    // Gamepads
+    window.addEventListener('gamepadconnected', this.boundHandleGamepadConnected);
+    window.addEventListener('gamepaddisconnected', this.boundHandleGamepadDisconnected);
+    this.detectGamepads();
+
     this.isInitialized = true;
   }
 
@@ -108,12 +147,51 @@ class InputManager {
     document.removeEventListener('click', this.boundPreventGhostClick, {
       capture: true,
     });
+    window.removeEventListener('gamepadconnected', this.boundHandleGamepadConnected);
+    window.removeEventListener('gamepaddisconnected', this.boundHandleGamepadDisconnected);
+    this.stopGamepadPolling();
+    this.gamepadButtons.clear();
 
     this.isInitialized = false;
     this.callback = null;
+    this.rewindCallback = null;
+    this.captureCallback = null;
     this.activePointerIds.clear();
   }
 
+  /**
+   * Replace the action → key map (from settings).
+   */
+  setKeyBindings(bindings: KeyBindings): void {
+    this.keyBindings = bindings;
+  }
+
+  /**
+   * Swallow the next key press and hand its code to `callback` instead of
+   * the game (used by the remap panel). Escape cancels with null.
+   * Starting a new capture cancels any pending one.
+   */
+  captureNextKey(callback: CaptureCallback): void {
+    this.cancelCapture();
+    this.captureCallback = callback;
+  }
+
+  /**
+   * Stop a pending key capture, notifying its callback with null.
+   */
+  cancelCapture(): void {
+    const callback = this.captureCallback;
+    this.captureCallback = null;
+    callback?.(null);
+  }
+
+  /**
+   * Check if a key capture is pending.
+   */
+  isCapturing(): boolean {
+    return this.captureCallback !== null;
+  }
+
   /**
    * Register the drop callback.
    */
@@ -122,19 +200,58 @@ class InputManager {
   }
 
   /**
-   * Register callback for visual variant switching (1/2/3 keys).
+   * Register callback for visual variant switching (1/2/3 keys by default).
    */
   onVariantSwitch(callback: VariantCallback): void {
     this.variantCallback = callback;
   }
 
   /**
-   * Register callback for Escape key (close settings).
+   * Register callback for stepping through visual variants (gamepad shoulders).
+   */
+  onVariantCycle(callback: VariantCycleCallback): void {
+    this.variantCycleCallback = callback;
+  }
+
+  /**
+   * Register callback for the rewind keys (Z / Backspace by default).
+   */
+  onRewindRequested(callback: RewindCallback): void {
+    this.rewindCallback = callback;
+  }
+
+  /**
+   * Register callback for the mute key (M by default).
+   */
+  onMuteToggle(callback: MuteCallback): void {
+    this.muteCallback = callback;
+  }
+
+  /**
+   * Register callback for Escape key / gamepad Start (pause, settings).
    */
   onEscape(callback: EscapeCallback): void {
     this.escapeCallback = callback;
   }
 
+  /**
+   * Check if any gamepad is connected.
+   */
+  hasGamepad(): boolean {
+    return this.gamepadButtons.size > 0;
+  }
+
+  /**
+   * Listen for the first pad connecting or the last one disconnecting.
+   * @returns Unsubscribe function
+   */
+  onGamepadChange(listener: GamepadListener): () => void {
+    this.gamepadListeners.add(listener);
+    return () => {
+      this.gamepadListeners.delete(listener);
+    };
+  }
+
   /**
    * Check if an element should be ignored (UI elements).
    */
@@ -155,13 +272,17 @@ class InputManager {
 
   /**
    * Trigger a drop if conditions are met.
+   * @param timeStamp When the press happened (event.timeStamp), so the drop
+   *   lands where the block was then rather than when the event got handled
    */
-  private triggerDrop(): boolean {
+  private triggerDrop(timeStamp: number): boolean {
     if (!this.callback) return false;
     if (this.isDebounced()) return false;
 
-    this.lastDropTime = performance.now();
-    this.callback();
+    const now = performance.now();
+    this.lastDropTime = now;
+    // Some older browsers stamp events in epoch time; fall back to now
+    this.callback(timeStamp > 0 && timeStamp <= now ? timeStamp : now);
     return true;
   }
 
@@ -193,7 +314,7 @@ class InputManager {
     if (e.button !== 0 && e.button !== -1) return;
 
     // Trigger drop
-    if (this.triggerDrop()) {
+    if (this.triggerDrop(e.timeStamp)) {
       // Prevent any follow-up events
       e.preventDefault();
     }
@@ -206,6 +327,19 @@ class InputManager {
     // Unlock audio on first user gesture (any key press)
     this.unlockAudio();
 
+    // Key capture for remapping takes the press before anything else
+    if (this.captureCallback) {
+      e.preventDefault();
+      if (e.code === 'Escape') {
+        this.cancelCapture();
+      } else if (isBindableKey(e.code)) {
+        const callback = this.captureCallback;
+        this.captureCallback = null;
+        callback(e.code);
+      }
+      return;
+    }
+
     // Ignore if typing in an input field
     if (
       e.target instanceof HTMLInputElement ||
@@ -222,25 +356,154 @@ class InputManager {
       return;
     }
 
+    const action = getActionForKey(this.keyBindings, e.code);
+
+    // Mute works everywhere, settings included
+    if (action === 'mute') {
+      e.preventDefault();
+      // A held key would flicker mute at the OS repeat rate
+      if (!e.repeat) this.muteCallback?.();
+      return;
+    }
+
     // If input is disabled (settings open), block game controls
     if (this.inputDisabled) return;
 
     // Game controls
-    if (e.code === 'Space' || e.code === 'Enter') {
-      e.preventDefault();
-      this.triggerDrop();
-      return;
+    switch (action) {
+      case 'drop':
+        e.preventDefault();
+        this.triggerDrop(e.timeStamp);
+        break;
+
+      case 'rewind':
+        if (this.rewindCallback) {
+          e.preventDefault();
+          // One rewind per press, not one per auto-repeat
+          if (!e.repeat) this.rewindCallback();
+        }
+        break;
+
+      // Visual variant switching
+      case 'variantA':
+        this.variantCallback?.('A');
+        break;
+      case 'variantB':
+        this.variantCallback?.('B');
+        break;
+      case 'variantC':
+        this.variantCallback?.('C');
+        break;
+
+      case null:
+        break;
     }
+  }
+
+  /**
+   * Pick up pads that connected before init (page reloads keep them).
+   */
+  private detectGamepads(): void {
+    if (!('getGamepads' in navigator)) return;
+
+    for (const pad of navigator.getGamepads()) {
+      if (pad) this.addGamepad(pad);
+    }
+  }
+
+  private handleGamepadConnected(e: GamepadEvent): void {
+    this.addGamepad(e.gamepad);
+  }
+
+  private handleGamepadDisconnected(e: GamepadEvent): void {
+    if (!this.gamepadButtons.delete(e.gamepad.index)) return;
 
-    // Visual variant switching (1/2/3 keys)
-    if (this.variantCallback) {
-      if (e.code === 'Digit1' || e.code === 'Numpad1') {
-        this.variantCallback('A');
-      } else if (e.code === 'Digit2' || e.code === 'Numpad2') {
-        this.variantCallback('B');
-      } else if (e.code === 'Digit3' || e.code === 'Numpad3') {
-        this.variantCallback('C');
+    if (this.gamepadButtons.size === 0) {
+      this.stopGamepadPolling();
+      this.notifyGamepadChange(false);
+    }
+  }
+
+  private addGamepad(pad: Gamepad): void {
+    if (this.gamepadButtons.has(pad.index)) return;
+
+    const wasEmpty = this.gamepadButtons.size === 0;
+    // Seed with the current state so the press that woke the pad doesn't count
+    this.gamepadButtons.set(pad.index, pad.buttons.map((button) => button.pressed));
+
+    if (wasEmpty) {
+      this.startGamepadPolling();
+      this.notifyGamepadChange(true);
+    }
+  }
+
+  private notifyGamepadChange(connected: boolean): void {
+    for (const listener of this.gamepadListeners) {
+      listener(connected);
+    }
+  }
+
+  private startGamepadPolling(): void {
+    if (this.gamepadFrame !== null) return;
+    this.gamepadFrame = requestAnimationFrame(this.boundPollGamepads);
+  }
+
+  private stopGamepadPolling(): void {
+    if (this.gamepadFrame === null) return;
+    cancelAnimationFrame(this.gamepadFrame);
+    this.gamepadFrame = null;
+  }
+
+  /**
+   * Read every connected pad once per frame and act on newly pressed buttons.
+   * The Gamepad API has no button events, so edges come from diffing
+   * against the previous frame.
+   */
+  private pollGamepads(): void {
+    for (const pad of navigator.getGamepads()) {
+      if (!pad) continue;
+
+      const previous = this.gamepadButtons.get(pad.index);
+      if (!previous) continue;
+
+      const current = pad.buttons.map((button) => button.pressed);
+      this.gamepadButtons.set(pad.index, current);
+
+      current.forEach((pressed, button) => {
+        if (pressed && previous[button] !== true) {
+          this.handleGamepadButton(button, pad.timestamp);
+        }
+      });
+    }
+
+    this.gamepadFrame = requestAnimationFrame(this.boundPollGamepads);
+  }
+
+  /**
+   * Handle a gamepad button press (standard mapping).
+   * @param timeStamp When the pad state last changed
+   */
+  private handleGamepadButton(button: number, timeStamp: number): void {
+    // Unlock audio on first press, so pad-only players get sound too
+    this.unlockAudio();
+
+    // Start - always processed, like Escape
+    if (button === GAMEPAD_BUTTONS.START) {
+      if (this.escapeCallback) {
+        this.escapeCallback();
       }
+      return;
+    }
+
+    // If input is disabled (settings open), block game controls
+    if (this.inputDisabled) return;
+
+    if (GAMEPAD_BUTTONS.FACE.includes(button)) {
+      this.triggerDrop(timeStamp);
+    } else if (button === GAMEPAD_BUTTONS.LEFT_SHOULDER) {
+      this.variantCycleCallback?.(-1);
+    } else if (button === GAMEPAD_BUTTONS.RIGHT_SHOULDER) {
+      this.variantCycleCallback?.(1);
     }
   }
 
@@ -0,0 +1,160 @@
+/**
+ * Keyboard bindings.
+ * Maps each input action to the KeyboardEvent.code values that trigger it.
+ * Codes are layout-independent (KeyZ is the same physical key on QWERTY
+ * and AZERTY), which is what players remap by.
+ */
+
+/** Remappable keyboard actions (Escape always closes menus) */
+export type InputAction = 'drop' | 'rewind' | 'mute' | 'variantA' | 'variantB' | 'variantC';
+
+/** Keys bound to each action, in the order the player added them */
+export type KeyBindings = Record<InputAction, string[]>;
+
+export const INPUT_ACTIONS: readonly { action: InputAction; label: string }[] = [
+  { action: 'drop', label: 'Start / Drop' },
+  { action: 'rewind', label: 'Rewind' },
+  { action: 'mute', label: 'Mute' },
+  { action: 'variantA', label: 'Style A' },
+  { action: 'variantB', label: 'Style B' },
+  { action: 'variantC', label: 'Style C' },
+];
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  drop: ['Space', 'Enter'],
+  rewind: ['KeyZ', 'Backspace'],
+  mute: ['KeyM'],
+  variantA: ['Digit1', 'Numpad1'],
+  variantB: ['Digit2', 'Numpad2'],
+  variantC: ['Digit3', 'Numpad3'],
+};
+
+/** Most keys one action can hold */
+export const MAX_BINDINGS_PER_ACTION = 3;
+
+/** Actions that must keep a key, so the keyboard can't lock itself out */
+export const REQUIRED_ACTIONS: readonly InputAction[] = ['drop'];
+
+/** Keys that can't be bound (Escape closes menus and cancels key capture) */
+export const RESERVED_KEYS: readonly string[] = ['Escape'];
+
+/**
+ * Action a key triggers, or null if it is unbound.
+ */
+export function getActionForKey(bindings: KeyBindings, code: string): InputAction | null {
+  for (const { action } of INPUT_ACTIONS) {
+    if (bindings[action].includes(code)) return action;
+  }
+  return null;
+}
+
+/**
+ * Other action already using `code`, if any.
+ */
+export function findConflict(
+  bindings: KeyBindings,
+  action: InputAction,
+  code: string
+): InputAction | null {
+  const owner = getActionForKey(bindings, code);
+  return owner && owner !== action ? owner : null;
+}
+
+/**
+ * Bind `code` to `action`, taking it away from any other action.
+ * Unchanged when the action is full, already has the key, or taking
+ * the key would leave a required action without one.
+ */
+export function bindKey(bindings: KeyBindings, action: InputAction, code: string): KeyBindings {
+  const current = bindings[action];
+  if (current.includes(code) || current.length >= MAX_BINDINGS_PER_ACTION) return bindings;
+
+  const owner = findConflict(bindings, action, code);
+  if (owner) {
+    const remaining = bindings[owner].filter((key) => key !== code);
+    if (remaining.length === 0 && REQUIRED_ACTIONS.includes(owner)) return bindings;
+    return { ...bindings, [owner]: remaining, [action]: [...current, code] };
+  }
+
+  return { ...bindings, [action]: [...current, code] };
+}
+
+/**
+ * Remove a key from an action. Required actions keep their last key.
+ */
+export function unbindKey(bindings: KeyBindings, action: InputAction, code: string): KeyBindings {
+  const remaining = bindings[action].filter((key) => key !== code);
+  if (remaining.length === bindings[action].length) return bindings;
+  if (remaining.length === 0 && REQUIRED_ACTIONS.includes(action)) return bindings;
+
+  return { ...bindings, [action]: remaining };
+}
+
+/**
+ * True if `code` can be bound at all.
+ */
+export function isBindableKey(code: string): boolean {
+  return code !== '' && !RESERVED_KEYS.includes(code);
+}
+
+/**
+ * Rebuild bindings from untrusted (persisted) data: unknown actions and
+ * invalid keys are dropped, missing actions get their defaults, and a
+ * key claimed by two actions stays with the first.
+ */
+export function sanitizeKeyBindings(value: unknown): KeyBindings {
+  const source = typeof value === 'object' && value !== null
+    ? (value as Partial<Record<InputAction, unknown>>)
+    : {};
+  const taken = new Set<string>();
+  const result = { ...DEFAULT_KEY_BINDINGS };
+
+  for (const { action } of INPUT_ACTIONS) {
+    const stored = source[action];
+    const candidates: unknown[] = Array.isArray(stored) ? stored : DEFAULT_KEY_BINDINGS[action];
+
+    let keys = candidates.filter(
+      (key): key is string => typeof key === 'string' && isBindableKey(key) && !taken.has(key)
+    );
+    if (keys.length === 0 && REQUIRED_ACTIONS.includes(action)) {
+      keys = DEFAULT_KEY_BINDINGS[action].filter((key) => !taken.has(key));
+    }
+
+    keys = [...new Set(keys)].slice(0, MAX_BINDINGS_PER_ACTION);
+    keys.forEach((key) => taken.add(key));
+    result[action] = keys;
+  }
+
+  return result;
+}
+
+const KEY_LABELS: Record<string, string> = {
+  Space: 'Space',
+  Enter: 'Enter',
+  NumpadEnter: 'Num Enter',
+  Backspace: 'Backspace',
+  Escape: 'Esc',
+  Tab: 'Tab',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ShiftLeft: 'L Shift',
+  ShiftRight: 'R Shift',
+  ControlLeft: 'L Ctrl',
+  ControlRight: 'R Ctrl',
+  AltLeft: 'L Alt',
+  AltRight: 'R Alt',
+};
+
+/**
+ * Short display label for a key code ("KeyZ" → "Z", "Numpad1" → "Num 1").
+ */
+export function formatKey(code: string): string {
+  const label = KEY_LABELS[code];
+  if (label) return label;
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+  return code;
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_KEY_BINDINGS,
+  MAX_BINDINGS_PER_ACTION,
+  bindKey,
+  findConflict,
+  formatKey,
+  getActionForKey,
+  isBindableKey,
+  sanitizeKeyBindings,
+  unbindKey,
+} from '../KeyBindings';
+
+describe('getActionForKey', () => {
+  it('maps every default key to its action', () => {
+    expect(getActionForKey(DEFAULT_KEY_BINDINGS, 'Space')).toBe('drop');
+    expect(getActionForKey(DEFAULT_KEY_BINDINGS, 'Enter')).toBe('drop');
+    expect(getActionForKey(DEFAULT_KEY_BINDINGS, 'KeyZ')).toBe('rewind');
+    expect(getActionForKey(DEFAULT_KEY_BINDINGS, 'Numpad2')).toBe('variantB');
+  });
+
+  it('returns null for unbound keys', () => {
+    expect(getActionForKey(DEFAULT_KEY_BINDINGS, 'KeyQ')).toBeNull();
+  });
+});
+
+describe('findConflict', () => {
+  it('reports the other action holding a key', () => {
+    expect(findConflict(DEFAULT_KEY_BINDINGS, 'rewind', 'Space')).toBe('drop');
+  });
+
+  it('ignores the action itself and free keys', () => {
+    expect(findConflict(DEFAULT_KEY_BINDINGS, 'drop', 'Space')).toBeNull();
+    expect(findConflict(DEFAULT_KEY_BINDINGS, 'drop', 'KeyQ')).toBeNull();
+  });
+});
+
+describe('bindKey', () => {
+  it('adds a free key alongside existing ones', () => {
+    const bindings = bindKey(DEFAULT_KEY_BINDINGS, 'drop', 'ArrowDown');
+    expect(bindings.drop).toEqual(['Space', 'Enter', 'ArrowDown']);
+    expect(DEFAULT_KEY_BINDINGS.drop).toEqual(['Space', 'Enter']);
+  });
+
+  it('moves a conflicting key from its previous action', () => {
+    const bindings = bindKey(DEFAULT_KEY_BINDINGS, 'drop', 'KeyZ');
+    expect(bindings.drop).toContain('KeyZ');
+    expect(bindings.rewind).toEqual(['Backspace']);
+    expect(getActionForKey(bindings, 'KeyZ')).toBe('drop');
+  });
+
+  it('refuses to take the last key of a required action', () => {
+    let bindings = unbindKey(DEFAULT_KEY_BINDINGS, 'drop', 'Enter');
+    bindings = bindKey(bindings, 'rewind', 'Space');
+    expect(bindings.drop).toEqual(['Space']);
+    expect(bindings.rewind).not.toContain('Space');
+  });
+
+  it('caps bindings per action', () => {
+    let bindings = DEFAULT_KEY_BINDINGS;
+    for (const code of ['KeyA', 'KeyB', 'KeyC', 'KeyD']) {
+      bindings = bindKey(bindings, 'rewind', code);
+    }
+    expect(bindings.rewind).toHaveLength(MAX_BINDINGS_PER_ACTION);
+  });
+});
+
+describe('unbindKey', () => {
+  it('removes a key', () => {
+    const bindings = unbindKey(DEFAULT_KEY_BINDINGS, 'rewind', 'KeyZ');
+    expect(bindings.rewind).toEqual(['Backspace']);
+  });
+
+  it('lets optional actions end up unbound', () => {
+    let bindings = unbindKey(DEFAULT_KEY_BINDINGS, 'rewind', 'KeyZ');
+    bindings = unbindKey(bindings, 'rewind', 'Backspace');
+    expect(bindings.rewind).toEqual([]);
+  });
+
+  it('keeps the last key of a required action', () => {
+    let bindings = unbindKey(DEFAULT_KEY_BINDINGS, 'drop', 'Space');
+    bindings = unbindKey(bindings, 'drop', 'Enter');
+    expect(bindings.drop).toEqual(['Enter']);
+  });
+});
+
+describe('sanitizeKeyBindings', () => {
+  it('falls back to defaults for garbage', () => {
+    expect(sanitizeKeyBindings(null)).toEqual(DEFAULT_KEY_BINDINGS);
+    expect(sanitizeKeyBindings('Space')).toEqual(DEFAULT_KEY_BINDINGS);
+  });
+
+  it('keeps valid stored bindings and fills missing actions', () => {
+    const bindings = sanitizeKeyBindings({ drop: ['KeyF'], rewind: [] });
+    expect(bindings.drop).toEqual(['KeyF']);
+    expect(bindings.rewind).toEqual([]);
+    expect(bindings.variantA).toEqual(DEFAULT_KEY_BINDINGS.variantA);
+  });
+
+  it('drops invalid, reserved and duplicate keys', () => {
+    const bindings = sanitizeKeyBindings({
+      drop: ['Space', 42, 'Escape', 'Space'],
+      rewind: ['Space', 'KeyR'],
+    });
+    expect(bindings.drop).toEqual(['Space']);
+    expect(bindings.rewind).toEqual(['KeyR']);
+  });
+
+  it('restores a required action that lost all its keys', () => {
+    const bindings = sanitizeKeyBindings({ drop: [] });
+    expect(bindings.drop).toEqual(DEFAULT_KEY_BINDINGS.drop);
+  });
+});
+
+describe('isBindableKey', () => {
+  it('rejects Escape and empty codes', () => {
+    expect(isBindableKey('Escape')).toBe(false);
+    expect(isBindableKey('')).toBe(false);
+    expect(isBindableKey('KeyA')).toBe(true);
+  });
+});
+
+describe('formatKey', () => {
+  it('shortens common codes', () => {
+    expect(formatKey('KeyZ')).toBe('Z');
+    expect(formatKey('Digit1')).toBe('1');
+    expect(formatKey('Numpad3')).toBe('Num 3');
+    expect(formatKey('ArrowLeft')).toBe('←');
+    expect(formatKey('Space')).toBe('Space');
+    expect(formatKey('F5')).toBe('F5');
+  });
+});
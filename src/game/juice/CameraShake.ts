@@ -0,0 +1,70 @@
+/**
+ * Camera Shake
+ * Damped impulse shake layered on top of the camera rig's position.
+ * Impulses stack up to SHAKE_MAX and decay as sin(ωt) * e^(-dt).
+ */
+
+import { JUICE_CONFIG } from './JuiceConfig';
+
+/** World-space offset to add to the camera */
+export interface ShakeOffset {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export class CameraShake {
+  private amplitude = 0;
+  private elapsed = 0;
+  readonly offset: ShakeOffset = { x: 0, y: 0, z: 0 };
+
+  /**
+   * Kick the camera.
+   * @param strength - Impulse size in world units
+   */
+  impulse(strength: number): void {
+    const remaining = this.envelope();
+    this.amplitude = Math.min(JUICE_CONFIG.SHAKE_MAX, remaining + strength);
+    this.elapsed = 0;
+  }
+
+  /**
+   * Advance the shake and refresh `offset`.
+   */
+  update(deltaMs: number): void {
+    if (this.amplitude === 0) return;
+
+    this.elapsed += deltaMs / 1000;
+    const envelope = this.envelope();
+
+    if (envelope < JUICE_CONFIG.SHAKE_REST) {
+      this.reset();
+      return;
+    }
+
+    const phase = JUICE_CONFIG.SHAKE_FREQUENCY * this.elapsed;
+    const lateral = envelope * JUICE_CONFIG.SHAKE_LATERAL;
+
+    // Mostly vertical like a landing thud, with off-beat sideways wobble
+    this.offset.y = -Math.sin(phase) * envelope;
+    this.offset.x = Math.sin(phase * 1.3 + 1) * lateral;
+    this.offset.z = Math.sin(phase * 0.7 + 2) * lateral;
+  }
+
+  /** True while the camera is still moving */
+  get active(): boolean {
+    return this.amplitude > 0;
+  }
+
+  reset(): void {
+    this.amplitude = 0;
+    this.elapsed = 0;
+    this.offset.x = 0;
+    this.offset.y = 0;
+    this.offset.z = 0;
+  }
+
+  private envelope(): number {
+    return this.amplitude * Math.exp(-JUICE_CONFIG.SHAKE_DAMPING * this.elapsed);
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Grid Motion Controller
+ * Slides the ground grid slightly against the moving block for a
+ * parallax feel. Eases back to rest when nothing is moving.
+ */
+
+import { JUICE_CONFIG } from './JuiceConfig';
+
+/** Horizontal grid offset in world units */
+export interface GridOffset {
+  x: number;
+  z: number;
+}
+
+export class GridMotionController {
+  readonly offset: GridOffset = { x: 0, z: 0 };
+
+  /**
+   * Ease the offset toward the parallax target.
+   * @param target - Position of the moving block, or null to settle
+   */
+  update(target: GridOffset | null, deltaMs: number): void {
+    const goalX = target ? -target.x * JUICE_CONFIG.GRID_MOTION_PARALLAX : 0;
+    const goalZ = target ? -target.z * JUICE_CONFIG.GRID_MOTION_PARALLAX : 0;
+
+    // Frame-rate independent exponential follow
+    const follow = 1 - Math.exp(-JUICE_CONFIG.GRID_MOTION_FOLLOW * (deltaMs / 1000));
+    this.offset.x += (goalX - this.offset.x) * follow;
+    this.offset.z += (goalZ - this.offset.z) * follow;
+  }
+
+  reset(): void {
+    this.offset.x = 0;
+    this.offset.z = 0;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Grid Pulse
+ * Additive brightness on the ground grid that decays exponentially.
+ */
+
+import { JUICE_CONFIG } from './JuiceConfig';
+
+export class GridPulse {
+  private value = 0;
+
+  /**
+   * Brighten the grid. Pulses stack up to GRID_PULSE_MAX.
+   */
+  pulse(amount: number): void {
+    this.value = Math.min(JUICE_CONFIG.GRID_PULSE_MAX, this.value + amount);
+  }
+
+  update(deltaMs: number): void {
+    if (this.value === 0) return;
+
+    this.value *= Math.exp(-JUICE_CONFIG.GRID_PULSE_DECAY * (deltaMs / 1000));
+    if (this.value < JUICE_CONFIG.GRID_PULSE_REST) {
+      this.value = 0;
+    }
+  }
+
+  /** Extra brightness to apply (0 = resting) */
+  get intensity(): number {
+    return this.value;
+  }
+
+  reset(): void {
+    this.value = 0;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Hit-Stop
+ * Freeze frame controller. While frames are held the time scale is 0
+ * and the game loop stops feeding its fixed-timestep accumulator.
+ */
+
+import { JUICE_CONFIG } from './JuiceConfig';
+
+export class HitStop {
+  private framesLeft = 0;
+
+  /**
+   * Hold the next `frames` rendered frames.
+   * Overlapping hits extend the hold instead of adding to it.
+   */
+  trigger(frames: number): void {
+    this.framesLeft = Math.min(
+      JUICE_CONFIG.HIT_STOP_MAX_FRAMES,
+      Math.max(this.framesLeft, Math.round(frames))
+    );
+  }
+
+  /**
+   * Time scale for the current frame (0 = frozen, 1 = normal).
+   * Call once per rendered frame; a frozen frame is used up by the call.
+   */
+  step(): number {
+    if (this.framesLeft > 0) {
+      this.framesLeft--;
+      return 0;
+    }
+    return 1;
+  }
+
+  /** Time scale without consuming a frame */
+  get timeScale(): number {
+    return this.framesLeft > 0 ? 0 : 1;
+  }
+
+  reset(): void {
+    this.framesLeft = 0;
+  }
+}
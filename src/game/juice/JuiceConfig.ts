@@ -0,0 +1,54 @@
+/**
+ * Juice Config
+ * Tuning constants for the arcade feedback system.
+ * Tweak these values to adjust how hard placements hit.
+ */
+
+/** Placement kinds that trigger juice */
+export type JuiceKind = 'perfect' | 'slice';
+
+/**
+ * Per-placement effect strengths.
+ */
+export interface JuiceProfile {
+  /** Camera shake impulse (world units) */
+  shake: number;
+  /** Frames the game loop holds on impact */
+  hitStopFrames: number;
+  /** Brightness added to the ground grid (0 = none) */
+  gridPulse: number;
+}
+
+export const JUICE_CONFIG = {
+  // Camera Shake - sin(ωt) * e^(-dt)
+  SHAKE_FREQUENCY: 42, // ω, radians per second
+  SHAKE_DAMPING: 10, // d, per second
+  SHAKE_MAX: 0.35, // cap on stacked impulses (units)
+  SHAKE_LATERAL: 0.4, // sideways kick relative to vertical
+  SHAKE_REST: 0.002, // below this the camera is considered settled
+
+  // Hit-Stop
+  HIT_STOP_MAX_FRAMES: 6,
+
+  // Grid Pulse
+  GRID_PULSE_DECAY: 5, // per second
+  GRID_PULSE_MAX: 1.5,
+  GRID_PULSE_REST: 0.005,
+
+  // Grid Motion
+  GRID_MOTION_PARALLAX: 0.05, // grid offset per unit the moving block travels
+  GRID_MOTION_FOLLOW: 3, // catch-up rate, per second
+} as const;
+
+export const JUICE_PROFILES: Record<JuiceKind, JuiceProfile> = {
+  perfect: {
+    shake: 0.12,
+    hitStopFrames: 4,
+    gridPulse: 1,
+  },
+  slice: {
+    shake: 0.06,
+    hitStopFrames: 2,
+    gridPulse: 0.4,
+  },
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { CameraShake } from '../CameraShake';
+import { JUICE_CONFIG } from '../JuiceConfig';
+
+/** Largest vertical offset seen over `frames` 16ms frames */
+function peakOffset(shake: CameraShake, frames: number): number {
+  let peak = 0;
+  for (let i = 0; i < frames; i++) {
+    shake.update(16);
+    peak = Math.max(peak, Math.abs(shake.offset.y));
+  }
+  return peak;
+}
+
+describe('CameraShake', () => {
+  it('rests until kicked', () => {
+    const shake = new CameraShake();
+    shake.update(16);
+    expect(shake.active).toBe(false);
+    expect(shake.offset).toEqual({ x: 0, y: 0, z: 0 });
+  });
+
+  it('moves the camera after an impulse', () => {
+    const shake = new CameraShake();
+    shake.impulse(0.1);
+    expect(shake.active).toBe(true);
+    expect(peakOffset(shake, 5)).toBeGreaterThan(0);
+    expect(peakOffset(shake, 5)).toBeLessThanOrEqual(0.1);
+  });
+
+  it('decays and settles back to rest', () => {
+    const shake = new CameraShake();
+    shake.impulse(0.1);
+    const early = peakOffset(shake, 5);
+    const later = peakOffset(shake, 5);
+    expect(later).toBeLessThan(early);
+
+    // e^(-10t) falls below SHAKE_REST well within two seconds
+    for (let i = 0; i < 120; i++) shake.update(16);
+    expect(shake.active).toBe(false);
+    expect(shake.offset).toEqual({ x: 0, y: 0, z: 0 });
+  });
+
+  it('stacks impulses up to SHAKE_MAX', () => {
+    const shake = new CameraShake();
+    for (let i = 0; i < 10; i++) shake.impulse(0.2);
+    expect(peakOffset(shake, 10)).toBeLessThanOrEqual(JUICE_CONFIG.SHAKE_MAX);
+  });
+
+  it('stops at once on reset', () => {
+    const shake = new CameraShake();
+    shake.impulse(0.2);
+    shake.update(16);
+    shake.reset();
+    expect(shake.active).toBe(false);
+    expect(shake.offset).toEqual({ x: 0, y: 0, z: 0 });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { GridMotionController } from '../GridMotionController';
+import { JUICE_CONFIG } from '../JuiceConfig';
+
+describe('GridMotionController', () => {
+  it('moves against the block', () => {
+    const motion = new GridMotionController();
+    motion.update({ x: 2, z: -1 }, 16);
+    expect(motion.offset.x).toBeLessThan(0);
+    expect(motion.offset.z).toBeGreaterThan(0);
+  });
+
+  it('eases toward the parallax target without overshooting', () => {
+    const motion = new GridMotionController();
+    const target = { x: 4, z: 0 };
+    const goal = -target.x * JUICE_CONFIG.GRID_MOTION_PARALLAX;
+
+    for (let i = 0; i < 600; i++) {
+      motion.update(target, 16);
+      expect(motion.offset.x).toBeGreaterThanOrEqual(goal);
+    }
+    expect(motion.offset.x).toBeCloseTo(goal);
+  });
+
+  it('settles back to rest without a target', () => {
+    const motion = new GridMotionController();
+    for (let i = 0; i < 100; i++) motion.update({ x: 4, z: 4 }, 16);
+    for (let i = 0; i < 600; i++) motion.update(null, 16);
+    expect(motion.offset.x).toBeCloseTo(0);
+    expect(motion.offset.z).toBeCloseTo(0);
+  });
+
+  it('holds still on a zero-length frame', () => {
+    const motion = new GridMotionController();
+    motion.update({ x: 4, z: 4 }, 0);
+    expect(motion.offset).toEqual({ x: 0, z: 0 });
+  });
+
+  it('clears on reset', () => {
+    const motion = new GridMotionController();
+    motion.update({ x: 4, z: 4 }, 500);
+    motion.reset();
+    expect(motion.offset).toEqual({ x: 0, z: 0 });
+  });
+});
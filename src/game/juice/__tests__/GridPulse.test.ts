@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { GridPulse } from '../GridPulse';
+import { JUICE_CONFIG } from '../JuiceConfig';
+
+describe('GridPulse', () => {
+  it('rests at zero', () => {
+    const pulse = new GridPulse();
+    pulse.update(16);
+    expect(pulse.intensity).toBe(0);
+  });
+
+  it('decays exponentially', () => {
+    const pulse = new GridPulse();
+    pulse.pulse(1);
+    pulse.update(1000);
+    expect(pulse.intensity).toBeCloseTo(Math.exp(-JUICE_CONFIG.GRID_PULSE_DECAY));
+  });
+
+  it('decays the same however the frames fall', () => {
+    const oneStep = new GridPulse();
+    const manySteps = new GridPulse();
+    oneStep.pulse(1);
+    manySteps.pulse(1);
+
+    oneStep.update(200);
+    for (let i = 0; i < 10; i++) manySteps.update(20);
+    expect(manySteps.intensity).toBeCloseTo(oneStep.intensity);
+  });
+
+  it('snaps to zero once below GRID_PULSE_REST', () => {
+    const pulse = new GridPulse();
+    pulse.pulse(1);
+    pulse.update(5000);
+    expect(pulse.intensity).toBe(0);
+  });
+
+  it('stacks pulses up to GRID_PULSE_MAX', () => {
+    const pulse = new GridPulse();
+    pulse.pulse(0.4);
+    pulse.pulse(0.4);
+    expect(pulse.intensity).toBeCloseTo(0.8);
+
+    for (let i = 0; i < 10; i++) pulse.pulse(1);
+    expect(pulse.intensity).toBe(JUICE_CONFIG.GRID_PULSE_MAX);
+  });
+
+  it('clears on reset', () => {
+    const pulse = new GridPulse();
+    pulse.pulse(1);
+    pulse.reset();
+    expect(pulse.intensity).toBe(0);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { HitStop } from '../HitStop';
+import { JUICE_CONFIG } from '../JuiceConfig';
+
+/** Time scales for the next `frames` rendered frames */
+function steps(hitStop: HitStop, frames: number): number[] {
+  return Array.from({ length: frames }, () => hitStop.step());
+}
+
+describe('HitStop', () => {
+  it('runs at normal speed by default', () => {
+    const hitStop = new HitStop();
+    expect(hitStop.timeScale).toBe(1);
+    expect(steps(hitStop, 2)).toEqual([1, 1]);
+  });
+
+  it('freezes exactly the triggered number of frames', () => {
+    const hitStop = new HitStop();
+    hitStop.trigger(3);
+    expect(steps(hitStop, 5)).toEqual([0, 0, 0, 1, 1]);
+  });
+
+  it('reads the time scale without using a frame', () => {
+    const hitStop = new HitStop();
+    hitStop.trigger(1);
+    expect(hitStop.timeScale).toBe(0);
+    expect(hitStop.timeScale).toBe(0);
+    expect(steps(hitStop, 2)).toEqual([0, 1]);
+  });
+
+  it('extends an overlapping hold instead of adding to it', () => {
+    const hitStop = new HitStop();
+    hitStop.trigger(4);
+    hitStop.step();
+    hitStop.trigger(2);
+    expect(steps(hitStop, 4)).toEqual([0, 0, 0, 1]);
+
+    hitStop.trigger(2);
+    hitStop.trigger(3);
+    expect(steps(hitStop, 4)).toEqual([0, 0, 0, 1]);
+  });
+
+  it('caps the hold at HIT_STOP_MAX_FRAMES', () => {
+    const hitStop = new HitStop();
+    hitStop.trigger(100);
+    const frozen = steps(hitStop, 20).filter((scale) => scale === 0);
+    expect(frozen).toHaveLength(JUICE_CONFIG.HIT_STOP_MAX_FRAMES);
+  });
+
+  it('releases at once on reset', () => {
+    const hitStop = new HitStop();
+    hitStop.trigger(4);
+    hitStop.reset();
+    expect(hitStop.step()).toBe(1);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Juice System
+ * Arcade feedback layered on top of the scene: camera shake, hit-stop,
+ * grid pulse and grid motion. Controllers are singletons so the camera,
+ * game loop and ground can each read the one they drive.
+ */
+
+import { CameraShake } from './CameraShake';
+import { HitStop } from './HitStop';
+import { GridPulse } from './GridPulse';
+import { GridMotionController } from './GridMotionController';
+import type { JuiceKind } from './JuiceConfig';
+import { JUICE_PROFILES } from './JuiceConfig';
+
+const cameraShake = new CameraShake();
+const hitStop = new HitStop();
+const gridPulse = new GridPulse();
+const gridMotion = new GridMotionController();
+
+let enabled = true;
+
+export function getCameraShake(): CameraShake {
+  return cameraShake;
+}
+
+export function getHitStop(): HitStop {
+  return hitStop;
+}
+
+export function getGridPulse(): GridPulse {
+  return gridPulse;
+}
+
+export function getGridMotion(): GridMotionController {
+  return gridMotion;
+}
+
+/**
+ * Fire every juice effect for a placement.
+ * Does nothing while juice is disabled (reduced motion).
+ */
+export function triggerJuice(kind: JuiceKind): void {
+  if (!enabled) return;
+
+  const profile = JUICE_PROFILES[kind];
+  cameraShake.impulse(profile.shake);
+  hitStop.trigger(profile.hitStopFrames);
+  gridPulse.pulse(profile.gridPulse);
+}
+
+/**
+ * Turn the juice system on or off. Disabling settles every effect at once.
+ */
+export function setJuiceEnabled(value: boolean): void {
+  enabled = value;
+  if (!value) {
+    resetJuice();
+  }
+}
+
+export function isJuiceEnabled(): boolean {
+  return enabled;
+}
+
+/**
+ * Settle every effect (restart, unmount).
+ */
+export function resetJuice(): void {
+  cameraShake.reset();
+  hitStop.reset();
+  gridPulse.reset();
+  gridMotion.reset();
+}
+
+export type { JuiceKind, JuiceProfile } from './JuiceConfig';
+export { JUICE_CONFIG, JUICE_PROFILES } from './JuiceConfig';
@@ -9,10 +9,13 @@ import type {
   IVFXManager,
   PerfectPayload,
   SlicePayload,
+  RegrowPayload,
   GameOverPayload,
 } from './types';
 import { PerfectRing } from './effects/PerfectRing';
 import { SliceFlash } from './effects/SliceFlash';
+import { RegrowPulse } from './effects/RegrowPulse';
+import { SparkBurst } from './effects/SparkBurst';
 import { GameOverWash } from './effects/GameOverWash';
 
 /**
@@ -28,6 +31,8 @@ class VFXManagerImpl implements IVFXManager {
   // Effect instances
   private perfectRing: PerfectRing;
   private sliceFlash: SliceFlash;
+  private regrowPulse: RegrowPulse;
+  private sparkBurst: SparkBurst;
   private gameOverWash: GameOverWash;
 
   // Current theme color for all effects
@@ -36,6 +41,8 @@ class VFXManagerImpl implements IVFXManager {
   constructor() {
     this.perfectRing = new PerfectRing();
     this.sliceFlash = new SliceFlash();
+    this.regrowPulse = new RegrowPulse();
+    this.sparkBurst = new SparkBurst();
     this.gameOverWash = new GameOverWash();
     this.themeColor = new THREE.Color(0x00f6ff); // Default cyan
   }
@@ -52,11 +59,15 @@ class VFXManagerImpl implements IVFXManager {
     // Initialize all effects
     this.perfectRing.init(scene);
     this.sliceFlash.init(scene);
+    this.regrowPulse.init(scene);
+    this.sparkBurst.init(scene);
     this.gameOverWash.init(scene);
 
     // Apply initial theme color
     this.perfectRing.setColor(this.themeColor);
     this.sliceFlash.setColor(this.themeColor);
+    this.regrowPulse.setColor(this.themeColor);
+    this.sparkBurst.setColor(this.themeColor);
 
     this.initialized = true;
 
@@ -77,6 +88,8 @@ class VFXManagerImpl implements IVFXManager {
 
     this.perfectRing.update(deltaMs, this.currentTime);
     this.sliceFlash.update(deltaMs, this.currentTime);
+    this.regrowPulse.update(deltaMs, this.currentTime);
+    this.sparkBurst.update(deltaMs);
     this.gameOverWash.update(deltaMs, this.currentTime);
   }
 
@@ -86,6 +99,7 @@ class VFXManagerImpl implements IVFXManager {
   onPerfect(payload: PerfectPayload): void {
     if (!this.initialized) return;
     this.perfectRing.trigger(payload);
+    this.sparkBurst.triggerPerfect(payload);
   }
 
   /**
@@ -94,6 +108,23 @@ class VFXManagerImpl implements IVFXManager {
   onSlice(payload: SlicePayload): void {
     if (!this.initialized) return;
     this.sliceFlash.trigger(payload);
+    this.sparkBurst.triggerSlice(payload);
+  }
+
+  /**
+   * Trigger regrowth pulse effect.
+   */
+  onRegrow(payload: RegrowPayload): void {
+    if (!this.initialized) return;
+    this.regrowPulse.trigger(payload);
+  }
+
+  /**
+   * Trigger reversed slice flash for a rewound slice.
+   */
+  onRewind(payload: SlicePayload): void {
+    if (!this.initialized) return;
+    this.sliceFlash.trigger(payload, true);
   }
 
   /**
@@ -122,6 +153,8 @@ class VFXManagerImpl implements IVFXManager {
     if (this.initialized) {
       this.perfectRing.setColor(this.themeColor);
       this.sliceFlash.setColor(this.themeColor);
+      this.regrowPulse.setColor(this.themeColor);
+      this.sparkBurst.setColor(this.themeColor);
     }
   }
 
@@ -133,6 +166,8 @@ class VFXManagerImpl implements IVFXManager {
 
     this.perfectRing.dispose();
     this.sliceFlash.dispose();
+    this.regrowPulse.dispose();
+    this.sparkBurst.dispose();
     this.gameOverWash.dispose();
 
     this.initialized = false;
@@ -154,6 +189,7 @@ class VFXManagerImpl implements IVFXManager {
             position: new THREE.Vector3(0, 2, 0),
             size: new THREE.Vector3(3, 0.5, 3),
             topY: 2.25,
+            streak: 3,
           });
           console.log('[VFX Debug] Perfect ring triggered');
           break;
@@ -168,6 +204,26 @@ class VFXManagerImpl implements IVFXManager {
           console.log('[VFX Debug] Slice flash triggered');
           break;
 
+        case 'w': // Test regrow pulse
+          this.onRegrow({
+            position: new THREE.Vector3(0, 2, 0),
+            size: new THREE.Vector3(2.2, 0.5, 3),
+            axis: 'x',
+            amount: 0.2,
+          });
+          console.log('[VFX Debug] Regrow pulse triggered');
+          break;
+
+        case 'u': // Test rewind flash
+          this.onRewind({
+            cutPosition: new THREE.Vector3(1, 2, 0),
+            cutLength: 3,
+            axis: 'x',
+            cutY: 2.25,
+          });
+          console.log('[VFX Debug] Rewind flash triggered');
+          break;
+
         case 'g': // Test game over
           this.onGameOver({ stackHeight: 5 });
           console.log('[VFX Debug] Game over wash triggered');
@@ -206,4 +262,4 @@ export function resetVFXManager(): void {
 }
 
 // Re-export types for convenience
-export type { PerfectPayload, SlicePayload, GameOverPayload } from './types';
+export type { PerfectPayload, SlicePayload, RegrowPayload, GameOverPayload } from './types';
@@ -0,0 +1,152 @@
+/**
+ * Regrow Pulse Effect
+ * Glowing outline that stretches out along the growth axis when a
+ * perfect streak regrows a block.
+ * Uses object pooling to avoid runtime allocations.
+ */
+
+import * as THREE from 'three';
+import type { IEffect, PooledEffect, RegrowPayload } from '../types';
+import type { Axis } from '@/core/types';
+import { VFX_CONFIG } from '../types';
+
+interface PulseInstance extends PooledEffect<THREE.LineSegments> {
+  /** Block size after regrowth */
+  size: THREE.Vector3;
+  /** Axis the block grew along */
+  axis: Axis;
+  /** Size regained along the axis */
+  amount: number;
+}
+
+export class RegrowPulse implements IEffect {
+  private scene: THREE.Scene | null = null;
+  private pool: PulseInstance[] = [];
+  private geometry: THREE.EdgesGeometry;
+  private material: THREE.LineBasicMaterial;
+  private currentTime: number = 0;
+
+  constructor() {
+    // Unit box outline, scaled per-instance to the block
+    const box = new THREE.BoxGeometry(1, 1, 1);
+    this.geometry = new THREE.EdgesGeometry(box);
+    box.dispose();
+
+    this.material = new THREE.LineBasicMaterial({
+      color: 0x00f6ff,
+      transparent: true,
+      opacity: 1,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+    });
+  }
+
+  init(scene: THREE.Scene): void {
+    this.scene = scene;
+
+    for (let i = 0; i < VFX_CONFIG.REGROW_PULSE_POOL_SIZE; i++) {
+      const lines = new THREE.LineSegments(this.geometry, this.material.clone());
+      lines.visible = false;
+      lines.renderOrder = 100;
+      scene.add(lines);
+
+      this.pool.push({
+        object: lines,
+        active: false,
+        startTime: 0,
+        duration: VFX_CONFIG.REGROW_PULSE_DURATION,
+        size: new THREE.Vector3(1, 1, 1),
+        axis: 'x',
+        amount: 0,
+      });
+    }
+  }
+
+  /**
+   * Trigger a new regrow pulse.
+   */
+  trigger(payload: RegrowPayload): void {
+    const instance = this.pool.find((p) => !p.active);
+    if (!instance) return;
+
+    const { position, size, axis, amount } = payload;
+
+    instance.object.position.copy(position);
+    instance.size.copy(size);
+    instance.axis = axis;
+    instance.amount = amount;
+    this.applyScale(instance, 0);
+
+    const mat = instance.object.material as THREE.LineBasicMaterial;
+    mat.opacity = VFX_CONFIG.REGROW_PULSE_OPACITY_START;
+
+    instance.active = true;
+    instance.startTime = this.currentTime;
+    instance.object.visible = true;
+  }
+
+  update(_deltaMs: number, currentTime: number): void {
+    this.currentTime = currentTime;
+
+    for (const instance of this.pool) {
+      if (!instance.active) continue;
+
+      const elapsed = currentTime - instance.startTime;
+      const progress = Math.min(elapsed / instance.duration, 1);
+
+      if (progress >= 1) {
+        instance.active = false;
+        instance.object.visible = false;
+        continue;
+      }
+
+      // Ease out cubic for smooth deceleration
+      const eased = 1 - Math.pow(1 - progress, 3);
+      this.applyScale(instance, eased);
+
+      const mat = instance.object.material as THREE.LineBasicMaterial;
+      mat.opacity = VFX_CONFIG.REGROW_PULSE_OPACITY_START * (1 - eased);
+    }
+  }
+
+  /**
+   * Stretch from the pre-growth size past the new size along the axis.
+   */
+  private applyScale(instance: PulseInstance, eased: number): void {
+    const { size, axis, amount } = instance;
+    const startLength = size[axis] - amount;
+    const endLength = size[axis] * VFX_CONFIG.REGROW_PULSE_OVERSHOOT;
+    const length = startLength + (endLength - startLength) * eased;
+    // Slightly puff the outline so it doesn't z-fight the block edges
+    const puff = 1.02;
+
+    instance.object.scale.set(
+      axis === 'x' ? length : size.x * puff,
+      size.y * puff,
+      axis === 'z' ? length : size.z * puff
+    );
+  }
+
+  setColor(color: THREE.Color): void {
+    this.material.color.copy(color);
+
+    for (const instance of this.pool) {
+      const mat = instance.object.material as THREE.LineBasicMaterial;
+      mat.color.copy(color);
+    }
+  }
+
+  dispose(): void {
+    for (const instance of this.pool) {
+      if (this.scene) {
+        this.scene.remove(instance.object);
+      }
+      (instance.object.material as THREE.Material).dispose();
+    }
+    this.pool = [];
+
+    this.geometry.dispose();
+    this.material.dispose();
+    this.scene = null;
+  }
+}
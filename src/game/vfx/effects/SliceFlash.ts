@@ -1,6 +1,7 @@
 /**
  * Slice Flash Effect
  * Quick bright line flash at the cut edge when a block is sliced.
+ * Plays backwards (building up, then snapping shut) when a rewind undoes a slice.
  * Uses object pooling to avoid runtime allocations.
  */
 
@@ -11,6 +12,8 @@ import { VFX_CONFIG } from '../types';
 interface FlashInstance extends PooledEffect<THREE.Mesh> {
   /** Direction of the cut for orientation */
   cutAxis: 'x' | 'z';
+  /** Fade in instead of out */
+  reversed: boolean;
 }
 
 export class SliceFlash implements IEffect {
@@ -52,14 +55,16 @@ export class SliceFlash implements IEffect {
         startTime: 0,
         duration: VFX_CONFIG.SLICE_FLASH_DURATION,
         cutAxis: 'x',
+        reversed: false,
       });
     }
   }
 
   /**
    * Trigger a new slice flash effect.
+   * @param reversed - Play the flash backwards (rewind)
    */
-  trigger(payload: SlicePayload): void {
+  trigger(payload: SlicePayload, reversed: boolean = false): void {
     const instance = this.pool.find((f) => !f.active);
     if (!instance) return;
 
@@ -89,10 +94,14 @@ export class SliceFlash implements IEffect {
 
     // Reset opacity
     const mat = instance.object.material as THREE.MeshBasicMaterial;
-    mat.opacity = VFX_CONFIG.SLICE_FLASH_OPACITY_START;
+    mat.opacity = reversed ? 0 : VFX_CONFIG.SLICE_FLASH_OPACITY_START;
 
     // Activate
     instance.cutAxis = axis;
+    instance.reversed = reversed;
+    instance.duration = reversed
+      ? VFX_CONFIG.REWIND_FLASH_DURATION
+      : VFX_CONFIG.SLICE_FLASH_DURATION;
     instance.active = true;
     instance.startTime = this.currentTime;
     instance.object.visible = true;
@@ -105,14 +114,17 @@ export class SliceFlash implements IEffect {
       if (!instance.active) continue;
 
       const elapsed = currentTime - instance.startTime;
-      const progress = Math.min(elapsed / instance.duration, 1);
+      const linear = Math.min(elapsed / instance.duration, 1);
 
-      if (progress >= 1) {
+      if (linear >= 1) {
         instance.active = false;
         instance.object.visible = false;
         continue;
       }
 
+      // A reversed flash runs the same curve from the end
+      const progress = instance.reversed ? 1 - linear : linear;
+
       // Fast ease out for snappy flash
       // Use exponential decay for quick fade
       const opacity = VFX_CONFIG.SLICE_FLASH_OPACITY_START * Math.pow(1 - progress, 2);
@@ -0,0 +1,292 @@
+/**
+ * Spark Burst Effect
+ * GPU point particles: hot sparks spraying off the cut line on slices and
+ * radial confetti on perfects. All particles share one Points object;
+ * each burst claims free slots from a fixed-size pool.
+ */
+
+import * as THREE from 'three';
+import type { IEffect, PerfectPayload, SlicePayload } from '../types';
+import { VFX_CONFIG } from '../types';
+
+/** How far a spark's color is pushed toward white */
+const SPARK_HEAT = 0.5;
+
+/** Hue spread for confetti around the theme color */
+const CONFETTI_HUE_SPREAD = 0.08;
+
+const WHITE = new THREE.Color(0xffffff);
+
+export class SparkBurst implements IEffect {
+  private scene: THREE.Scene | null = null;
+  private points: THREE.Points | null = null;
+  private geometry: THREE.BufferGeometry;
+  private material: THREE.PointsMaterial;
+  private themeColor = new THREE.Color(0x00f6ff);
+  private scratch = new THREE.Color();
+  private hsl = { h: 0, s: 0, l: 0 };
+
+  // Per-particle state, indexed by pool slot
+  private positions: Float32Array;
+  private colors: Float32Array;
+  private baseColors: Float32Array;
+  private velocities: Float32Array;
+  private lifetimes: Float32Array;
+  private ages: Float32Array;
+  private active: Uint8Array;
+  private activeCount = 0;
+  private cursor = 0;
+
+  constructor() {
+    const size = VFX_CONFIG.SPARK_POOL_SIZE;
+    this.positions = new Float32Array(size * 3);
+    this.colors = new Float32Array(size * 3);
+    this.baseColors = new Float32Array(size * 3);
+    this.velocities = new Float32Array(size * 3);
+    this.lifetimes = new Float32Array(size);
+    this.ages = new Float32Array(size);
+    this.active = new Uint8Array(size);
+
+    this.geometry = new THREE.BufferGeometry();
+    this.geometry.setAttribute(
+      'position',
+      new THREE.BufferAttribute(this.positions, 3).setUsage(THREE.DynamicDrawUsage)
+    );
+    this.geometry.setAttribute(
+      'color',
+      new THREE.BufferAttribute(this.colors, 3).setUsage(THREE.DynamicDrawUsage)
+    );
+
+    // Additive blending: a black particle is invisible, so fading the
+    // vertex color fades the particle without per-point opacity
+    this.material = new THREE.PointsMaterial({
+      size: VFX_CONFIG.SPARK_SIZE,
+      vertexColors: true,
+      transparent: true,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+      sizeAttenuation: true,
+    });
+  }
+
+  init(scene: THREE.Scene): void {
+    this.scene = scene;
+
+    this.points = new THREE.Points(this.geometry, this.material);
+    this.points.frustumCulled = false; // Particles move far from the bounds
+    this.points.renderOrder = 101;
+    this.points.visible = false;
+    scene.add(this.points);
+  }
+
+  /**
+   * Spray sparks from the cut line. Longer cuts throw more sparks.
+   */
+  triggerSlice(payload: SlicePayload): void {
+    const { cutPosition, cutLength, axis, cutY } = payload;
+    const count = Math.min(
+      VFX_CONFIG.SPARK_MAX_PER_BURST,
+      Math.round(cutLength * VFX_CONFIG.SPARKS_PER_UNIT)
+    );
+
+    this.scratch.copy(this.themeColor).lerp(WHITE, SPARK_HEAT);
+
+    for (let n = 0; n < count; n++) {
+      const i = this.claim();
+
+      // Spread along the cut line (a cut on x runs along z and vice versa)
+      const along = (Math.random() - 0.5) * cutLength;
+      const x = axis === 'x' ? cutPosition.x : cutPosition.x + along;
+      const z = axis === 'z' ? cutPosition.z : cutPosition.z + along;
+
+      // Fly off either side of the cut, mostly across it
+      const speed = VFX_CONFIG.SPARK_SPEED * (0.5 + Math.random());
+      const across = (Math.random() < 0.5 ? -1 : 1) * speed;
+      const drift = (Math.random() - 0.5) * speed * 0.4;
+
+      this.spawn(
+        i,
+        x,
+        cutY + 0.02,
+        z,
+        axis === 'x' ? across : drift,
+        speed * (0.4 + Math.random() * 0.6),
+        axis === 'z' ? across : drift,
+        VFX_CONFIG.SPARK_LIFETIME * (0.6 + Math.random() * 0.4),
+        this.scratch
+      );
+    }
+  }
+
+  /**
+   * Burst confetti outward from the block rim. Longer streaks throw more.
+   */
+  triggerPerfect(payload: PerfectPayload): void {
+    const { position, size, topY } = payload;
+    const streak = payload.streak ?? 1;
+    const count = Math.min(
+      VFX_CONFIG.SPARK_MAX_PER_BURST,
+      VFX_CONFIG.CONFETTI_BASE_COUNT + VFX_CONFIG.CONFETTI_PER_STREAK * Math.max(0, streak - 1)
+    );
+
+    this.themeColor.getHSL(this.hsl);
+
+    for (let n = 0; n < count; n++) {
+      const i = this.claim();
+      const angle = Math.random() * Math.PI * 2;
+      const dirX = Math.cos(angle);
+      const dirZ = Math.sin(angle);
+      const speed = VFX_CONFIG.CONFETTI_SPEED * (0.6 + Math.random() * 0.6);
+
+      // Each piece a nearby hue so the burst reads as the theme, not a rainbow
+      const hue = (this.hsl.h + (Math.random() - 0.5) * 2 * CONFETTI_HUE_SPREAD + 1) % 1;
+      this.scratch.setHSL(hue, this.hsl.s, Math.min(0.75, this.hsl.l + Math.random() * 0.2));
+
+      this.spawn(
+        i,
+        position.x + (dirX * size.x) / 2,
+        topY + 0.02,
+        position.z + (dirZ * size.z) / 2,
+        dirX * speed,
+        VFX_CONFIG.CONFETTI_SPEED * (0.5 + Math.random() * 0.5),
+        dirZ * speed,
+        VFX_CONFIG.CONFETTI_LIFETIME * (0.7 + Math.random() * 0.3),
+        this.scratch
+      );
+    }
+  }
+
+  update(deltaMs: number): void {
+    if (this.activeCount === 0 || !this.points) return;
+
+    const dt = deltaMs / 1000;
+    const drag = Math.exp(-VFX_CONFIG.SPARK_DRAG * dt);
+
+    for (let i = 0; i < VFX_CONFIG.SPARK_POOL_SIZE; i++) {
+      if (!this.active[i]) continue;
+
+      const age = (this.ages[i] ?? 0) + deltaMs;
+      const lifetime = this.lifetimes[i] ?? 1;
+      this.ages[i] = age;
+
+      const p = i * 3;
+      if (age >= lifetime) {
+        this.release(i);
+        continue;
+      }
+
+      const vx = (this.velocities[p] ?? 0) * drag;
+      const vy = ((this.velocities[p + 1] ?? 0) + VFX_CONFIG.SPARK_GRAVITY * dt) * drag;
+      const vz = (this.velocities[p + 2] ?? 0) * drag;
+      this.velocities[p] = vx;
+      this.velocities[p + 1] = vy;
+      this.velocities[p + 2] = vz;
+
+      this.positions[p] = (this.positions[p] ?? 0) + vx * dt;
+      this.positions[p + 1] = (this.positions[p + 1] ?? 0) + vy * dt;
+      this.positions[p + 2] = (this.positions[p + 2] ?? 0) + vz * dt;
+
+      // Quadratic fade - bright for most of the flight, quick burn-out
+      const life = 1 - age / lifetime;
+      const fade = life * life;
+      this.colors[p] = (this.baseColors[p] ?? 0) * fade;
+      this.colors[p + 1] = (this.baseColors[p + 1] ?? 0) * fade;
+      this.colors[p + 2] = (this.baseColors[p + 2] ?? 0) * fade;
+    }
+
+    this.markDirty();
+    this.points.visible = this.activeCount > 0;
+  }
+
+  /**
+   * New bursts use the theme color; particles in flight keep theirs.
+   */
+  setColor(color: THREE.Color): void {
+    this.themeColor.copy(color);
+  }
+
+  dispose(): void {
+    if (this.scene && this.points) {
+      this.scene.remove(this.points);
+    }
+    this.points = null;
+    this.geometry.dispose();
+    this.material.dispose();
+    this.active.fill(0);
+    this.activeCount = 0;
+    this.scene = null;
+  }
+
+  /**
+   * Next free slot, or the oldest one when the pool is exhausted.
+   */
+  private claim(): number {
+    const size = VFX_CONFIG.SPARK_POOL_SIZE;
+    for (let n = 0; n < size; n++) {
+      const i = (this.cursor + n) % size;
+      if (!this.active[i]) {
+        this.cursor = (i + 1) % size;
+        return i;
+      }
+    }
+
+    // Exhausted - recycle in spawn order
+    const i = this.cursor;
+    this.release(i);
+    this.cursor = (i + 1) % size;
+    return i;
+  }
+
+  private spawn(
+    i: number,
+    x: number,
+    y: number,
+    z: number,
+    vx: number,
+    vy: number,
+    vz: number,
+    lifetime: number,
+    color: THREE.Color
+  ): void {
+    const p = i * 3;
+    this.positions[p] = x;
+    this.positions[p + 1] = y;
+    this.positions[p + 2] = z;
+    this.velocities[p] = vx;
+    this.velocities[p + 1] = vy;
+    this.velocities[p + 2] = vz;
+    this.baseColors[p] = color.r;
+    this.baseColors[p + 1] = color.g;
+    this.baseColors[p + 2] = color.b;
+    this.colors[p] = color.r;
+    this.colors[p + 1] = color.g;
+    this.colors[p + 2] = color.b;
+    this.lifetimes[i] = lifetime;
+    this.ages[i] = 0;
+    this.active[i] = 1;
+    this.activeCount++;
+
+    this.markDirty();
+    if (this.points) {
+      this.points.visible = true;
+    }
+  }
+
+  private release(i: number): void {
+    if (!this.active[i]) return;
+
+    const p = i * 3;
+    this.active[i] = 0;
+    this.activeCount--;
+    this.colors[p] = 0;
+    this.colors[p + 1] = 0;
+    this.colors[p + 2] = 0;
+  }
+
+  private markDirty(): void {
+    const position = this.geometry.getAttribute('position');
+    const color = this.geometry.getAttribute('color');
+    position.needsUpdate = true;
+    color.needsUpdate = true;
+  }
+}
@@ -6,6 +6,7 @@ export { getVFXManager, resetVFXManager } from './VFXManager';
 export type {
   PerfectPayload,
   SlicePayload,
+  RegrowPayload,
   GameOverPayload,
   IVFXManager,
 } from './types';
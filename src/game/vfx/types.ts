@@ -23,6 +23,27 @@ export const VFX_CONFIG = {
   SLICE_FLASH_OPACITY_START: 1.0,
   SLICE_FLASH_WIDTH: 0.08, // thickness of line
   SLICE_FLASH_POOL_SIZE: 4,
+  REWIND_FLASH_DURATION: 320, // ms, slower so the undo reads clearly
+
+  // Regrow Pulse
+  REGROW_PULSE_DURATION: 450, // ms
+  REGROW_PULSE_OVERSHOOT: 1.25, // final length relative to the grown block
+  REGROW_PULSE_OPACITY_START: 1.0,
+  REGROW_PULSE_POOL_SIZE: 3,
+
+  // Spark Burst (shared particle pool for sparks and confetti)
+  SPARK_POOL_SIZE: 256, // particles, not bursts
+  SPARK_MAX_PER_BURST: 96,
+  SPARK_SIZE: 0.07, // world units
+  SPARK_GRAVITY: -9,
+  SPARK_DRAG: 1.5, // per second
+  SPARKS_PER_UNIT: 12, // sparks per unit of cut length
+  SPARK_SPEED: 2.5,
+  SPARK_LIFETIME: 450, // ms
+  CONFETTI_BASE_COUNT: 24,
+  CONFETTI_PER_STREAK: 8, // extra pieces per perfect in the streak
+  CONFETTI_SPEED: 3.5,
+  CONFETTI_LIFETIME: 750, // ms
 
   // Cut Piece Emissive Fade
   CUT_EMISSIVE_FADE_DURATION: 800, // ms
@@ -46,6 +67,8 @@ export interface PerfectPayload {
   size: THREE.Vector3;
   /** Y position of block top face */
   topY: number;
+  /** Perfect streak including this hit (scales the confetti) */
+  streak?: number;
 }
 
 /**
@@ -62,6 +85,20 @@ export interface SlicePayload {
   cutY: number;
 }
 
+/**
+ * Payload for regrowth effect.
+ */
+export interface RegrowPayload {
+  /** World position of the regrown block center */
+  position: THREE.Vector3;
+  /** Dimensions of the block after regrowth */
+  size: THREE.Vector3;
+  /** Axis the block grew along */
+  axis: Axis;
+  /** Size regained along the axis */
+  amount: number;
+}
+
 /**
  * Payload for game over effect.
  */
@@ -106,6 +143,9 @@ export interface IVFXManager {
   update(deltaMs: number): void;
   onPerfect(payload: PerfectPayload): void;
   onSlice(payload: SlicePayload): void;
+  onRegrow(payload: RegrowPayload): void;
+  /** Un-slice: the slice flash played backwards at the restored cut */
+  onRewind(payload: SlicePayload): void;
   onGameOver(payload?: GameOverPayload): void;
   onRestart(): void;
   setThemeColor(color: string): void;
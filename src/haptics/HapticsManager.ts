@@ -0,0 +1,211 @@
+/**
+ * Haptics Manager
+ * Tactile feedback through the Vibration API (mostly Android browsers;
+ * iOS Safari has no support and stays silent).
+ *
+ * The device is reached through a HapticsDriver so tests and other
+ * platforms can swap it out.
+ */
+
+/** Feedback patterns */
+export type HapticName = 'place' | 'slice' | 'perfect' | 'combo' | 'gameover';
+
+export interface HapticOptions {
+  /** Combo tier (1-3), for 'combo' */
+  tier?: number;
+  /** Play after the pattern in progress instead of cutting it off */
+  follow?: boolean;
+}
+
+/**
+ * Low-level vibration output.
+ * Patterns alternate vibrate/pause durations in ms, starting with vibrate.
+ */
+export interface HapticsDriver {
+  isSupported(): boolean;
+  vibrate(pattern: number[]): void;
+  /** Cancel any pattern in progress */
+  cancel(): void;
+}
+
+/**
+ * Patterns at full intensity. Vibrate steps scale with intensity;
+ * pauses don't, so the rhythm stays recognisable.
+ */
+export const HAPTIC_PATTERNS: Record<Exclude<HapticName, 'combo'>, readonly number[]> = {
+  place: [12],
+  slice: [20, 30, 10],
+  perfect: [8, 40, 16],
+  gameover: [80, 60, 40, 60, 160],
+};
+
+/** Combo patterns by tier: more and longer pulses as the streak grows */
+export const COMBO_PATTERNS: readonly (readonly number[])[] = [
+  [10, 30, 10, 30, 20],
+  [12, 25, 12, 25, 12, 25, 30],
+  [15, 20, 15, 20, 15, 20, 15, 20, 50],
+];
+
+/** Shortest vibrate step that still registers on most devices (ms) */
+const MIN_PULSE_MS = 4;
+
+/** Pause between a pattern and one that follows it (ms) */
+const FOLLOW_GAP_MS = 40;
+
+/**
+ * Combo tier for a perfect streak (1 from the first combo, 3 from 6+).
+ */
+export function getComboTier(streak: number): number {
+  if (streak >= 6) return 3;
+  if (streak >= 4) return 2;
+  return 1;
+}
+
+/**
+ * Scale a pattern's vibrate steps by intensity (0-100).
+ */
+export function scalePattern(pattern: readonly number[], intensity: number): number[] {
+  const scale = Math.max(0, Math.min(100, intensity)) / 100;
+  return pattern.map((duration, i) =>
+    i % 2 === 0 ? Math.max(MIN_PULSE_MS, Math.round(duration * scale)) : duration
+  );
+}
+
+/**
+ * What is left of a pattern `elapsed` ms after it started, still starting
+ * with a vibrate step (empty once it has finished).
+ */
+export function remainingPattern(pattern: readonly number[], elapsed: number): number[] {
+  let start = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const end = start + (pattern[i] ?? 0);
+    if (end > elapsed) {
+      const rest = [end - Math.max(start, elapsed), ...pattern.slice(i + 1)];
+      // Mid-pause: a zero-length vibrate keeps the steps in phase
+      return i % 2 === 0 ? rest : [0, ...rest];
+    }
+    start = end;
+  }
+  return [];
+}
+
+/**
+ * Driver backed by `navigator.vibrate`.
+ */
+export function createVibrationDriver(): HapticsDriver {
+  const canVibrate = () =>
+    typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+
+  return {
+    isSupported: canVibrate,
+    vibrate(pattern) {
+      if (canVibrate()) navigator.vibrate(pattern);
+    },
+    cancel() {
+      if (canVibrate()) navigator.vibrate(0);
+    },
+  };
+}
+
+export class HapticsManager {
+  private driver: HapticsDriver;
+  private intensity = 70;
+  private enabled = true;
+  private now: () => number;
+  /** Last pattern sent to the driver, for patterns that follow it */
+  private current: { pattern: number[]; startedAt: number } | null = null;
+
+  /**
+   * @param driver - Vibration output
+   * @param now - Clock in ms (defaults to performance.now)
+   */
+  constructor(
+    driver: HapticsDriver = createVibrationDriver(),
+    now: () => number = () => performance.now()
+  ) {
+    this.driver = driver;
+    this.now = now;
+  }
+
+  /** True if the device can vibrate at all */
+  isSupported(): boolean {
+    return this.driver.isSupported();
+  }
+
+  /**
+   * Set intensity (0-100). 0 turns haptics off.
+   */
+  setIntensity(intensity: number): void {
+    this.intensity = Math.max(0, Math.min(100, intensity));
+    if (this.intensity === 0) {
+      this.stop();
+    }
+  }
+
+  getIntensity(): number {
+    return this.intensity;
+  }
+
+  /**
+   * Turn haptics on or off regardless of intensity (reduced motion).
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Play a pattern. A new pattern replaces one still playing, unless
+   * `follow` is set.
+   */
+  play(name: HapticName, options?: HapticOptions): void {
+    if (!this.enabled || this.intensity === 0 || !this.driver.isSupported()) return;
+
+    const pattern = name === 'combo'
+      ? COMBO_PATTERNS[Math.max(1, Math.min(COMBO_PATTERNS.length, options?.tier ?? 1)) - 1]
+      : HAPTIC_PATTERNS[name];
+    if (!pattern) return;
+
+    const now = this.now();
+    let next = scalePattern(pattern, this.intensity);
+    if (options?.follow && this.current) {
+      const rest = remainingPattern(this.current.pattern, now - this.current.startedAt);
+      if (rest.length > 0) next = [...rest, FOLLOW_GAP_MS, ...next];
+    }
+
+    this.current = { pattern: next, startedAt: now };
+    this.driver.vibrate(next);
+  }
+
+  /** Cancel any pattern in progress */
+  stop(): void {
+    this.current = null;
+    if (this.driver.isSupported()) {
+      this.driver.cancel();
+    }
+  }
+}
+
+// Singleton instance
+let instance: HapticsManager | null = null;
+
+/**
+ * Get the HapticsManager singleton instance.
+ */
+export function getHapticsManager(): HapticsManager {
+  if (!instance) {
+    instance = new HapticsManager();
+  }
+  return instance;
+}
+
+/**
+ * Reset the HapticsManager (for testing or hot reload).
+ * @param driver - Driver for the next instance (defaults to the Vibration API)
+ */
+export function resetHapticsManager(driver?: HapticsDriver): void {
+  instance?.stop();
+  instance = driver ? new HapticsManager(driver) : null;
+}
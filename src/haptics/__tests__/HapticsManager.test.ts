@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  HapticsManager,
+  HAPTIC_PATTERNS,
+  COMBO_PATTERNS,
+  getComboTier,
+  remainingPattern,
+  scalePattern,
+  createVibrationDriver,
+} from '../HapticsManager';
+import type { HapticsDriver } from '../HapticsManager';
+
+/** Driver that records what it was asked to do */
+function createMockDriver(supported = true) {
+  const calls: number[][] = [];
+  let cancels = 0;
+  const driver: HapticsDriver = {
+    isSupported: () => supported,
+    vibrate: (pattern) => {
+      calls.push(pattern);
+    },
+    cancel: () => {
+      cancels++;
+    },
+  };
+  return { driver, calls, cancelCount: () => cancels };
+}
+
+describe('haptics', () => {
+  describe('scalePattern', () => {
+    it('scales vibrate steps but not pauses', () => {
+      expect(scalePattern([20, 30, 10], 50)).toEqual([10, 30, 5]);
+    });
+
+    it('keeps pulses long enough to feel', () => {
+      expect(scalePattern([8], 10)).toEqual([4]);
+    });
+
+    it('plays patterns unchanged at full intensity', () => {
+      expect(scalePattern(HAPTIC_PATTERNS.gameover, 100)).toEqual([...HAPTIC_PATTERNS.gameover]);
+    });
+  });
+
+  describe('remainingPattern', () => {
+    it('trims the part already played', () => {
+      expect(remainingPattern([20, 30, 10], 0)).toEqual([20, 30, 10]);
+      expect(remainingPattern([20, 30, 10], 5)).toEqual([15, 30, 10]);
+    });
+
+    it('keeps a vibrate step first when stopped mid-pause', () => {
+      expect(remainingPattern([20, 30, 10], 30)).toEqual([0, 20, 10]);
+    });
+
+    it('is empty once the pattern has finished', () => {
+      expect(remainingPattern([20, 30, 10], 60)).toEqual([]);
+    });
+  });
+
+  describe('getComboTier', () => {
+    it('climbs with the streak', () => {
+      expect([2, 3, 4, 5, 6, 10].map(getComboTier)).toEqual([1, 1, 2, 2, 3, 3]);
+    });
+  });
+
+  describe('HapticsManager', () => {
+    let mock: ReturnType<typeof createMockDriver>;
+    let haptics: HapticsManager;
+    let time: number;
+
+    beforeEach(() => {
+      mock = createMockDriver();
+      time = 0;
+      haptics = new HapticsManager(mock.driver, () => time);
+      haptics.setIntensity(100);
+    });
+
+    it('plays a distinct pattern per event', () => {
+      haptics.play('place');
+      haptics.play('slice');
+      haptics.play('perfect');
+      haptics.play('gameover');
+
+      expect(mock.calls).toEqual([
+        [...HAPTIC_PATTERNS.place],
+        [...HAPTIC_PATTERNS.slice],
+        [...HAPTIC_PATTERNS.perfect],
+        [...HAPTIC_PATTERNS.gameover],
+      ]);
+      expect(new Set(mock.calls.map((c) => c.join()))).toHaveProperty('size', 4);
+    });
+
+    it('plays a following pattern after the one in progress', () => {
+      haptics.play('place');
+      time = 5;
+      haptics.play('slice', { follow: true });
+
+      expect(mock.calls[1]).toEqual([7, 40, ...HAPTIC_PATTERNS.slice]);
+    });
+
+    it('plays a following pattern at once when nothing is playing', () => {
+      haptics.play('place');
+      time = 500;
+      haptics.play('perfect', { follow: true });
+
+      expect(mock.calls[1]).toEqual([...HAPTIC_PATTERNS.perfect]);
+    });
+
+    it('picks combo patterns by tier and clamps the tier', () => {
+      haptics.play('combo', { tier: 2 });
+      haptics.play('combo', { tier: 9 });
+      haptics.play('combo');
+
+      expect(mock.calls).toEqual([
+        [...(COMBO_PATTERNS[1] ?? [])],
+        [...(COMBO_PATTERNS[2] ?? [])],
+        [...(COMBO_PATTERNS[0] ?? [])],
+      ]);
+    });
+
+    it('scales patterns by intensity', () => {
+      haptics.setIntensity(50);
+      haptics.play('slice');
+
+      expect(mock.calls).toEqual([scalePattern(HAPTIC_PATTERNS.slice, 50)]);
+    });
+
+    it('is silent at zero intensity', () => {
+      haptics.setIntensity(0);
+      haptics.play('perfect');
+
+      expect(mock.calls).toHaveLength(0);
+      expect(mock.cancelCount()).toBe(1);
+    });
+
+    it('is silent and cancels when disabled', () => {
+      haptics.setEnabled(false);
+      haptics.play('perfect');
+
+      expect(mock.calls).toHaveLength(0);
+      expect(mock.cancelCount()).toBe(1);
+
+      haptics.setEnabled(true);
+      haptics.play('perfect');
+      expect(mock.calls).toHaveLength(1);
+    });
+
+    it('does nothing on devices without vibration', () => {
+      const unsupported = createMockDriver(false);
+      const manager = new HapticsManager(unsupported.driver);
+
+      manager.play('gameover');
+      manager.stop();
+
+      expect(manager.isSupported()).toBe(false);
+      expect(unsupported.calls).toHaveLength(0);
+      expect(unsupported.cancelCount()).toBe(0);
+    });
+  });
+
+  describe('createVibrationDriver', () => {
+    it('reports no support outside a browser', () => {
+      expect(createVibrationDriver().isSupported()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventBus } from '@/core/events';
+import type { GameEventMap } from '@/core/events';
+import { bindHaptics } from '../bindHaptics';
+import type { HapticName, HapticOptions } from '../HapticsManager';
+
+describe('bindHaptics', () => {
+  let events: EventBus<GameEventMap>;
+  let played: { name: HapticName; options: HapticOptions | undefined }[];
+  let unbind: () => void;
+
+  /** Emit an event with only the fields the bindings read */
+  function emit<K extends keyof GameEventMap>(type: K, fields: Partial<GameEventMap[K]> = {}) {
+    events.emit(type, { isReplay: false, ...fields } as GameEventMap[K]);
+  }
+
+  beforeEach(() => {
+    events = new EventBus<GameEventMap>();
+    played = [];
+    unbind = bindHaptics(events, {
+      play: (name, options) => {
+        played.push({ name, options });
+      },
+    });
+  });
+
+  it('taps on every placement, then plays the slice after it', () => {
+    emit('placed');
+    emit('sliced');
+
+    expect(played).toEqual([
+      { name: 'place', options: undefined },
+      { name: 'slice', options: { follow: true } },
+    ]);
+  });
+
+  it('plays a perfect after the tap, and a combo in its place', () => {
+    emit('placed');
+    emit('perfect');
+    emit('comboReached', { streak: 4 });
+
+    expect(played.map(({ name }) => name)).toEqual(['place', 'perfect', 'combo']);
+    expect(played[1]?.options).toEqual({ follow: true });
+    expect(played[2]?.options).toEqual({ tier: 2 });
+  });
+
+  it('rumbles on game over', () => {
+    emit('gameOver');
+
+    expect(played.map(({ name }) => name)).toEqual(['gameover']);
+  });
+
+  it('stays silent during replays', () => {
+    emit('placed', { isReplay: true });
+    emit('sliced', { isReplay: true });
+    emit('perfect', { isReplay: true });
+    emit('comboReached', { isReplay: true, streak: 6 });
+    emit('gameOver', { isReplay: true });
+
+    expect(played).toHaveLength(0);
+  });
+
+  it('stops listening when unbound', () => {
+    unbind();
+    emit('placed');
+
+    expect(played).toHaveLength(0);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Maps game events to haptic patterns. Kept out of the hook so the
+ * mapping is tested against a plain EventBus.
+ */
+
+import type { EventBus, GameEventMap } from '@/core/events';
+import { getComboTier } from './HapticsManager';
+import type { HapticsManager } from './HapticsManager';
+
+/**
+ * Vibrate on placement events until the returned function is called.
+ * Replays stay silent.
+ */
+export function bindHaptics(
+  events: EventBus<GameEventMap>,
+  haptics: Pick<HapticsManager, 'play'>
+): () => void {
+  const unsubscribers = [
+    // Every landing taps; a slice or perfect plays after the tap
+    events.on('placed', ({ isReplay }) => {
+      if (!isReplay) haptics.play('place');
+    }),
+    events.on('sliced', ({ isReplay }) => {
+      if (!isReplay) haptics.play('slice', { follow: true });
+    }),
+    events.on('perfect', ({ isReplay }) => {
+      if (!isReplay) haptics.play('perfect', { follow: true });
+    }),
+    // Fires right after 'perfect' and replaces the tap and its pattern
+    events.on('comboReached', ({ isReplay, streak }) => {
+      if (!isReplay) haptics.play('combo', { tier: getComboTier(streak) });
+    }),
+    events.on('gameOver', ({ isReplay }) => {
+      if (!isReplay) haptics.play('gameover');
+    }),
+  ];
+
+  return () => {
+    unsubscribers.forEach((unsubscribe) => {
+      unsubscribe();
+    });
+  };
+}
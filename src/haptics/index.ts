@@ -0,0 +1,13 @@
+/**
+ * Haptics System - Public API
+ */
+
+export {
+  getHapticsManager,
+  resetHapticsManager,
+  createVibrationDriver,
+  getComboTier,
+  HapticsManager,
+} from './HapticsManager';
+export { bindHaptics } from './bindHaptics';
+export type { HapticName, HapticOptions, HapticsDriver } from './HapticsManager';
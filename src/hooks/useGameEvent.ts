@@ -0,0 +1,23 @@
+/**
+ * Subscribe a component to a game event for as long as it is mounted.
+ */
+
+import { useEffect, useRef } from 'react';
+import type { GameEventMap, GameEventType } from '@/core/events';
+import { gameEvents } from '@/state/gameEvents';
+
+export function useGameEvent<K extends GameEventType>(
+  type: K,
+  listener: (event: GameEventMap[K]) => void
+) {
+  // Keep the latest listener without resubscribing on every render
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(
+    () => gameEvents.on(type, (event) => {
+      listenerRef.current(event);
+    }),
+    [type]
+  );
+}
@@ -6,22 +6,37 @@
 import { useRef, useCallback } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { useGameStore } from '@/state/gameStore';
+import { FIXED_TIMESTEP_MS } from '@/core/simulation';
+import { useReplayStore } from '@/state/replayStore';
+import { useHitStop } from './useHitStop';
 
-const FIXED_TIMESTEP_MS = 16; // ~60 updates per second
 const MAX_DELTA_MS = 100; // Cap to prevent spiral of death
 
 export function useGameLoop() {
   const accumulatorRef = useRef(0);
   const tick = useGameStore((state) => state.tick);
   const cleanupFallingPieces = useGameStore((state) => state.cleanupFallingPieces);
+  const syncClock = useGameStore((state) => state.syncClock);
   const phase = useGameStore((state) => state.phase);
+  const isReplay = useGameStore((state) => state.isReplay);
+  const replaySpeed = useReplayStore((state) => state.speed);
+  const replayPaused = useReplayStore((state) => state.paused);
+  const { stepHitStop } = useHitStop();
 
   useFrame((_state, delta) => {
-    if (phase !== 'playing') return;
+    if (phase !== 'playing') {
+      // Game time is frozen, so a press starting the next run maps to its start
+      syncClock(performance.now());
+      return;
+    }
+    if (isReplay && replayPaused) return;
 
-    // Convert to milliseconds and cap
+    // Convert to milliseconds and cap; replays scale time, not the step size
     const deltaMs = Math.min(delta * 1000, MAX_DELTA_MS);
-    accumulatorRef.current += deltaMs;
+    const speed = isReplay ? replaySpeed : 1;
+
+    // Hit-stop holds the accumulator, so impacts freeze without losing determinism
+    accumulatorRef.current += deltaMs * speed * stepHitStop();
 
     // Process fixed timesteps
     while (accumulatorRef.current >= FIXED_TIMESTEP_MS) {
@@ -29,6 +44,9 @@ export function useGameLoop() {
       accumulatorRef.current -= FIXED_TIMESTEP_MS;
     }
 
+    // Game time trails the frame by whatever is left in the accumulator
+    syncClock(performance.now() - accumulatorRef.current / speed);
+
     // Cleanup old falling pieces periodically
     cleanupFallingPieces();
   });
@@ -0,0 +1,18 @@
+/**
+ * Whether a gamepad is connected, for showing controller hints.
+ */
+
+import { useEffect, useState } from 'react';
+import { inputManager } from '@/game/Input';
+
+export function useGamepadConnected(): boolean {
+  const [connected, setConnected] = useState(() => inputManager.hasGamepad());
+
+  useEffect(() => {
+    // A pad may have connected between render and subscribe
+    setConnected(inputManager.hasGamepad());
+    return inputManager.onGamepadChange(setConnected);
+  }, []);
+
+  return connected;
+}
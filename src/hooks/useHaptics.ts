@@ -0,0 +1,26 @@
+/**
+ * Haptic feedback hook.
+ * Keeps the HapticsManager in sync with settings and vibrates on
+ * placement events. Replays stay silent.
+ */
+
+import { useEffect } from 'react';
+import { useSettingsStore } from '@/state/settingsStore';
+import { gameEvents } from '@/state/gameEvents';
+import { bindHaptics, getHapticsManager } from '@/haptics';
+
+export function useHaptics() {
+  const hapticIntensity = useSettingsStore((state) => state.hapticIntensity);
+  const reducedMotion = useSettingsStore((state) => state.reducedMotion);
+
+  useEffect(() => {
+    getHapticsManager().setIntensity(hapticIntensity);
+  }, [hapticIntensity]);
+
+  // Vibration is motion - reduced motion turns it off
+  useEffect(() => {
+    getHapticsManager().setEnabled(!reducedMotion);
+  }, [reducedMotion]);
+
+  useEffect(() => bindHaptics(gameEvents, getHapticsManager()), []);
+}
@@ -0,0 +1,24 @@
+/**
+ * HitStop state hook.
+ * Gives the game loop a per-frame time scale from the HitStop controller
+ * and drops any hold left over when a run stops.
+ */
+
+import { useEffect, useCallback } from 'react';
+import { useGameStore } from '@/state/gameStore';
+import { getHitStop } from '@/game/juice';
+
+export function useHitStop() {
+  const phase = useGameStore((state) => state.phase);
+
+  useEffect(() => {
+    if (phase !== 'playing') {
+      getHitStop().reset();
+    }
+  }, [phase]);
+
+  // Consumes a frozen frame per call: 0 = frozen, 1 = normal
+  const stepHitStop = useCallback(() => getHitStop().step(), []);
+
+  return { stepHitStop };
+}
@@ -6,21 +6,36 @@
 import { useEffect, useCallback } from 'react';
 import { useGameStore } from '@/state/gameStore';
 import { useVisualStore } from '@/state/visualStore';
+import { useSettingsStore } from '@/state/settingsStore';
 import { inputManager } from '@/game/Input';
 
 export function useInput() {
   const phase = useGameStore((state) => state.phase);
   const startGame = useGameStore((state) => state.startGame);
   const dropBlock = useGameStore((state) => state.dropBlock);
+  const rewindDrop = useGameStore((state) => state.rewindDrop);
+  const isReplay = useGameStore((state) => state.isReplay);
   const setVariant = useVisualStore((state) => state.setVariant);
+  const cycleVariant = useVisualStore((state) => state.cycleVariant);
+  const keyBindings = useSettingsStore((state) => state.keyBindings);
+  const inputOffsetMs = useSettingsStore((state) => state.inputOffsetMs);
+  const toggleMuted = useSettingsStore((state) => state.toggleMuted);
 
-  const handleAction = useCallback(() => {
+  const handleAction = useCallback((pressedAt: number) => {
     if (phase === 'idle' || phase === 'gameover') {
       startGame();
-    } else if (phase === 'playing') {
-      dropBlock();
+    } else if (phase === 'playing' && !isReplay) {
+      // Replays are driven by the input log, not the player.
+      // The calibration offset takes out the player's measured latency.
+      dropBlock(pressedAt - inputOffsetMs);
     }
-  }, [phase, startGame, dropBlock]);
+  }, [phase, isReplay, inputOffsetMs, startGame, dropBlock]);
+
+  const handleRewind = useCallback(() => {
+    if (phase === 'playing' && !isReplay) {
+      rewindDrop();
+    }
+  }, [phase, isReplay, rewindDrop]);
 
   useEffect(() => {
     // Initialize the input manager
@@ -29,14 +44,26 @@ export function useInput() {
     // Register game action callback
     inputManager.onDropRequested(handleAction);
 
+    // Register rewind callback
+    inputManager.onRewindRequested(handleRewind);
+
     // Register variant switch callback
     inputManager.onVariantSwitch(setVariant);
+    inputManager.onVariantCycle(cycleVariant);
+
+    // Register mute shortcut
+    inputManager.onMuteToggle(toggleMuted);
 
     return () => {
       // Don't destroy on unmount - just update callbacks
       // The manager persists across re-renders
     };
-  }, [handleAction, setVariant]);
+  }, [handleAction, handleRewind, setVariant, cycleVariant, toggleMuted]);
+
+  // Keep the manager's key map in sync with settings
+  useEffect(() => {
+    inputManager.setKeyBindings(keyBindings);
+  }, [keyBindings]);
 
   // Also expose for programmatic use if needed
   return { handleAction };
@@ -0,0 +1,56 @@
+/**
+ * Music library hook.
+ * Loads user tracks from IndexedDB, drops playlist entries whose files
+ * are gone, and keeps the MusicManager's playlist and playback mode in
+ * sync with settings.
+ */
+
+import { useEffect, useState } from 'react';
+import { useSettingsStore } from '@/state/settingsStore';
+import {
+  BUILTIN_TRACKS,
+  getMusicManager,
+  getUserTrackUrl,
+  loadUserTracks,
+  type MusicTrack,
+} from '@/audio';
+
+export function useMusicLibrary() {
+  const playlist = useSettingsStore((state) => state.playlist);
+  const playbackMode = useSettingsStore((state) => state.playbackMode);
+  const prunePlaylist = useSettingsStore((state) => state.prunePlaylist);
+  const [libraryLoaded, setLibraryLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadUserTracks()
+      .then((tracks) => {
+        if (cancelled) return;
+        prunePlaylist(tracks.map((track) => track.id));
+        setLibraryLoaded(true);
+      })
+      .catch((err: unknown) => {
+        // No IndexedDB (e.g. private browsing): bundled tracks still play
+        console.warn('[MUSIC] Failed to load music library:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [prunePlaylist]);
+
+  useEffect(() => {
+    const tracks: MusicTrack[] = [];
+    for (const entry of playlist) {
+      if (!entry.enabled) continue;
+      const url =
+        BUILTIN_TRACKS.find((track) => track.id === entry.id)?.url ?? getUserTrackUrl(entry.id);
+      // User tracks have no URL until the library has loaded
+      if (url) tracks.push({ id: entry.id, name: entry.name, url });
+    }
+    getMusicManager().setPlaylist(tracks);
+  }, [playlist, libraryLoaded]);
+
+  useEffect(() => {
+    getMusicManager().setPlaybackMode(playbackMode);
+  }, [playbackMode]);
+}
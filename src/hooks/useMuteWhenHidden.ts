@@ -0,0 +1,32 @@
+/**
+ * Background mute hook.
+ * Silences all audio while the tab is hidden (when enabled in settings)
+ * and restores it on return. Separate from the player's mute toggle.
+ */
+
+import { useEffect } from 'react';
+import { useSettingsStore } from '@/state/settingsStore';
+import { getAudioManager } from '@/audio';
+
+export function useMuteWhenHidden() {
+  const muteWhenHidden = useSettingsStore((state) => state.muteWhenHidden);
+
+  useEffect(() => {
+    const audioManager = getAudioManager();
+    if (!muteWhenHidden) {
+      audioManager.setBackgroundMuted(false);
+      return;
+    }
+
+    const handleVisibilityChange = () => {
+      audioManager.setBackgroundMuted(document.hidden);
+    };
+
+    handleVisibilityChange();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [muteWhenHidden]);
+}
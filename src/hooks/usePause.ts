@@ -0,0 +1,42 @@
+/**
+ * Pause handling hook.
+ * Auto-pauses a run when the tab is hidden or the window loses focus,
+ * and ticks the resume countdown once a second.
+ */
+
+import { useEffect } from 'react';
+import { useGameStore } from '@/state/gameStore';
+
+export function usePause() {
+  const resumeCountdown = useGameStore((state) => state.resumeCountdown);
+  const pauseGame = useGameStore((state) => state.pauseGame);
+  const stepResumeCountdown = useGameStore((state) => state.stepResumeCountdown);
+
+  useEffect(() => {
+    // pauseGame ignores anything but a live run
+    const handleVisibilityChange = () => {
+      if (document.hidden) pauseGame('hidden');
+    };
+    const handleBlur = () => {
+      pauseGame('blur');
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [pauseGame]);
+
+  // One step per second until the run resumes
+  useEffect(() => {
+    if (resumeCountdown <= 0) return;
+
+    const timer = setTimeout(stepResumeCountdown, 1000);
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [resumeCountdown, stepResumeCountdown]);
+}
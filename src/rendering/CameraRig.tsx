@@ -2,12 +2,16 @@
  * Camera controller that smoothly follows the stack height.
  * Both position and lookAt target are interpolated for smooth movement.
  * On idle launch screen and game over, slowly zooms out and orbits around the structure.
+ * Camera shake from the juice system is added on top of the rig's position.
+ * The audio listener rides along, so spatial SFX pan relative to the view.
  */
 
 import { useRef } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import { useGameStore } from '@/state/gameStore';
 import { GAME_CONSTANTS } from '@/core/types';
+import { getCameraShake } from '@/game/juice';
+import { getAudioManager } from '@/audio';
 import * as THREE from 'three';
 
 const CAMERA_DISTANCE = 12;
@@ -20,6 +24,9 @@ const GAMEOVER_ZOOM_OUT_DISTANCE = 20;  // How far to zoom out
 const GAMEOVER_LERP = 0.008;  // Very slow transition for dramatic effect
 const GAMEOVER_ORBIT_SPEED = 0.15;  // Radians per second for slow orbit
 
+// Reused each frame for the listener's facing
+const listenerForward = new THREE.Vector3();
+
 export function CameraRig() {
   const { camera } = useThree();
   const currentPosY = useRef(CAMERA_HEIGHT_OFFSET);
@@ -96,6 +103,21 @@ export function CameraRig() {
       camera.position.set(CAMERA_DISTANCE, currentPosY.current, CAMERA_DISTANCE);
       camera.lookAt(0, currentLookAtY.current, 0);
     }
+
+    // Shake after lookAt so it jolts the view instead of re-aiming it
+    const shake = getCameraShake();
+    // A paused run holds the shake where it is, like the rest of the scene
+    if (phase !== 'paused') {
+      shake.update(delta * 1000);
+    }
+    if (shake.active) {
+      camera.position.x += shake.offset.x;
+      camera.position.y += shake.offset.y;
+      camera.position.z += shake.offset.z;
+    }
+
+    camera.getWorldDirection(listenerForward);
+    getAudioManager().updateListener(camera.position, listenerForward, camera.up);
   });
 
   return null;
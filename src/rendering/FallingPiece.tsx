@@ -9,6 +9,7 @@ import { useFrame } from '@react-three/fiber';
 import type { FallingPiece as FallingPieceType } from '@/core/types';
 import { GAME_CONSTANTS } from '@/core/types';
 import { useSettingsStore } from '@/state/settingsStore';
+import { useGameStore } from '@/state/gameStore';
 import { VFX_CONFIG } from '@/game/vfx';
 import * as THREE from 'three';
 
@@ -49,6 +50,8 @@ export function FallingPiece({ piece }: FallingPieceProps) {
 
   useFrame((_, delta) => {
     if (!meshRef.current || !materialRef.current) return;
+    // Pieces hang in the air while the game is paused
+    if (useGameStore.getState().phase === 'paused') return;
 
     // Track elapsed time for emissive fade
     const deltaMs = delta * 1000;
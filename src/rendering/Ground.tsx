@@ -1,28 +1,80 @@
 /**
  * Ground - Simple grid using drei Grid component with theme colors.
+ * Brightens on placements (grid pulse) and drifts against the moving
+ * block (grid motion), both driven by the juice system.
  */
 
+import { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
 import { Grid } from '@react-three/drei';
+import type * as THREE from 'three';
 import { useSettingsStore } from '@/state/settingsStore';
+import { useGameStore } from '@/state/gameStore';
+import { getGridPulse, getGridMotion, isJuiceEnabled } from '@/game/juice';
+
+/**
+ * Scale a grid color uniform by the pulse, starting from the theme color.
+ */
+function applyPulse(material: THREE.ShaderMaterial, name: string, base: string, boost: number): void {
+  const uniform = material.uniforms[name];
+  if (!uniform) return;
+  (uniform.value as THREE.Color).set(base).multiplyScalar(1 + boost);
+}
 
 export function Ground() {
   const theme = useSettingsStore((state) => state.theme);
+  const groupRef = useRef<THREE.Group>(null);
+  const gridRef = useRef<THREE.Mesh>(null);
+  const lastPulseRef = useRef(0);
+
+  useFrame((_, delta) => {
+    const deltaMs = delta * 1000;
+    const pulse = getGridPulse();
+    const motion = getGridMotion();
+
+    // Read the store directly - this runs every frame
+    const { currentBlock, phase } = useGameStore.getState();
+
+    // Pulse and parallax hold while paused, like the rest of the scene
+    if (phase === 'paused') return;
+
+    pulse.update(deltaMs);
+    const follow = isJuiceEnabled() && phase === 'playing' ? currentBlock : null;
+    motion.update(follow ? follow.position : null, deltaMs);
+
+    if (groupRef.current) {
+      groupRef.current.position.x = motion.offset.x;
+      groupRef.current.position.z = motion.offset.z;
+    }
+
+    // Only touch the uniforms while pulsing or settling back to rest
+    const intensity = pulse.intensity;
+    if (gridRef.current && (intensity > 0 || lastPulseRef.current > 0)) {
+      const material = gridRef.current.material as THREE.ShaderMaterial;
+      applyPulse(material, 'cellColor', theme.gridCell, intensity);
+      applyPulse(material, 'sectionColor', theme.gridSection, intensity);
+    }
+    lastPulseRef.current = intensity;
+  });
 
   return (
-    <Grid
-      position={[0, -0.25, 0]}
-      args={[50, 50]}
-      cellSize={1}
-      cellThickness={0.8}
-      cellColor={theme.gridCell}
-      sectionSize={5}
-      sectionThickness={1.5}
-      sectionColor={theme.gridSection}
-      fadeDistance={40}
-      fadeStrength={1}
-      followCamera={false}
-      infiniteGrid={false}
-      side={2}
-    />
+    <group ref={groupRef}>
+      <Grid
+        ref={gridRef}
+        position={[0, -0.25, 0]}
+        args={[50, 50]}
+        cellSize={1}
+        cellThickness={0.8}
+        cellColor={theme.gridCell}
+        sectionSize={5}
+        sectionThickness={1.5}
+        sectionColor={theme.gridSection}
+        fadeDistance={40}
+        fadeStrength={1}
+        followCamera={false}
+        infiniteGrid={false}
+        side={2}
+      />
+    </group>
   );
 }
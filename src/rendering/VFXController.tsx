@@ -1,16 +1,48 @@
 /**
  * VFX Controller
  * React component that integrates VFX and Audio systems with the R3F scene.
- * Handles initialization, updates, theme changes, and game events.
+ * Handles initialization, updates, theme changes, and reacts to game events
+ * from the `gameEvents` bus.
  */
 
 import { useEffect, useRef } from 'react';
 import { useThree, useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { getVFXManager, resetVFXManager } from '@/game/vfx';
-import { getAudioManager, getMusicManager } from '@/audio';
+import { getAudioManager, getMusicManager, MIXER_CHANNELS } from '@/audio';
+import type { PlayOptions } from '@/audio';
+import { triggerJuice, setJuiceEnabled, resetJuice } from '@/game/juice';
 import { useSettingsStore } from '@/state/settingsStore';
 import { useGameStore } from '@/state/gameStore';
+import { gameEvents } from '@/state/gameEvents';
+import type { Block } from '@/core/types';
+import type { CutLine } from '@/core/geometry';
+import { getCutLine } from '@/core/geometry';
+import type { SlicePayload } from '@/game/vfx';
+
+function toVector3({ x, y, z }: { x: number; y: number; z: number }): THREE.Vector3 {
+  return new THREE.Vector3(x, y, z);
+}
+
+function toSlicePayload(cut: CutLine): SlicePayload {
+  return {
+    cutPosition: toVector3(cut.center),
+    cutLength: cut.length,
+    axis: cut.axis,
+    cutY: cut.center.y,
+  };
+}
+
+function blockSize(block: Block): THREE.Vector3 {
+  return toVector3(block.dimensions);
+}
+
+/** Key and beat snapping for musical SFX, from settings and the music */
+function getSfxTuning(): PlayOptions {
+  const { sfxKey, sfxQuantize } = useSettingsStore.getState();
+  const key = sfxKey === 'auto' ? getMusicManager().key ?? 'A' : sfxKey;
+  return { key, quantize: sfxQuantize };
+}
 
 export function VFXController() {
   const { scene } = useThree();
@@ -23,22 +55,17 @@ export function VFXController() {
   const theme = useSettingsStore((state) => state.theme);
 
   // Get volume settings for audio
+  const masterVolume = useSettingsStore((state) => state.masterVolume);
+  const muted = useSettingsStore((state) => state.muted);
   const sfxVolume = useSettingsStore((state) => state.sfxVolume);
+  const sfxLevels = useSettingsStore((state) => state.sfxLevels);
   const musicVolume = useSettingsStore((state) => state.musicVolume);
+  const musicSource = useSettingsStore((state) => state.musicSource);
+  const stereoWidth = useSettingsStore((state) => state.stereoWidth);
+  const monoAudio = useSettingsStore((state) => state.monoAudio);
 
-  // Get game state for event detection
-  const phase = useGameStore((state) => state.phase);
-  const lastPerfectHit = useGameStore((state) => state.lastPerfectHit);
-  const perfectStreak = useGameStore((state) => state.perfectStreak);
-  const blocks = useGameStore((state) => state.blocks);
-  const fallingPieces = useGameStore((state) => state.fallingPieces);
-
-  // Track previous state for change detection
-  const prevPhaseRef = useRef(phase);
-  const prevBlockCountRef = useRef(blocks.length);
-  const prevFallingCountRef = useRef(fallingPieces.length);
-  const prevLastPerfectRef = useRef(lastPerfectHit);
-  const prevPerfectStreakRef = useRef(perfectStreak);
+  // Juice (shake, hit-stop, grid pulse) is motion - off when reduced
+  const reducedMotion = useSettingsStore((state) => state.reducedMotion);
 
   // Initialize VFX manager once
   useEffect(() => {
@@ -63,10 +90,24 @@ export function VFXController() {
   }, [theme.emissive, vfxManager]);
 
   // Sync audio volumes with settings
+  useEffect(() => {
+    audioManager.setMasterVolume(masterVolume);
+  }, [masterVolume, audioManager]);
+
+  useEffect(() => {
+    audioManager.setMuted(muted);
+  }, [muted, audioManager]);
+
   useEffect(() => {
     audioManager.setSfxVolume(sfxVolume);
   }, [sfxVolume, audioManager]);
 
+  useEffect(() => {
+    for (const { channel } of MIXER_CHANNELS) {
+      audioManager.setSfxLevel(channel, sfxLevels[channel]);
+    }
+  }, [sfxLevels, audioManager]);
+
   useEffect(() => {
     audioManager.setMusicVolume(musicVolume);
   }, [musicVolume, audioManager]);
@@ -76,139 +117,115 @@ export function VFXController() {
     musicManager.setVolume(musicVolume / 100);
   }, [musicVolume, musicManager]);
 
-  // Detect game events and trigger VFX + Audio
   useEffect(() => {
-    // Game over detection
-    if (prevPhaseRef.current === 'playing' && phase === 'gameover') {
-      const topBlock = blocks[blocks.length - 1];
-      const stackHeight = topBlock
-        ? topBlock.position.y + topBlock.dimensions.y / 2
-        : 0;
-      vfxManager.onGameOver({ stackHeight });
-      audioManager.play('gameover');
-      musicManager.stop();
-    }
+    musicManager.setSource(musicSource);
+  }, [musicSource, musicManager]);
 
-    // Game restart detection (from gameover)
-    if (prevPhaseRef.current === 'gameover' && phase === 'playing') {
-      vfxManager.onRestart();
-      musicManager.startLoop();
-    }
+  useEffect(() => {
+    audioManager.setStereoWidth(stereoWidth);
+  }, [stereoWidth, audioManager]);
 
-    // Game start from idle
-    if (prevPhaseRef.current === 'idle' && phase === 'playing') {
-      vfxManager.onRestart();
-      musicManager.startLoop();
-    }
+  useEffect(() => {
+    audioManager.setMonoAudio(monoAudio);
+  }, [monoAudio, audioManager]);
 
-    prevPhaseRef.current = phase;
-  }, [phase, blocks, vfxManager, audioManager, musicManager]);
+  useEffect(() => {
+    setJuiceEnabled(!reducedMotion);
+  }, [reducedMotion]);
 
-  // Unified placement detection - triggers on blocks.length increase
-  // This handles both perfect and slice placements
+  // React to game events with VFX + Audio + Juice
   useEffect(() => {
-    const newBlockCount = blocks.length;
-    const prevBlockCount = prevBlockCountRef.current;
-    const newPieceCount = fallingPieces.length;
-    const prevPieceCount = prevFallingCountRef.current;
-
-    // A new block was successfully placed
-    const blockPlaced = newBlockCount > prevBlockCount && newBlockCount > 1;
-
-    if (blockPlaced) {
-      const topBlock = blocks[blocks.length - 1];
-
-      if (topBlock) {
-        // Check what type of placement this was
-        const sliceOccurred = newPieceCount > prevPieceCount;
-
-        if (lastPerfectHit) {
-          // PERFECT PLACEMENT - no slice, full overlap
-          vfxManager.onPerfect({
-            position: new THREE.Vector3(
-              topBlock.position.x,
-              topBlock.position.y,
-              topBlock.position.z
-            ),
-            size: new THREE.Vector3(
-              topBlock.dimensions.x,
-              topBlock.dimensions.y,
-              topBlock.dimensions.z
-            ),
-            topY: topBlock.position.y + topBlock.dimensions.y / 2,
+    const unsubscribers = [
+      gameEvents.on('restart', () => {
+        vfxManager.onRestart();
+        resetJuice();
+        musicManager.resetMood();
+        musicManager.setHeight(0);
+        musicManager.startLoop();
+      }),
+
+      gameEvents.on('gameOver', ({ stackHeight }) => {
+        vfxManager.onGameOver({ stackHeight });
+        // The rumble comes from the foot of the tower
+        audioManager.play('gameover', { position: { x: 0, y: 0, z: 0 } });
+        musicManager.muffle();
+      }),
+
+      // Every landing pumps the music; the streak sets how open it sounds
+      gameEvents.on('placed', ({ height }) => {
+        musicManager.setStreak(useGameStore.getState().perfectStreak);
+        musicManager.setHeight(height);
+        musicManager.duck();
+      }),
+
+      gameEvents.on('perfect', ({ block, axis, streak, regrowth }) => {
+        vfxManager.onPerfect({
+          position: toVector3(block.position),
+          size: blockSize(block),
+          topY: block.position.y + block.dimensions.y / 2,
+          streak,
+        });
+        // Each perfect in a streak plays the next note up the scale
+        audioManager.play('perfect', { ...getSfxTuning(), step: streak - 1 });
+        triggerJuice('perfect');
+
+        // Streak regrowth - the block grew along the axis it was dropped on
+        if (regrowth > 0) {
+          vfxManager.onRegrow({
+            position: toVector3(block.position),
+            size: blockSize(block),
+            axis,
+            amount: regrowth,
           });
-
-          // Play perfect sound
-          audioManager.play('perfect');
-
-          // Check for combo (streak >= 2)
-          if (perfectStreak >= 2) {
-            audioManager.play('combo', { multiplier: Math.min(perfectStreak, 4) });
-          }
-        } else if (sliceOccurred) {
-          // SLICE PLACEMENT - partial overlap with overhang
-          const newPiece = fallingPieces[fallingPieces.length - 1];
-
-          if (newPiece) {
-            // Determine which axis the cut was on
-            const axis: 'x' | 'z' =
-              Math.abs(newPiece.block.position.x - topBlock.position.x) > 0.01
-                ? 'x'
-                : 'z';
-
-            // Calculate cut position
-            const cutX =
-              axis === 'x'
-                ? (topBlock.position.x +
-                    (topBlock.dimensions.x / 2) *
-                      Math.sign(newPiece.block.position.x - topBlock.position.x) +
-                    newPiece.block.position.x -
-                    (newPiece.block.dimensions.x / 2) *
-                      Math.sign(newPiece.block.position.x - topBlock.position.x)) /
-                  2
-                : topBlock.position.x;
-
-            const cutZ =
-              axis === 'z'
-                ? (topBlock.position.z +
-                    (topBlock.dimensions.z / 2) *
-                      Math.sign(newPiece.block.position.z - topBlock.position.z) +
-                    newPiece.block.position.z -
-                    (newPiece.block.dimensions.z / 2) *
-                      Math.sign(newPiece.block.position.z - topBlock.position.z)) /
-                  2
-                : topBlock.position.z;
-
-            const cutLength =
-              axis === 'x' ? topBlock.dimensions.z : topBlock.dimensions.x;
-            const cutY = topBlock.position.y + topBlock.dimensions.y / 2;
-
-            // Trigger slice VFX
-            vfxManager.onSlice({
-              cutPosition: new THREE.Vector3(cutX, cutY, cutZ),
-              cutLength,
-              axis,
-              cutY,
-            });
-
-            // Play slice + place sounds together
-            audioManager.play('place');
-            audioManager.play('slice');
-          }
+          audioManager.play('regrow');
         }
-      }
-    }
+      }),
+
+      gameEvents.on('comboReached', ({ streak }) => {
+        audioManager.play('combo', { ...getSfxTuning(), multiplier: Math.min(streak, 4) });
+      }),
+
+      gameEvents.on('sliced', ({ cut, block, fallingPiece }) => {
+        vfxManager.onSlice(toSlicePayload(cut));
+
+        // Play slice + place sounds together; the slice pans to the side
+        // the overhang fell off and the piece whooshes away from there
+        const overhang = fallingPiece.block.position;
+        audioManager.play('place', { position: block.position });
+        audioManager.play('slice', { position: overhang });
+        audioManager.play('fall', { position: overhang, velocity: fallingPiece.velocity });
+        triggerJuice('slice');
+      }),
+
+      // Pause - music fades out and holds its place
+      gameEvents.on('paused', () => {
+        musicManager.pause();
+      }),
+
+      gameEvents.on('resumed', () => {
+        void musicManager.resume();
+      }),
+
+      // Rewind - the undone slice plays back in reverse
+      gameEvents.on('rewound', ({ removed, fallen, axis }) => {
+        if (fallen) {
+          vfxManager.onRewind(toSlicePayload(getCutLine(removed, fallen, axis)));
+        }
+        audioManager.play('rewind');
+        musicManager.setStreak(useGameStore.getState().perfectStreak);
+      }),
+    ];
 
-    // Update all refs
-    prevBlockCountRef.current = newBlockCount;
-    prevFallingCountRef.current = newPieceCount;
-    prevLastPerfectRef.current = lastPerfectHit;
-    prevPerfectStreakRef.current = perfectStreak;
-  }, [blocks, fallingPieces, lastPerfectHit, perfectStreak, vfxManager, audioManager]);
+    return () => {
+      unsubscribers.forEach((unsubscribe) => {
+        unsubscribe();
+      });
+    };
+  }, [vfxManager, audioManager, musicManager]);
 
-  // Update VFX manager each frame
+  // Update VFX manager each frame (timers hold while paused)
   useFrame((_, delta) => {
-    if (initializedRef.current) {
+    if (initializedRef.current && useGameStore.getState().phase !== 'paused') {
       vfxManager.update(delta * 1000); // Convert to ms
     }
   });
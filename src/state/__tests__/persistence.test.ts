@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  migrateGameStorage,
+  appendRun,
+  sanitizeRunHistory,
+  GAME_STORAGE_VERSION,
+  MAX_RUN_HISTORY,
+} from '../persistence';
+import type { RunRecord } from '../types';
+
+function record(score: number): RunRecord {
+  return {
+    score,
+    height: 1,
+    perfectCount: 0,
+    maxStreak: 0,
+    duration: 1000,
+    date: '2025-01-01T00:00:00.000Z',
+    mode: 'classic',
+    difficulty: 'normal',
+    visualVariant: 'A',
+    themeColor: 'cyan',
+  };
+}
+
+describe('persistence', () => {
+  describe('migrateGameStorage', () => {
+    it('migrates highScore-only data from version 0', () => {
+      expect(migrateGameStorage({ highScore: 420 }, 0)).toEqual({
+        highScore: 420,
+        dailyScores: {},
+        runHistory: [],
+        bestReplay: null,
+      });
+    });
+
+    it('keeps fields written by later version 0 builds', () => {
+      const migrated = migrateGameStorage(
+        { highScore: 10, dailyScores: { '2025-01-01': 30 } },
+        0
+      );
+
+      expect(migrated.dailyScores).toEqual({ '2025-01-01': 30 });
+    });
+
+    it('tags version 1 runs with the normal difficulty', () => {
+      const { difficulty: _, ...legacyRun } = record(50);
+      const migrated = migrateGameStorage({ highScore: 50, runHistory: [legacyRun] }, 1);
+
+      expect(migrated.runHistory).toEqual([record(50)]);
+    });
+
+    it('drops replays recorded before difficulty curves', () => {
+      const replay = { seed: 1, inputs: [], score: 10, duration: 500 };
+      expect(migrateGameStorage({ highScore: 10, bestReplay: replay }, 0).bestReplay).toBeNull();
+      expect(migrateGameStorage({ highScore: 10, bestReplay: replay }, 1).bestReplay).toBeNull();
+    });
+
+    it('drops replays recorded before motion profiles', () => {
+      const replay = { seed: 1, inputs: [], score: 10, duration: 500, difficulty: 'normal' };
+      const migrated = migrateGameStorage(
+        { highScore: 10, dailyScores: {}, runHistory: [record(10)], bestReplay: replay },
+        2
+      );
+
+      expect(migrated.bestReplay).toBeNull();
+      expect(migrated.runHistory).toEqual([record(10)]);
+    });
+
+    it('drops replays recorded before streak regrowth', () => {
+      const replay = { seed: 1, inputs: [], score: 10, duration: 500, difficulty: 'normal' };
+      const migrated = migrateGameStorage(
+        { highScore: 10, dailyScores: { '2025-01-01': 10 }, runHistory: [], bestReplay: replay },
+        3
+      );
+
+      expect(migrated.bestReplay).toBeNull();
+      expect(migrated.dailyScores).toEqual({ '2025-01-01': 10 });
+    });
+
+    it('drops replays recorded before spawn-edge phasing', () => {
+      const replay = { seed: 1, inputs: [], score: 10, duration: 500, difficulty: 'normal' };
+      const migrated = migrateGameStorage(
+        { highScore: 10, dailyScores: {}, runHistory: [record(10)], bestReplay: replay },
+        4
+      );
+
+      expect(migrated.bestReplay).toBeNull();
+      expect(migrated.runHistory).toEqual([record(10)]);
+    });
+
+    it('drops replays recorded before press-time drops', () => {
+      const replay = { seed: 1, inputs: [], score: 10, duration: 500, difficulty: 'normal' };
+      const migrated = migrateGameStorage(
+        { highScore: 10, dailyScores: { '2025-01-01': 10 }, runHistory: [], bestReplay: replay },
+        5
+      );
+
+      expect(migrated.bestReplay).toBeNull();
+      expect(migrated.dailyScores).toEqual({ '2025-01-01': 10 });
+    });
+
+    it('keeps replays from the current version', () => {
+      const replay = { seed: 1, inputs: [], score: 10, duration: 500, difficulty: 'normal' };
+      const migrated = migrateGameStorage(
+        { highScore: 10, dailyScores: {}, runHistory: [], bestReplay: replay },
+        GAME_STORAGE_VERSION
+      );
+
+      expect(migrated.bestReplay).toEqual(replay);
+    });
+
+    it('tolerates missing or corrupt data', () => {
+      expect(migrateGameStorage(undefined, 0).highScore).toBe(0);
+      expect(migrateGameStorage({ highScore: 'lots' }, 0).highScore).toBe(0);
+    });
+  });
+
+  describe('sanitizeRunHistory', () => {
+    it('keeps valid runs', () => {
+      const runs = [record(30), record(20)];
+      expect(sanitizeRunHistory(runs)).toEqual(runs);
+    });
+
+    it('falls back to the default difficulty for unknown presets', () => {
+      const stale = { ...record(10), difficulty: 'nightmare' };
+      const missing: Record<string, unknown> = { ...record(5) };
+      delete missing['difficulty'];
+
+      const runs = sanitizeRunHistory([stale, missing]);
+      expect(runs.map((run) => run.difficulty)).toEqual(['normal', 'normal']);
+      expect(runs[0]?.score).toBe(10);
+    });
+
+    it('drops malformed runs and tolerates corrupt data', () => {
+      expect(sanitizeRunHistory([record(1), null, 'run'])).toHaveLength(1);
+      expect(sanitizeRunHistory('runs')).toEqual([]);
+      expect(sanitizeRunHistory(undefined)).toEqual([]);
+    });
+  });
+
+  describe('appendRun', () => {
+    it('puts the newest run first', () => {
+      const history = appendRun([record(1)], record(2));
+      expect(history.map((r) => r.score)).toEqual([2, 1]);
+    });
+
+    it('caps the history length', () => {
+      let history: RunRecord[] = [];
+      for (let i = 0; i < MAX_RUN_HISTORY + 10; i++) {
+        history = appendRun(history, record(i));
+      }
+      expect(history).toHaveLength(MAX_RUN_HISTORY);
+      expect(history[0]?.score).toBe(MAX_RUN_HISTORY + 9);
+    });
+  });
+});
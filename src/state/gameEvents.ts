@@ -0,0 +1,9 @@
+/**
+ * Game event bus.
+ * `useGameStore` emits on it; VFX, audio, HUD and analytics subscribe.
+ */
+
+import type { GameEventMap } from '@/core/events';
+import { EventBus } from '@/core/events';
+
+export const gameEvents = new EventBus<GameEventMap>();
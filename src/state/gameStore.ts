@@ -1,170 +1,300 @@
 /**
  * Main game state store using Zustand.
+ * A thin adapter over the headless GameSimulation in core/.
+ * Publishes what each action did on the `gameEvents` bus.
  */
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { GameState } from './types';
-import type { Axis, Block } from '@/core/types';
+import type { GameState, RunRecord } from './types';
 import {
-  createBaseBlock,
-  createMovingBlock,
-  sliceBlock,
-  resetIdCounter,
-} from '@/core/geometry';
-import { updateBlockOscillation, createFallingPiece, shouldRemoveFallingPiece } from '@/core/physics';
-import { calculateHitScore, updatePerfectStreak } from '@/core/scoring';
-
-function getNextAxis(current: Axis): Axis {
-  return current === 'x' ? 'z' : 'x';
+  GAME_STORAGE_VERSION,
+  migrateGameStorage,
+  appendRun,
+  sanitizeRunHistory,
+  type PersistedGameState,
+} from './persistence';
+import { useSettingsStore } from './settingsStore';
+import { gameEvents } from './gameEvents';
+import type { ReplayLog } from '@/core/types';
+import type { PauseReason } from '@/core/events';
+import { CLASSIC_MODIFIERS, GAME_CONSTANTS } from '@/core/types';
+import type { DropOutcome, ReplayedInput, RewindResult } from '@/core/simulation';
+import { GameSimulation } from '@/core/simulation';
+import { getCutLine } from '@/core/geometry';
+import { createDailyChallenge, getDailyKey } from '@/core/daily';
+
+const simulation = new GameSimulation();
+
+/** High score before the current classic run, so a rewind can take back its gains */
+let highScoreBeforeRun = 0;
+
+/**
+ * performance.now() time at which the simulation reached `gameTime`,
+ * kept current by the game loop so presses can be placed in game time.
+ */
+let clock = { wallTime: 0, gameTime: 0 };
+
+/** Simulation snapshot plus the replay flags derived from it */
+function snapshot() {
+  return {
+    ...simulation.getState(),
+    isReplay: simulation.isReplay,
+    activeReplay: simulation.activeReplay,
+  };
+}
+
+/**
+ * Publish the events for a drop. Call after the store holds the new state.
+ */
+function emitDrop(outcome: DropOutcome): void {
+  const { blocks, score, perfectStreak } = simulation.getState();
+  const { result, base, axis, points, fallingPiece, regrowth } = outcome;
+  const isReplay = simulation.isReplay;
+  const height = blocks.length - 1;
+  const block = blocks[blocks.length - 1];
+
+  if (outcome.gameOver || !block) {
+    const stackHeight = block ? block.position.y + block.dimensions.y / 2 : 0;
+    gameEvents.emit('gameOver', { isReplay, result, score, height, stackHeight });
+    return;
+  }
+
+  gameEvents.emit('placed', { isReplay, result, block, base, axis, points, score, height });
+
+  if (result.isPerfect) {
+    gameEvents.emit('perfect', { isReplay, result, block, axis, streak: perfectStreak, regrowth });
+    if (perfectStreak >= GAME_CONSTANTS.COMBO_STREAK) {
+      gameEvents.emit('comboReached', { isReplay, streak: perfectStreak });
+    }
+  } else if (fallingPiece && result.kept) {
+    const cut = getCutLine(result.kept, fallingPiece.block, axis);
+    gameEvents.emit('sliced', { isReplay, result, block, axis, fallingPiece, cut });
+  }
 }
 
-function getTopBlock(blocks: Block[]): Block {
-  const top = blocks[blocks.length - 1];
-  if (!top) {
-    throw new Error('No blocks in stack');
+function emitRewind(result: RewindResult): void {
+  const { movingAxis, score } = simulation.getState();
+  gameEvents.emit('rewound', { isReplay: simulation.isReplay, ...result, axis: movingAxis, score });
+}
+
+/** Publish what a replay did during a tick */
+function emitReplayed(played: ReplayedInput[]): void {
+  for (const input of played) {
+    if (input.action === 'drop') {
+      emitDrop(input.outcome);
+    } else {
+      emitRewind(input.result);
+    }
   }
-  return top;
+}
+
+function emitRestart(): void {
+  const { seed } = simulation.getState();
+  gameEvents.emit('restart', { isReplay: simulation.isReplay, seed });
 }
 
 export const useGameStore = create<GameState>()(
   persist(
     (set, get) => ({
       // Initial state
-      phase: 'idle',
-      blocks: [],
-      currentBlock: null,
-      movingAxis: 'x',
-      gameTime: 0,
-      score: 0,
-      perfectStreak: 0,
+      ...snapshot(),
       highScore: 0,
-      fallingPieces: [],
-      lastPerfectHit: false,
+      runMode: 'classic',
+      dailyKey: null,
+      dailyScores: {},
+      runHistory: [],
+      lastReplay: null,
+      bestReplay: null,
+      resumeCountdown: 0,
+
+      startGame: (seed?: number) => {
+        const { difficulty } = useSettingsStore.getState();
+        simulation.start(seed, { ...CLASSIC_MODIFIERS, difficulty });
+        highScoreBeforeRun = get().highScore;
+        set({ ...snapshot(), runMode: 'classic', dailyKey: null });
+        emitRestart();
+      },
+
+      startDaily: () => {
+        const key = getDailyKey(new Date());
+        const { dailyScores } = get();
+        if (key in dailyScores) return; // One attempt per day
 
-      startGame: () => {
-        resetIdCounter();
-        const baseBlock = createBaseBlock();
-        const firstMovingBlock = createMovingBlock(baseBlock, 'x');
+        const challenge = createDailyChallenge(key);
+        simulation.start(challenge.seed, challenge.modifiers);
 
+        // Claim the attempt up front so quitting mid-run doesn't grant a retry
         set({
-          phase: 'playing',
-          blocks: [baseBlock],
-          currentBlock: firstMovingBlock,
-          movingAxis: 'x',
-          gameTime: 0,
-          score: 0,
-          perfectStreak: 0,
-          fallingPieces: [],
-          lastPerfectHit: false,
+          ...snapshot(),
+          runMode: 'daily',
+          dailyKey: key,
+          dailyScores: { ...dailyScores, [key]: 0 },
         });
+        emitRestart();
       },
 
-      dropBlock: () => {
-        const state = get();
-        if (state.phase !== 'playing' || !state.currentBlock) return;
+      dropBlock: (pressedAt?: number) => {
+        const atTime = pressedAt === undefined
+          ? undefined
+          : clock.gameTime + (pressedAt - clock.wallTime);
+        const outcome = simulation.drop(atTime);
+        if (!outcome) return;
 
-        const topBlock = getTopBlock(state.blocks);
-        const result = sliceBlock(state.currentBlock, topBlock, state.movingAxis);
+        const state = get();
+        const next = snapshot();
 
-        if (!result.kept) {
-          // Complete miss - game over
-          const fallingPiece = result.fallen
-            ? createFallingPiece(result.fallen, topBlock, state.movingAxis, state.gameTime)
-            : null;
+        // Replays never touch records; daily runs only touch today's score
+        if (simulation.isReplay) {
+          set(next);
+          emitDrop(outcome);
+          return;
+        }
+        if (state.runMode === 'daily' && state.dailyKey) {
+          set({ ...next, dailyScores: { ...state.dailyScores, [state.dailyKey]: next.score } });
+        } else {
+          set({ ...next, highScore: Math.max(next.score, state.highScore) });
+        }
 
+        if (outcome.gameOver) {
+          const replay = simulation.toReplayLog();
+          const isBest = state.runMode === 'classic'
+            && (!state.bestReplay || replay.score >= state.bestReplay.score);
+          const { visualVariant, themeColor } = useSettingsStore.getState();
+          const run: RunRecord = {
+            score: next.score,
+            height: next.blocks.length - 1,
+            perfectCount: next.perfectCount,
+            maxStreak: next.maxStreak,
+            duration: next.gameTime,
+            date: new Date().toISOString(),
+            mode: state.runMode,
+            difficulty: next.modifiers.difficulty,
+            visualVariant,
+            themeColor,
+          };
           set({
-            phase: 'gameover',
-            currentBlock: null,
-            fallingPieces: fallingPiece
-              ? [...state.fallingPieces, fallingPiece]
-              : state.fallingPieces,
-            highScore: Math.max(state.score, state.highScore),
+            lastReplay: replay,
+            bestReplay: isBest ? replay : state.bestReplay,
+            runHistory: appendRun(state.runHistory, run),
           });
+        }
+
+        emitDrop(outcome);
+      },
+
+      rewindDrop: () => {
+        if (simulation.isReplay) return;
+        const result = simulation.rewind();
+        if (!result) return;
+
+        const state = get();
+        const next = snapshot();
+        if (state.runMode === 'daily' && state.dailyKey) {
+          set({ ...next, dailyScores: { ...state.dailyScores, [state.dailyKey]: next.score } });
+        } else {
+          set({ ...next, highScore: Math.max(next.score, highScoreBeforeRun) });
+        }
+        emitRewind(result);
+      },
+
+      pauseGame: (reason: PauseReason = 'player') => {
+        // Pausing again mid-countdown (e.g. the tab lost focus) cancels it
+        if (get().phase === 'paused') {
+          set({ resumeCountdown: 0 });
           return;
         }
+        if (simulation.isReplay || !simulation.pause()) return;
 
-        // Successful placement
-        const newStreak = updatePerfectStreak(state.perfectStreak, result.isPerfect);
-        const points = calculateHitScore(state.perfectStreak, result.isPerfect);
-        const newScore = state.score + points;
-        const newBlocks = [...state.blocks, result.kept];
-        const nextAxis = getNextAxis(state.movingAxis);
-        const nextBlock = createMovingBlock(result.kept, nextAxis);
-
-        // Add falling piece if there was an overhang
-        const newFallingPieces = result.fallen
-          ? [
-              ...state.fallingPieces,
-              createFallingPiece(result.fallen, topBlock, state.movingAxis, state.gameTime),
-            ]
-          : state.fallingPieces;
+        set({ ...snapshot(), resumeCountdown: 0 });
+        gameEvents.emit('paused', { isReplay: false, reason });
+      },
 
-        set({
-          blocks: newBlocks,
-          currentBlock: nextBlock,
-          movingAxis: nextAxis,
-          score: newScore,
-          perfectStreak: newStreak,
-          fallingPieces: newFallingPieces,
-          lastPerfectHit: result.isPerfect,
-          highScore: Math.max(newScore, state.highScore),
-        });
+      beginResume: () => {
+        const { phase, resumeCountdown } = get();
+        if (phase !== 'paused' || resumeCountdown > 0) return;
+        set({ resumeCountdown: GAME_CONSTANTS.RESUME_COUNTDOWN });
+      },
+
+      stepResumeCountdown: () => {
+        const { resumeCountdown } = get();
+        if (resumeCountdown > 1) {
+          set({ resumeCountdown: resumeCountdown - 1 });
+          return;
+        }
+        if (resumeCountdown === 0 || !simulation.resume()) return;
+
+        set({ ...snapshot(), resumeCountdown: 0 });
+        gameEvents.emit('resumed', { isReplay: false });
       },
 
       tick: (deltaMs: number) => {
-        const state = get();
-        if (state.phase !== 'playing' || !state.currentBlock) return;
+        if (get().phase !== 'playing') return;
+        const played = simulation.tick(deltaMs);
+        set(snapshot());
+        emitReplayed(played);
+      },
 
-        const newGameTime = state.gameTime + deltaMs;
-        const elapsedSeconds = newGameTime / 1000;
+      syncClock: (wallTime: number) => {
+        clock = { wallTime, gameTime: simulation.getState().gameTime };
+      },
 
-        // Get center offset from top block
-        const topBlock = getTopBlock(state.blocks);
-        const centerOffset = topBlock.position[state.movingAxis];
+      cleanupFallingPieces: () => {
+        if (simulation.cleanupFallingPieces()) {
+          set({ fallingPieces: simulation.getState().fallingPieces });
+        }
+      },
 
-        // Update moving block position
-        const updatedBlock = updateBlockOscillation(
-          state.currentBlock,
-          state.movingAxis,
-          elapsedSeconds,
-          centerOffset
-        );
+      reset: () => {
+        simulation.reset();
+        set({ ...snapshot(), runMode: 'classic', dailyKey: null });
+      },
 
-        set({
-          gameTime: newGameTime,
-          currentBlock: updatedBlock,
-        });
+      startReplay: (log: ReplayLog) => {
+        simulation.startReplay(log);
+        set(snapshot());
+        emitRestart();
       },
 
-      cleanupFallingPieces: () => {
-        const state = get();
-        const remaining = state.fallingPieces.filter(
-          (piece) => !shouldRemoveFallingPiece(piece, state.gameTime)
-        );
+      seekReplay: (gameTime: number) => {
+        const log = simulation.activeReplay;
+        if (!log) return;
 
-        if (remaining.length !== state.fallingPieces.length) {
-          set({ fallingPieces: remaining });
+        // Re-simulate headlessly from the seed, then publish once
+        const wasPlaying = get().phase === 'playing';
+        simulation.startReplay(log);
+        simulation.advanceTo(gameTime);
+        set(snapshot());
+
+        // Seeking back from the end of a replay starts it again
+        if (!wasPlaying && simulation.getState().phase === 'playing') {
+          emitRestart();
         }
       },
 
-      reset: () => {
-        set({
-          phase: 'idle',
-          blocks: [],
-          currentBlock: null,
-          movingAxis: 'x',
-          gameTime: 0,
-          score: 0,
-          perfectStreak: 0,
-          fallingPieces: [],
-          lastPerfectHit: false,
-        });
+      stopReplay: () => {
+        get().reset();
       },
     }),
     {
       name: 'neon-stack-storage',
-      partialize: (state) => ({ highScore: state.highScore }),
+      version: GAME_STORAGE_VERSION,
+      migrate: migrateGameStorage,
+      merge: (persisted, current) => {
+        const stored = (persisted ?? {}) as Partial<PersistedGameState>;
+        return {
+          ...current,
+          ...stored,
+          // Runs record the difficulty setting, which may be stale or hand-edited
+          runHistory: sanitizeRunHistory(stored.runHistory),
+        };
+      },
+      partialize: (state) => ({
+        highScore: state.highScore,
+        dailyScores: state.dailyScores,
+        runHistory: state.runHistory,
+        bestReplay: state.bestReplay,
+      }),
     }
   )
 );
@@ -0,0 +1,98 @@
+/**
+ * Versioned schema for the persisted game slice ('neon-stack-storage').
+ * Bump GAME_STORAGE_VERSION and add a step to migrateGameStorage whenever
+ * the persisted shape changes.
+ */
+
+import { sanitizeDifficulty } from '@/core/difficulty';
+import type { ReplayLog } from '@/core/types';
+import type { RunRecord } from './types';
+
+export const GAME_STORAGE_VERSION = 6;
+
+/** Maximum number of runs kept in the history */
+export const MAX_RUN_HISTORY = 100;
+
+/** What partialize writes to storage */
+export interface PersistedGameState {
+  highScore: number;
+  dailyScores: Record<string, number>;
+  runHistory: RunRecord[];
+  bestReplay: ReplayLog | null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Upgrade persisted data from any older version to the current shape.
+ * Version 0 only guaranteed `highScore`; later fields may be missing.
+ * Version 1 predates difficulty curves.
+ * Version 2 predates motion profiles.
+ * Version 3 predates streak regrowth.
+ * Version 4 predates spawn-edge phasing.
+ * Version 5 predates drops sliced at the press timestamp.
+ */
+export function migrateGameStorage(persisted: unknown, version: number): PersistedGameState {
+  let data = isRecord(persisted) ? persisted : {};
+
+  if (version < 1) {
+    data = {
+      highScore: typeof data['highScore'] === 'number' ? data['highScore'] : 0,
+      dailyScores: isRecord(data['dailyScores']) ? data['dailyScores'] : {},
+      runHistory: [],
+      bestReplay: isRecord(data['bestReplay']) ? data['bestReplay'] : null,
+    };
+  }
+
+  if (version < 2) {
+    const runHistory = Array.isArray(data['runHistory']) ? (data['runHistory'] as unknown[]) : [];
+    data = {
+      ...data,
+      runHistory: runHistory.filter(isRecord).map((run) => ({ difficulty: 'normal', ...run })),
+      // Recorded on the flat pre-curve speed, so it can't be replayed faithfully
+      bestReplay: null,
+    };
+  }
+
+  if (version < 3) {
+    // Casual, Hard and Insane blocks no longer swing on a sine, so older replays desync
+    data = { ...data, bestReplay: null };
+  }
+
+  if (version < 4) {
+    // Long perfect streaks now regrow the block, so older replays desync
+    data = { ...data, bestReplay: null };
+  }
+
+  if (version < 5) {
+    // Blocks now start their swing at the spawn edge, so older replays desync
+    data = { ...data, bestReplay: null };
+  }
+
+  if (version < 6) {
+    // Drops now slice where the block was at the press, not the last tick
+    data = { ...data, bestReplay: null };
+  }
+
+  return data as unknown as PersistedGameState;
+}
+
+/**
+ * Rebuild the run history from untrusted (persisted) data: malformed runs
+ * are dropped and unknown difficulties fall back to the default.
+ */
+export function sanitizeRunHistory(value: unknown): RunRecord[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(isRecord)
+    .map((run) => ({ ...run, difficulty: sanitizeDifficulty(run['difficulty']) }) as unknown as RunRecord);
+}
+
+/**
+ * Prepend a run, keeping the history bounded.
+ */
+export function appendRun(history: RunRecord[], run: RunRecord): RunRecord[] {
+  return [run, ...history].slice(0, MAX_RUN_HISTORY);
+}
@@ -0,0 +1,33 @@
+/**
+ * Replay playback controls (speed, pause).
+ * The replayed run itself lives in the game store.
+ */
+
+import { create } from 'zustand';
+
+export type ReplaySpeed = 0.5 | 1 | 2;
+
+interface ReplayState {
+  speed: ReplaySpeed;
+  paused: boolean;
+  setSpeed: (speed: ReplaySpeed) => void;
+  togglePaused: () => void;
+  resetPlayback: () => void;
+}
+
+export const useReplayStore = create<ReplayState>((set) => ({
+  speed: 1,
+  paused: false,
+
+  setSpeed: (speed: ReplaySpeed) => {
+    set({ speed });
+  },
+
+  togglePaused: () => {
+    set((state) => ({ paused: !state.paused }));
+  },
+
+  resetPlayback: () => {
+    set({ speed: 1, paused: false });
+  },
+}));
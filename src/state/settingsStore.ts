@@ -1,29 +1,87 @@
 /**
  * Settings store with persistence.
- * Manages visual style, theme color, audio levels, and accessibility options.
+ * Manages visual style, theme color, audio levels, key bindings, and
+ * accessibility options.
  */
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { VisualVariant } from '@/rendering/VisualStyle';
 import type { ThemeColor, ThemeColors } from '@/game/Theme';
+import type { DifficultyPreset } from '@/core/difficulty';
+import type { InputAction, KeyBindings } from '@/game/KeyBindings';
+import type {
+  MixerChannel,
+  MusicSource,
+  MusicalKey,
+  PlaybackMode,
+  PlaylistEntry,
+  SfxLevels,
+} from '@/audio';
+import { DEFAULT_DIFFICULTY, sanitizeDifficulty } from '@/core/difficulty';
 import { getTheme, applyThemeToCss } from '@/game/Theme';
+import {
+  DEFAULT_KEY_BINDINGS,
+  bindKey,
+  unbindKey,
+  sanitizeKeyBindings,
+} from '@/game/KeyBindings';
+import {
+  DEFAULT_PLAYLIST,
+  DEFAULT_SFX_LEVELS,
+  sanitizeSfxLevels,
+  isUserTrack,
+  movePlaylistEntry,
+  sanitizePlaylist,
+  setPlaylistEntryEnabled,
+} from '@/audio';
 import { useVisualStore } from './visualStore';
 
+/** Key SFX are pitched in; 'auto' follows the music when it is known */
+export type SfxKey = MusicalKey | 'auto';
+
 export interface SettingsState {
   // Visual
   visualVariant: VisualVariant;
   themeColor: ThemeColor;
 
-  // Audio (placeholders for future audio engine)
+  // Gameplay
+  difficulty: DifficultyPreset;
+
+  // Audio
+  masterVolume: number; // 0-100
   musicVolume: number;  // 0-100
   sfxVolume: number;    // 0-100
+  /** Per-sound levels (0-100) under the SFX volume */
+  sfxLevels: SfxLevels;
+  muted: boolean;
+  /** Silence everything while the tab is in the background */
+  muteWhenHidden: boolean;
+  musicSource: MusicSource;
+  /** Bundled and user tracks, in play order */
+  playlist: PlaylistEntry[];
+  playbackMode: PlaybackMode;
+  sfxKey: SfxKey;
+  /** Snap musical SFX to the music's beat */
+  sfxQuantize: boolean;
+  stereoWidth: number;  // 0-100, 0 = centered
+  monoAudio: boolean;
+
+  // Haptics
+  hapticIntensity: number;  // 0-100, 0 = off
+
+  // Controls
+  keyBindings: KeyBindings;
+  /** Latency taken off every press (ms); positive when drops land late */
+  inputOffsetMs: number;
 
   // Accessibility
   reducedMotion: boolean;
 
   // UI state
   isSettingsOpen: boolean;
+  isLeaderboardOpen: boolean;
+  isCalibrationOpen: boolean;
 
   // Computed
   theme: ThemeColors;
@@ -31,28 +89,81 @@ export interface SettingsState {
   // Actions
   setVisualVariant: (variant: VisualVariant) => void;
   setThemeColor: (color: ThemeColor) => void;
+  setDifficulty: (difficulty: DifficultyPreset) => void;
+  setMasterVolume: (volume: number) => void;
   setMusicVolume: (volume: number) => void;
   setSfxVolume: (volume: number) => void;
+  setSfxLevel: (channel: MixerChannel, level: number) => void;
+  resetSfxLevels: () => void;
+  setMuted: (muted: boolean) => void;
+  toggleMuted: () => void;
+  setMuteWhenHidden: (enabled: boolean) => void;
+  setMusicSource: (source: MusicSource) => void;
+  /** Append newly stored user tracks, enabled */
+  addPlaylistTracks: (tracks: { id: string; name: string }[]) => void;
+  removePlaylistTrack: (id: string) => void;
+  /** Move a track up (-1) or down (+1) the playlist */
+  movePlaylistTrack: (id: string, offset: number) => void;
+  setPlaylistTrackEnabled: (id: string, enabled: boolean) => void;
+  /** Drop user tracks that are no longer in the music library */
+  prunePlaylist: (availableUserIds: string[]) => void;
+  setPlaybackMode: (mode: PlaybackMode) => void;
+  setSfxKey: (key: SfxKey) => void;
+  setSfxQuantize: (enabled: boolean) => void;
+  setStereoWidth: (width: number) => void;
+  setMonoAudio: (enabled: boolean) => void;
+  setHapticIntensity: (intensity: number) => void;
+  /** Bind a key to an action, taking it from any action that had it */
+  bindKey: (action: InputAction, code: string) => void;
+  unbindKey: (action: InputAction, code: string) => void;
+  resetKeyBindings: () => void;
+  setInputOffset: (offsetMs: number) => void;
   setReducedMotion: (enabled: boolean) => void;
   openSettings: () => void;
   closeSettings: () => void;
+  openLeaderboard: () => void;
+  closeLeaderboard: () => void;
+  /** Swap the settings panel for the latency calibration screen */
+  openCalibration: () => void;
+  /** Leave calibration, back to the settings panel it was opened from */
+  closeCalibration: () => void;
   resetToDefaults: () => void;
 }
 
 const DEFAULT_SETTINGS = {
   visualVariant: 'A' as VisualVariant,
   themeColor: 'cyan' as ThemeColor,
+  difficulty: DEFAULT_DIFFICULTY,
+  masterVolume: 100,
   musicVolume: 80,
   sfxVolume: 80,
+  sfxLevels: DEFAULT_SFX_LEVELS,
+  muted: false,
+  muteWhenHidden: true,
+  musicSource: 'tracks' as MusicSource,
+  playlist: DEFAULT_PLAYLIST,
+  playbackMode: 'shuffle' as PlaybackMode,
+  sfxKey: 'auto' as SfxKey,
+  sfxQuantize: false,
+  stereoWidth: 100,
+  monoAudio: false,
+  hapticIntensity: 70,
+  keyBindings: DEFAULT_KEY_BINDINGS,
+  inputOffsetMs: 0,
   reducedMotion: false,
 };
 
+/** Range of the input calibration offset (ms) */
+export const INPUT_OFFSET_LIMITS = { min: -100, max: 250 } as const;
+
 export const useSettingsStore = create<SettingsState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       // Initial state
       ...DEFAULT_SETTINGS,
       isSettingsOpen: false,
+      isLeaderboardOpen: false,
+      isCalibrationOpen: false,
       theme: getTheme(DEFAULT_SETTINGS.themeColor),
 
       setVisualVariant: (variant: VisualVariant) => {
@@ -65,6 +176,14 @@ export const useSettingsStore = create<SettingsState>()(
         set({ themeColor: color, theme });
       },
 
+      setDifficulty: (difficulty: DifficultyPreset) => {
+        set({ difficulty });
+      },
+
+      setMasterVolume: (volume: number) => {
+        set({ masterVolume: Math.max(0, Math.min(100, volume)) });
+      },
+
       setMusicVolume: (volume: number) => {
         set({ musicVolume: Math.max(0, Math.min(100, volume)) });
       },
@@ -73,6 +192,102 @@ export const useSettingsStore = create<SettingsState>()(
         set({ sfxVolume: Math.max(0, Math.min(100, volume)) });
       },
 
+      setSfxLevel: (channel: MixerChannel, level: number) => {
+        set({
+          sfxLevels: { ...get().sfxLevels, [channel]: Math.max(0, Math.min(100, level)) },
+        });
+      },
+
+      resetSfxLevels: () => {
+        set({ sfxLevels: DEFAULT_SFX_LEVELS });
+      },
+
+      setMuted: (muted: boolean) => {
+        set({ muted });
+      },
+
+      toggleMuted: () => {
+        set({ muted: !get().muted });
+      },
+
+      setMuteWhenHidden: (enabled: boolean) => {
+        set({ muteWhenHidden: enabled });
+      },
+
+      setMusicSource: (source: MusicSource) => {
+        set({ musicSource: source });
+      },
+
+      addPlaylistTracks: (tracks: { id: string; name: string }[]) => {
+        const added = tracks.map(({ id, name }) => ({ id, name, enabled: true }));
+        set({ playlist: [...get().playlist, ...added] });
+      },
+
+      removePlaylistTrack: (id: string) => {
+        set({ playlist: get().playlist.filter((entry) => entry.id !== id) });
+      },
+
+      movePlaylistTrack: (id: string, offset: number) => {
+        set({ playlist: movePlaylistEntry(get().playlist, id, offset) });
+      },
+
+      setPlaylistTrackEnabled: (id: string, enabled: boolean) => {
+        set({ playlist: setPlaylistEntryEnabled(get().playlist, id, enabled) });
+      },
+
+      prunePlaylist: (availableUserIds: string[]) => {
+        const available = new Set(availableUserIds);
+        const { playlist } = get();
+        const pruned = playlist.filter((entry) => !isUserTrack(entry.id) || available.has(entry.id));
+        if (pruned.length !== playlist.length) {
+          set({ playlist: pruned });
+        }
+      },
+
+      setPlaybackMode: (mode: PlaybackMode) => {
+        set({ playbackMode: mode });
+      },
+
+      setSfxKey: (key: SfxKey) => {
+        set({ sfxKey: key });
+      },
+
+      setSfxQuantize: (enabled: boolean) => {
+        set({ sfxQuantize: enabled });
+      },
+
+      setStereoWidth: (width: number) => {
+        set({ stereoWidth: Math.max(0, Math.min(100, width)) });
+      },
+
+      setMonoAudio: (enabled: boolean) => {
+        set({ monoAudio: enabled });
+      },
+
+      setHapticIntensity: (intensity: number) => {
+        set({ hapticIntensity: Math.max(0, Math.min(100, intensity)) });
+      },
+
+      bindKey: (action: InputAction, code: string) => {
+        set({ keyBindings: bindKey(get().keyBindings, action, code) });
+      },
+
+      unbindKey: (action: InputAction, code: string) => {
+        set({ keyBindings: unbindKey(get().keyBindings, action, code) });
+      },
+
+      resetKeyBindings: () => {
+        set({ keyBindings: DEFAULT_KEY_BINDINGS });
+      },
+
+      setInputOffset: (offsetMs: number) => {
+        set({
+          inputOffsetMs: Math.round(
+            Math.max(INPUT_OFFSET_LIMITS.min, Math.min(INPUT_OFFSET_LIMITS.max, offsetMs))
+          ),
+        });
+      },
+
       setReducedMotion: (enabled: boolean) => {
         set({ reducedMotion: enabled });
       },
@@ -85,11 +300,32 @@ export const useSettingsStore = create<SettingsState>()(
         set({ isSettingsOpen: false });
       },
 
+      openLeaderboard: () => {
+        set({ isLeaderboardOpen: true });
+      },
+
+      closeLeaderboard: () => {
+        set({ isLeaderboardOpen: false });
+      },
+
+      openCalibration: () => {
+        set({ isCalibrationOpen: true, isSettingsOpen: false });
+      },
+
+      closeCalibration: () => {
+        set({ isCalibrationOpen: false, isSettingsOpen: true });
+      },
+
       resetToDefaults: () => {
         const theme = getTheme(DEFAULT_SETTINGS.themeColor);
         applyThemeToCss(theme);
         set({
           ...DEFAULT_SETTINGS,
+          // User tracks stay in the library, so keep them listed
+          playlist: [
+            ...DEFAULT_PLAYLIST,
+            ...get().playlist.filter((entry) => isUserTrack(entry.id)),
+          ],
           theme,
         });
       },
@@ -99,10 +335,37 @@ export const useSettingsStore = create<SettingsState>()(
       partialize: (state) => ({
         visualVariant: state.visualVariant,
         themeColor: state.themeColor,
+        difficulty: state.difficulty,
+        masterVolume: state.masterVolume,
         musicVolume: state.musicVolume,
         sfxVolume: state.sfxVolume,
+        sfxLevels: state.sfxLevels,
+        muted: state.muted,
+        muteWhenHidden: state.muteWhenHidden,
+        musicSource: state.musicSource,
+        playlist: state.playlist,
+        playbackMode: state.playbackMode,
+        sfxKey: state.sfxKey,
+        sfxQuantize: state.sfxQuantize,
+        stereoWidth: state.stereoWidth,
+        monoAudio: state.monoAudio,
+        hapticIntensity: state.hapticIntensity,
+        keyBindings: state.keyBindings,
+        inputOffsetMs: state.inputOffsetMs,
         reducedMotion: state.reducedMotion,
       }),
+      merge: (persisted, current) => {
+        const stored = (persisted ?? {}) as Partial<SettingsState>;
+        return {
+          ...current,
+          ...stored,
+          // Bindings and presets may be from an older version or hand-edited
+          difficulty: sanitizeDifficulty(stored.difficulty),
+          keyBindings: sanitizeKeyBindings(stored.keyBindings),
+          playlist: sanitizePlaylist(stored.playlist),
+          sfxLevels: sanitizeSfxLevels(stored.sfxLevels),
+        };
+      },
       onRehydrateStorage: () => (state) => {
         // Apply theme CSS on load
         if (state) {
@@ -2,37 +2,74 @@
  * State management types
  */
 
-import type { Block, FallingPiece, Axis, GamePhase } from '@/core/types';
+import type { ReplayLog } from '@/core/types';
+import type { PauseReason } from '@/core/events';
+import type { SimulationState } from '@/core/simulation';
+import type { RunSummary } from '@/core/stats';
+import type { DifficultyPreset } from '@/core/difficulty';
+import type { VisualVariant } from '@/rendering/VisualStyle';
+import type { ThemeColor } from '@/game/Theme';
 
-export interface GameState {
-  // Game phase
-  phase: GamePhase;
+export type RunMode = 'classic' | 'daily';
 
-  // Stack of placed blocks
-  blocks: Block[];
+/** A finished run as kept in the persisted history */
+export interface RunRecord extends RunSummary {
+  /** ISO timestamp of game over */
+  date: string;
+  mode: RunMode;
+  difficulty: DifficultyPreset;
+  visualVariant: VisualVariant;
+  themeColor: ThemeColor;
+}
 
-  // Currently moving block (null when game over or idle)
-  currentBlock: Block | null;
+/**
+ * The game store mirrors the headless simulation's snapshot
+ * and adds persisted/UI-facing data on top.
+ */
+export interface GameState extends SimulationState {
+  // Scoring
+  highScore: number;
 
-  // Which axis the current block moves along (alternates)
-  movingAxis: Axis;
+  // Mode: classic runs feed highScore, daily runs their own per-day record
+  runMode: RunMode;
+  dailyKey: string | null;
+  dailyScores: Record<string, number>;
 
-  // Game timing (in milliseconds)
-  gameTime: number;
+  // Finished live runs, newest first
+  runHistory: RunRecord[];
 
-  // Scoring
-  score: number;
-  perfectStreak: number;
-  highScore: number;
+  // Replay: finished runs and playback state
+  lastReplay: ReplayLog | null;
+  bestReplay: ReplayLog | null;
+  isReplay: boolean;
+  activeReplay: ReplayLog | null;
 
-  // Visual feedback
-  fallingPieces: FallingPiece[];
-  lastPerfectHit: boolean;
+  // Pause: seconds left before a paused run resumes (0 = not counting down)
+  resumeCountdown: number;
 
   // Actions
-  startGame: () => void;
-  dropBlock: () => void;
+  startGame: (seed?: number) => void;
+  startDaily: () => void;
+  /**
+   * Drop the current block.
+   * @param pressedAt performance.now() time of the press; the block is
+   *   sliced where it was at that moment. Defaults to the latest tick.
+   */
+  dropBlock: (pressedAt?: number) => void;
+  /** Undo the last placement with the run's rewind */
+  rewindDrop: () => void;
+  /** Freeze the live run (no-op for replays or when not playing) */
+  pauseGame: (reason?: PauseReason) => void;
+  /** Start the countdown that resumes a paused run */
+  beginResume: () => void;
+  /** Count one second down; the run resumes after the last */
+  stepResumeCountdown: () => void;
   tick: (deltaMs: number) => void;
+  /** Record that the simulation's current game time was reached at `wallTime` */
+  syncClock: (wallTime: number) => void;
   reset: () => void;
   cleanupFallingPieces: () => void;
+  startReplay: (log: ReplayLog) => void;
+  seekReplay: (gameTime: number) => void;
+  stopReplay: () => void;
 }
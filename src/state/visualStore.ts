@@ -10,7 +10,8 @@ interface VisualState {
   variant: VisualVariant;
   config: VariantConfig;
   setVariant: (variant: VisualVariant) => void;
-  cycleVariant: () => void;
+  /** Step to the next (1) or previous (-1) variant, wrapping around */
+  cycleVariant: (step?: 1 | -1) => void;
 }
 
 export const useVisualStore = create<VisualState>((set, get) => ({
@@ -24,9 +25,10 @@ export const useVisualStore = create<VisualState>((set, get) => ({
     });
   },
 
-  cycleVariant: () => {
-    const current = get().variant;
-    const next: VisualVariant = current === 'A' ? 'B' : current === 'B' ? 'C' : 'A';
+  cycleVariant: (step = 1) => {
+    const order: VisualVariant[] = ['A', 'B', 'C'];
+    const index = order.indexOf(get().variant);
+    const next = order[(index + step + order.length) % order.length] ?? 'A';
     get().setVariant(next);
   },
 }));
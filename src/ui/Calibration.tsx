@@ -0,0 +1,273 @@
+/**
+ * Input latency calibration.
+ * A metronome ticks while a block swings through the center on every beat;
+ * the player taps along and the average delay becomes their input offset.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSettingsStore } from '@/state/settingsStore';
+import { inputManager } from '@/game/Input';
+import { getAudioManager } from '@/audio';
+import type { CalibrationResult } from '@/core/calibration';
+import { CALIBRATION_CONFIG, computeCalibration } from '@/core/calibration';
+import styles from './styles/Calibration.module.css';
+
+type Step = 'intro' | 'running' | 'result';
+
+/** How long the block stays lit after a beat (ms) */
+const FLASH_MS = 90;
+
+const TOTAL_BEATS = CALIBRATION_CONFIG.COUNT_IN_BEATS + CALIBRATION_CONFIG.SCORED_BEATS;
+
+/** Beat and tap times of one pass (performance.now() ms) */
+interface Session {
+  /** Time of the first beat */
+  start: number;
+  beats: number[];
+  taps: number[];
+}
+
+function playUIClick() {
+  getAudioManager().play('ui');
+}
+
+function formatOffset(value: number): string {
+  return value > 0 ? `+${String(value)} ms` : `${String(value)} ms`;
+}
+
+function CalibrationPanel() {
+  const closeCalibration = useSettingsStore((state) => state.closeCalibration);
+  const setInputOffset = useSettingsStore((state) => state.setInputOffset);
+  const inputOffsetMs = useSettingsStore((state) => state.inputOffsetMs);
+  const sfxVolume = useSettingsStore((state) => state.sfxVolume);
+  const masterVolume = useSettingsStore((state) => state.masterVolume);
+  const muted = useSettingsStore((state) => state.muted);
+  const sfxSilent = muted || masterVolume === 0 || sfxVolume === 0;
+
+  const [step, setStep] = useState<Step>('intro');
+  const [beat, setBeat] = useState(0);
+  const [result, setResult] = useState<CalibrationResult | null>(null);
+  const sessionRef = useRef<Session | null>(null);
+  const blockRef = useRef<HTMLDivElement>(null);
+
+  const start = () => {
+    sessionRef.current = {
+      start: performance.now() + CALIBRATION_CONFIG.BEAT_INTERVAL_MS,
+      beats: [],
+      taps: [],
+    };
+    setBeat(0);
+    setResult(null);
+    setStep('running');
+  };
+
+  const recordTap = useCallback((timeStamp: number) => {
+    sessionRef.current?.taps.push(timeStamp);
+  }, []);
+
+  // Metronome, swinging block and scoring for one pass
+  useEffect(() => {
+    if (step !== 'running') return;
+    const session = sessionRef.current;
+    if (!session) return;
+
+    const { BEAT_INTERVAL_MS, COUNT_IN_BEATS } = CALIBRATION_CONFIG;
+    const timers: number[] = [];
+
+    for (let i = 0; i < TOTAL_BEATS; i++) {
+      const delay = session.start + i * BEAT_INTERVAL_MS - performance.now();
+      timers.push(window.setTimeout(() => {
+        const countIn = i < COUNT_IN_BEATS;
+        getAudioManager().play('metronome', { accent: countIn });
+        // Score against when the tick actually fired, not when it was due
+        if (!countIn) session.beats.push(performance.now());
+        setBeat(i + 1);
+      }, delay));
+    }
+
+    // Finish one beat after the last, so late taps on it still count
+    timers.push(window.setTimeout(() => {
+      setResult(computeCalibration(session.beats, session.taps));
+      setStep('result');
+    }, session.start + TOTAL_BEATS * BEAT_INTERVAL_MS - performance.now()));
+
+    // The block crosses the center on every beat, swinging side to side
+    const flashClass = styles['flash'];
+    let frame = requestAnimationFrame(function animate(now: number) {
+      const block = blockRef.current;
+      if (block && flashClass) {
+        const beats = (now - session.start) / BEAT_INTERVAL_MS;
+        const sinceBeat = (((now - session.start) % BEAT_INTERVAL_MS) + BEAT_INTERVAL_MS) % BEAT_INTERVAL_MS;
+        block.style.left = `${(50 + Math.sin(Math.PI * beats) * 40).toFixed(2)}%`;
+        block.classList.toggle(flashClass, now >= session.start && sinceBeat < FLASH_MS);
+      }
+      frame = requestAnimationFrame(animate);
+    });
+
+    return () => {
+      timers.forEach((timer) => { window.clearTimeout(timer); });
+      cancelAnimationFrame(frame);
+    };
+  }, [step]);
+
+  // Any key taps while running; Escape leaves. Keys stop here so they
+  // don't reach the game or the settings shortcut.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.stopPropagation();
+      if (e.code === 'Escape') {
+        closeCalibration();
+        return;
+      }
+      if (step === 'running' && !e.repeat) {
+        e.preventDefault();
+        recordTap(e.timeStamp);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, { capture: true });
+    };
+  }, [step, closeCalibration, recordTap]);
+
+  const countIn = beat < CALIBRATION_CONFIG.COUNT_IN_BEATS;
+  const status = countIn
+    ? `Listen… ${String(CALIBRATION_CONFIG.COUNT_IN_BEATS - beat)}`
+    : `Tap! ${String(beat - CALIBRATION_CONFIG.COUNT_IN_BEATS)} / ${String(CALIBRATION_CONFIG.SCORED_BEATS)}`;
+
+  return (
+    <div
+      className={styles['overlay']}
+      onPointerDown={(e) => {
+        e.stopPropagation();
+        if (step === 'running') recordTap(e.timeStamp);
+      }}
+      data-no-game-input
+    >
+      <div className={styles['modal']} data-no-game-input>
+        <div className={styles['header']}>
+          <h2 className={styles['title']}>CALIBRATE</h2>
+          <button
+            type="button"
+            className={styles['closeButton']}
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              playUIClick();
+              closeCalibration();
+            }}
+            aria-label="Close calibration"
+            title="Close calibration"
+            data-no-game-input
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className={styles['track']} aria-hidden="true">
+          <div className={styles['centerLine']} />
+          <div ref={blockRef} className={styles['block']} />
+        </div>
+
+        {step === 'intro' && (
+          <>
+            <p className={styles['text']}>
+              Tap anywhere, or press any key, each time the block crosses the line
+              and the metronome ticks. The first {CALIBRATION_CONFIG.COUNT_IN_BEATS} ticks
+              are a count-in.
+            </p>
+            {sfxSilent && (
+              <p className={styles['helperText']}>
+                Sound effects are muted, so follow the flash.
+              </p>
+            )}
+            <p className={styles['helperText']}>
+              Current offset: {formatOffset(inputOffsetMs)}
+            </p>
+            <div className={styles['actions']}>
+              <button
+                type="button"
+                className={styles['primaryButton']}
+                onPointerDown={(e) => {
+                  e.stopPropagation();
+                  playUIClick();
+                  start();
+                }}
+                data-no-game-input
+              >
+                START
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 'running' && (
+          <p className={styles['status']} aria-live="polite">{status}</p>
+        )}
+
+        {step === 'result' && (
+          <>
+            {result ? (
+              <div className={styles['result']}>
+                <span className={styles['resultValue']}>{formatOffset(result.offsetMs)}</span>
+                <span className={styles['helperText']}>
+                  ±{result.spreadMs} ms over {result.tapCount} taps
+                </span>
+              </div>
+            ) : (
+              <p className={styles['text']}>
+                Not enough taps landed near a beat. Try again, tapping on each tick.
+              </p>
+            )}
+            <div className={styles['actions']}>
+              {result && (
+                <button
+                  type="button"
+                  className={styles['primaryButton']}
+                  onPointerDown={(e) => {
+                    e.stopPropagation();
+                    playUIClick();
+                    setInputOffset(result.offsetMs);
+                    closeCalibration();
+                  }}
+                  data-no-game-input
+                >
+                  APPLY
+                </button>
+              )}
+              <button
+                type="button"
+                className={styles['secondaryButton']}
+                onPointerDown={(e) => {
+                  e.stopPropagation();
+                  playUIClick();
+                  start();
+                }}
+                data-no-game-input
+              >
+                TRY AGAIN
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function Calibration() {
+  const isCalibrationOpen = useSettingsStore((state) => state.isCalibrationOpen);
+
+  // Disable game input while calibrating
+  useEffect(() => {
+    if (!isCalibrationOpen) return;
+    inputManager.setInputDisabled(true);
+    return () => {
+      inputManager.setInputDisabled(false);
+    };
+  }, [isCalibrationOpen]);
+
+  if (!isCalibrationOpen) return null;
+
+  return <CalibrationPanel />;
+}
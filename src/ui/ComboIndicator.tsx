@@ -2,9 +2,9 @@
  * Displays combo messages for perfect hit streaks.
  */
 
-import { useState, useEffect } from 'react';
-import { useGameStore } from '@/state/gameStore';
+import { useState } from 'react';
 import { getStreakMessage } from '@/core/scoring';
+import { useGameEvent } from '@/hooks/useGameEvent';
 import styles from './styles/ComboIndicator.module.css';
 
 interface ComboDisplay {
@@ -14,26 +14,22 @@ interface ComboDisplay {
 
 export function ComboIndicator() {
   const [displays, setDisplays] = useState<ComboDisplay[]>([]);
-  const perfectStreak = useGameStore((state) => state.perfectStreak);
-  const lastPerfectHit = useGameStore((state) => state.lastPerfectHit);
 
-  useEffect(() => {
-    if (lastPerfectHit) {
-      const message = getStreakMessage(perfectStreak);
-      if (message) {
-        const newDisplay: ComboDisplay = {
-          id: Date.now(),
-          message,
-        };
-        setDisplays((prev) => [...prev, newDisplay]);
+  useGameEvent('comboReached', ({ streak }) => {
+    const message = getStreakMessage(streak);
+    if (!message) return;
 
-        // Remove after animation
-        setTimeout(() => {
-          setDisplays((prev) => prev.filter((d) => d.id !== newDisplay.id));
-        }, 1000);
-      }
-    }
-  }, [lastPerfectHit, perfectStreak]);
+    const newDisplay: ComboDisplay = {
+      id: Date.now(),
+      message,
+    };
+    setDisplays((prev) => [...prev, newDisplay]);
+
+    // Remove after animation
+    setTimeout(() => {
+      setDisplays((prev) => prev.filter((d) => d.id !== newDisplay.id));
+    }, 1000);
+  });
 
   return (
     <div className={styles['container']}>
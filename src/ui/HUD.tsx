@@ -3,44 +3,226 @@
  */
 
 import { useGameStore } from '@/state/gameStore';
+import { useReplayStore } from '@/state/replayStore';
+import { useSettingsStore } from '@/state/settingsStore';
 import { formatScore } from '@/core/scoring';
+import { getDailyKey, getDailyStreak } from '@/core/daily';
+import type { ReplayLog } from '@/core/types';
+import { formatKey } from '@/game/KeyBindings';
+import { getAudioManager } from '@/audio';
+import { useGamepadConnected } from '@/hooks/useGamepadConnected';
 import { SettingsButton } from './SettingsModal';
+import { ReplayControls } from './ReplayControls';
+import { LeaderboardButton } from './Leaderboard';
 import styles from './styles/HUD.module.css';
 
+function GamepadIcon() {
+  return (
+    <svg
+      className={styles['gamepadIcon']}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <path d="M6 11h4M8 9v4" />
+      <line x1="15" y1="12" x2="15.01" y2="12" />
+      <line x1="18" y1="10" x2="18.01" y2="10" />
+      <path d="M17.32 5H6.68a4 4 0 0 0-3.98 3.59L2 15a3 3 0 0 0 5.1 2.1L9 15h6l1.9 2.1A3 3 0 0 0 22 15l-.7-6.41A4 4 0 0 0 17.32 5z" />
+    </svg>
+  );
+}
+
+function PauseIcon() {
+  return (
+    <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+      <rect x="6" y="5" width="4" height="14" rx="1" />
+      <rect x="14" y="5" width="4" height="14" rx="1" />
+    </svg>
+  );
+}
+
 export function HUD() {
   const phase = useGameStore((state) => state.phase);
   const score = useGameStore((state) => state.score);
   const highScore = useGameStore((state) => state.highScore);
+  const isReplay = useGameStore((state) => state.isReplay);
+  const lastReplay = useGameStore((state) => state.lastReplay);
+  const bestReplay = useGameStore((state) => state.bestReplay);
+  const startReplay = useGameStore((state) => state.startReplay);
+  const runMode = useGameStore((state) => state.runMode);
+  const dailyScores = useGameStore((state) => state.dailyScores);
+  const startDaily = useGameStore((state) => state.startDaily);
+  const rewind = useGameStore((state) => state.rewind);
+  const rewindDrop = useGameStore((state) => state.rewindDrop);
+  const pauseGame = useGameStore((state) => state.pauseGame);
+  const beginResume = useGameStore((state) => state.beginResume);
+  const resumeCountdown = useGameStore((state) => state.resumeCountdown);
+  const isSettingsOpen = useSettingsStore((state) => state.isSettingsOpen);
+  const resetPlayback = useReplayStore((state) => state.resetPlayback);
+  const rewindKey = useSettingsStore((state) => state.keyBindings.rewind[0]);
+  const hasGamepad = useGamepadConnected();
+
+  const todayKey = getDailyKey(new Date());
+  const todayScore = dailyScores[todayKey];
+  const dailyStreak = getDailyStreak(Object.keys(dailyScores), todayKey);
+
+  const watch = (e: React.PointerEvent, log: ReplayLog) => {
+    e.stopPropagation();
+    getAudioManager().play('ui');
+    resetPlayback();
+    startReplay(log);
+  };
 
   return (
     <div className={styles['container']}>
       <SettingsButton />
+      <LeaderboardButton />
 
       {phase === 'idle' && (
         <div className={styles['startScreen']}>
           {/* <div className={styles['title']}>BATURAY&apos;s</div>  */}
           <h1 className={styles['title']}>NEON STACK</h1>
           <p className={styles['subtitle']}>TAP TO START</p>
+          {hasGamepad && (
+            <p className={styles['gamepadHint']}>
+              <GamepadIcon />
+              <span className={styles['gamepadButton']}>A</span>
+              <span className={styles['gamepadButton']}>B</span>
+              <span className={styles['gamepadButton']}>X</span>
+              <span className={styles['gamepadButton']}>Y</span> DROP
+              <span className={styles['gamepadButton']}>LB</span>
+              <span className={styles['gamepadButton']}>RB</span> STYLE
+              <span className={styles['gamepadButton']}>START</span> SETTINGS
+            </p>
+          )}
           {highScore > 0 && (
             <p className={styles['highScore']}>HIGH SCORE: {formatScore(highScore)}</p>
           )}
+          <button
+            type="button"
+            className={styles['dailyButton']}
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              getAudioManager().play('ui');
+              startDaily();
+            }}
+            disabled={todayScore !== undefined}
+            data-no-game-input
+          >
+            {todayScore === undefined
+              ? 'DAILY CHALLENGE'
+              : `DAILY DONE: ${formatScore(todayScore)}`}
+          </button>
+          {dailyStreak > 0 && (
+            <p className={styles['dailyStreak']}>{dailyStreak}-DAY STREAK</p>
+          )}
         </div>
       )}
 
-      {phase === 'playing' && (
+      {(phase === 'playing' || phase === 'paused') && (
         <div className={styles['score']}>{formatScore(score)}</div>
       )}
 
+      {phase === 'playing' && !isReplay && (
+        <button
+          type="button"
+          className={styles['pauseButton']}
+          onPointerDown={(e) => {
+            e.stopPropagation();
+            getAudioManager().play('ui');
+            pauseGame();
+          }}
+          aria-label="Pause"
+          title="Pause"
+          data-no-game-input
+        >
+          <PauseIcon />
+        </button>
+      )}
+
+      {phase === 'paused' && !isSettingsOpen && (
+        <div className={styles['pauseScreen']}>
+          {resumeCountdown > 0 ? (
+            <p key={resumeCountdown} className={styles['countdown']}>{resumeCountdown}</p>
+          ) : (
+            <>
+              <h2 className={styles['pauseTitle']}>PAUSED</h2>
+              <button
+                type="button"
+                className={styles['resumeButton']}
+                onPointerDown={(e) => {
+                  e.stopPropagation();
+                  getAudioManager().play('ui');
+                  beginResume();
+                }}
+                data-no-game-input
+              >
+                RESUME
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {phase === 'playing' && !isReplay && rewind === 'ready' && (
+        <button
+          type="button"
+          className={styles['rewindButton']}
+          onPointerDown={(e) => {
+            e.stopPropagation();
+            rewindDrop();
+          }}
+          aria-label="Rewind last block"
+          data-no-game-input
+        >
+          ⟲ REWIND
+          {rewindKey && <span className={styles['rewindKey']}>{formatKey(rewindKey)}</span>}
+        </button>
+      )}
+
       {phase === 'gameover' && (
         <div className={styles['gameOver']}>
-          <h2 className={styles['gameOverTitle']}>GAME OVER</h2>
+          <h2 className={styles['gameOverTitle']}>
+            {isReplay ? 'REPLAY OVER' : runMode === 'daily' ? 'DAILY COMPLETE' : 'GAME OVER'}
+          </h2>
           <p className={styles['finalScore']}>{formatScore(score)}</p>
-          {score >= highScore && score > 0 && (
+          {!isReplay && runMode === 'classic' && score >= highScore && score > 0 && (
             <p className={styles['newHighScore']}>NEW HIGH SCORE!</p>
           )}
+          {!isReplay && runMode === 'daily' && (
+            <p className={styles['dailyStreak']}>{dailyStreak}-DAY STREAK</p>
+          )}
+          <div className={styles['replayButtons']} data-no-game-input>
+            {lastReplay && (
+              <button
+                type="button"
+                className={styles['replayButton']}
+                onPointerDown={(e) => { watch(e, lastReplay); }}
+                data-no-game-input
+              >
+                WATCH REPLAY
+              </button>
+            )}
+            {bestReplay && bestReplay.seed !== lastReplay?.seed && (
+              <button
+                type="button"
+                className={styles['replayButton']}
+                onPointerDown={(e) => { watch(e, bestReplay); }}
+                data-no-game-input
+              >
+                WATCH BEST ({formatScore(bestReplay.score)})
+              </button>
+            )}
+          </div>
           <p className={styles['restartHint']}>TAP TO RESTART</p>
         </div>
       )}
+
+      <ReplayControls />
     </div>
   );
 }
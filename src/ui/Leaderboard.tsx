@@ -0,0 +1,207 @@
+/**
+ * Local leaderboard overlay: best runs, recent history and aggregate stats.
+ * Reachable from the HUD on the start and game over screens.
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useGameStore } from '@/state/gameStore';
+import { useSettingsStore } from '@/state/settingsStore';
+import { inputManager } from '@/game/Input';
+import { getAudioManager } from '@/audio';
+import { formatScore } from '@/core/scoring';
+import { computeRunStats } from '@/core/stats';
+import { DIFFICULTY_PRESETS } from '@/core/difficulty';
+import type { RunRecord } from '@/state/types';
+import styles from './styles/Leaderboard.module.css';
+
+const TOP_RUN_COUNT = 10;
+
+/** Play UI click sound */
+function playUIClick() {
+  getAudioManager().play('ui');
+}
+
+function TrophyIcon() {
+  return (
+    <svg
+      className={styles['icon']}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M8 21h8M12 17v4M7 4h10v5a5 5 0 0 1-10 0V4z" />
+      <path d="M17 5h3v2a3 3 0 0 1-3 3M7 5H4v2a3 3 0 0 0 3 3" />
+    </svg>
+  );
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+function formatDuration(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function RunRow({ run, rank }: { run: RunRecord; rank: number }) {
+  return (
+    <li className={styles['row']}>
+      <span className={styles['rank']}>{rank}</span>
+      <span className={styles['rowScore']}>{formatScore(run.score)}</span>
+      <span className={styles['rowDetail']}>
+        {run.height} blocks · {formatDuration(run.duration)}
+      </span>
+      {run.mode === 'daily' ? (
+        <span className={styles['tag']}>DAILY</span>
+      ) : (
+        <span className={styles['tag']}>{DIFFICULTY_PRESETS[run.difficulty].label.toUpperCase()}</span>
+      )}
+      <span className={styles['rowDate']}>{formatDate(run.date)}</span>
+    </li>
+  );
+}
+
+function LeaderboardPanel() {
+  const runHistory = useGameStore((state) => state.runHistory);
+  const closeLeaderboard = useSettingsStore((state) => state.closeLeaderboard);
+
+  const topRuns = useMemo(
+    () => [...runHistory].sort((a, b) => b.score - a.score).slice(0, TOP_RUN_COUNT),
+    [runHistory]
+  );
+  const stats = useMemo(() => computeRunStats(runHistory), [runHistory]);
+  const tallestBucket = Math.max(1, ...stats.heightHistogram.map((bucket) => bucket.count));
+
+  const handleOverlayClick = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    if (e.target === e.currentTarget) {
+      closeLeaderboard();
+    }
+  };
+
+  return (
+    <div className={styles['overlay']} onPointerDown={handleOverlayClick} data-no-game-input>
+      <div
+        className={styles['modal']}
+        onPointerDown={(e) => { e.stopPropagation(); }}
+        data-no-game-input
+      >
+        <div className={styles['header']}>
+          <h2 className={styles['title']}>LEADERBOARD</h2>
+          <button
+            type="button"
+            className={styles['closeButton']}
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              playUIClick();
+              closeLeaderboard();
+            }}
+            aria-label="Close leaderboard"
+            title="Close leaderboard"
+            data-no-game-input
+          >
+            ✕
+          </button>
+        </div>
+
+        {runHistory.length === 0 ? (
+          <p className={styles['empty']}>No runs yet. Go stack something!</p>
+        ) : (
+          <>
+            <div className={styles['section']}>
+              <div className={styles['sectionTitle']}>Top Runs</div>
+              <ol className={styles['list']}>
+                {topRuns.map((run, index) => (
+                  <RunRow key={`${run.date}-${String(index)}`} run={run} rank={index + 1} />
+                ))}
+              </ol>
+            </div>
+
+            <div className={styles['section']}>
+              <div className={styles['sectionTitle']}>Statistics</div>
+              <div className={styles['statGrid']}>
+                <div className={styles['stat']}>
+                  <span className={styles['statValue']}>{stats.runCount}</span>
+                  <span className={styles['statLabel']}>Runs</span>
+                </div>
+                <div className={styles['stat']}>
+                  <span className={styles['statValue']}>{formatScore(Math.round(stats.averageScore))}</span>
+                  <span className={styles['statLabel']}>Avg Score</span>
+                </div>
+                <div className={styles['stat']}>
+                  <span className={styles['statValue']}>{Math.round(stats.perfectRate * 100)}%</span>
+                  <span className={styles['statLabel']}>Perfect Rate</span>
+                </div>
+                <div className={styles['stat']}>
+                  <span className={styles['statValue']}>{stats.longestStreak}</span>
+                  <span className={styles['statLabel']}>Best Streak</span>
+                </div>
+              </div>
+            </div>
+
+            <div className={styles['section']}>
+              <div className={styles['sectionTitle']}>Final Heights</div>
+              <div className={styles['histogram']}>
+                {stats.heightHistogram.map((bucket) => (
+                  <div key={bucket.min} className={styles['bar']} title={`${String(bucket.count)} runs`}>
+                    <div
+                      className={styles['barFill']}
+                      style={{ height: `${String((bucket.count / tallestBucket) * 100)}%` }}
+                    />
+                    <span className={styles['barLabel']}>{bucket.min}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function LeaderboardButton() {
+  const phase = useGameStore((state) => state.phase);
+  const isReplay = useGameStore((state) => state.isReplay);
+  const { isLeaderboardOpen, isSettingsOpen, isCalibrationOpen, openLeaderboard } = useSettingsStore();
+
+  const showButton = (phase === 'idle' || phase === 'gameover') && !isReplay;
+  if (!showButton || isLeaderboardOpen || isSettingsOpen || isCalibrationOpen) return null;
+
+  return (
+    <button
+      type="button"
+      className={styles['leaderboardButton']}
+      onPointerDown={(e) => {
+        e.stopPropagation();
+        playUIClick();
+        openLeaderboard();
+      }}
+      aria-label="Open leaderboard"
+      title="Leaderboard"
+      data-no-game-input
+    >
+      <TrophyIcon />
+    </button>
+  );
+}
+
+export function Leaderboard() {
+  const isLeaderboardOpen = useSettingsStore((state) => state.isLeaderboardOpen);
+
+  // Disable game input while the leaderboard is open
+  useEffect(() => {
+    if (!isLeaderboardOpen) return;
+    inputManager.setInputDisabled(true);
+    return () => {
+      inputManager.setInputDisabled(false);
+    };
+  }, [isLeaderboardOpen]);
+
+  if (!isLeaderboardOpen) return null;
+
+  return <LeaderboardPanel />;
+}
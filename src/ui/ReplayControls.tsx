@@ -0,0 +1,97 @@
+/**
+ * Playback controls shown while watching a replay.
+ * Pause, speed and scrub all go through the replay/game stores.
+ */
+
+import { useGameStore } from '@/state/gameStore';
+import { useReplayStore, type ReplaySpeed } from '@/state/replayStore';
+import { getAudioManager } from '@/audio';
+import styles from './styles/ReplayControls.module.css';
+
+const SPEEDS: ReplaySpeed[] = [0.5, 1, 2];
+
+function formatTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes)}:${String(seconds).padStart(2, '0')}`;
+}
+
+export function ReplayControls() {
+  const replay = useGameStore((state) => state.activeReplay);
+  const gameTime = useGameStore((state) => state.gameTime);
+  const seekReplay = useGameStore((state) => state.seekReplay);
+  const stopReplay = useGameStore((state) => state.stopReplay);
+  const { speed, paused, setSpeed, togglePaused, resetPlayback } = useReplayStore();
+
+  if (!replay) return null;
+
+  const handleExit = () => {
+    resetPlayback();
+    stopReplay();
+  };
+
+  return (
+    <div className={styles['container']} data-no-game-input>
+      <div className={styles['header']}>
+        <span className={styles['label']}>REPLAY</span>
+        <span className={styles['time']}>
+          {formatTime(gameTime)} / {formatTime(replay.duration)}
+        </span>
+      </div>
+      <input
+        type="range"
+        min="0"
+        max={replay.duration}
+        step="16"
+        value={Math.min(gameTime, replay.duration)}
+        onChange={(e) => { seekReplay(Number(e.target.value)); }}
+        className={styles['scrubber']}
+        aria-label="Replay position"
+        data-no-game-input
+      />
+      <div className={styles['buttons']}>
+        <button
+          type="button"
+          className={styles['button']}
+          onPointerDown={(e) => {
+            e.stopPropagation();
+            getAudioManager().play('ui');
+            togglePaused();
+          }}
+          data-no-game-input
+        >
+          {paused ? 'PLAY' : 'PAUSE'}
+        </button>
+        {SPEEDS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            className={`${styles['button'] ?? ''} ${speed === option ? styles['active'] ?? '' : ''}`}
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              getAudioManager().play('ui');
+              setSpeed(option);
+            }}
+            aria-pressed={speed === option ? 'true' : 'false'}
+            data-no-game-input
+          >
+            {option}x
+          </button>
+        ))}
+        <button
+          type="button"
+          className={styles['button']}
+          onPointerDown={(e) => {
+            e.stopPropagation();
+            getAudioManager().play('ui');
+            handleExit();
+          }}
+          data-no-game-input
+        >
+          EXIT
+        </button>
+      </div>
+    </div>
+  );
+}
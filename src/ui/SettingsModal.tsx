@@ -3,14 +3,35 @@
  * Visible only on launch and game over states.
  */
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useGameStore } from '@/state/gameStore';
-import { useSettingsStore } from '@/state/settingsStore';
+import { useSettingsStore, INPUT_OFFSET_LIMITS, type SfxKey } from '@/state/settingsStore';
 import { useVisualStore } from '@/state/visualStore';
 import { inputManager } from '@/game/Input';
-import { getAudioManager, getMusicManager } from '@/audio';
+import {
+  getAudioManager,
+  getMusicManager,
+  MIXER_CHANNELS,
+  MUSICAL_KEYS,
+  PLAYBACK_MODES,
+  isUserTrack,
+  saveUserTrack,
+  deleteUserTrack,
+  type MusicSource,
+  type MusicTrack,
+} from '@/audio';
+import { getHapticsManager } from '@/haptics';
 import { VARIANTS, type VisualVariant } from '@/rendering/VisualStyle';
 import type { ThemeColor } from '@/game/Theme';
+import { DIFFICULTY_PRESETS, type DifficultyPreset } from '@/core/difficulty';
+import {
+  INPUT_ACTIONS,
+  MAX_BINDINGS_PER_ACTION,
+  bindKey,
+  findConflict,
+  formatKey,
+  type InputAction,
+} from '@/game/KeyBindings';
 import styles from './styles/Settings.module.css';
 
 /** Play UI click sound */
@@ -58,11 +79,33 @@ interface SliderProps {
   value: number;
   onChange: (value: number) => void;
   id: string;
+  /** Shown at 0 (defaults to "Muted") */
+  zeroLabel?: string;
+  /** Range for non-percentage values (defaults to 0-100) */
+  min?: number;
+  max?: number;
+  step?: number;
+  /** Replaces the percentage display, e.g. for milliseconds */
+  formatValue?: (value: number) => string;
 }
 
-function VolumeSlider({ label, value, onChange, id }: SliderProps) {
-  const displayValue = value === 0 ? 'Muted' : `${value}%`;
-  const ariaValueText = value === 0 ? 'Muted' : `${value} percent`;
+function VolumeSlider({
+  label,
+  value,
+  onChange,
+  id,
+  zeroLabel = 'Muted',
+  min = 0,
+  max = 100,
+  step = 1,
+  formatValue,
+}: SliderProps) {
+  const displayValue = formatValue
+    ? formatValue(value)
+    : value === 0 ? zeroLabel : `${value}%`;
+  const ariaValueText = formatValue
+    ? formatValue(value)
+    : value === 0 ? zeroLabel : `${value} percent`;
   const labelId = `${id}-label`;
 
   return (
@@ -74,8 +117,9 @@ function VolumeSlider({ label, value, onChange, id }: SliderProps) {
       <input
         type="range"
         id={id}
-        min="0"
-        max="100"
+        min={min}
+        max={max}
+        step={step}
         value={value}
         onChange={(e) => onChange(Number(e.target.value))}
         className={styles['slider']}
@@ -123,19 +167,442 @@ function Toggle({ label, checked, onChange, id, disabled = false }: ToggleProps)
   );
 }
 
+/** A captured key that another action already uses, awaiting confirmation */
+interface PendingConflict {
+  action: InputAction;
+  code: string;
+  owner: InputAction;
+}
+
+function actionLabel(action: InputAction): string {
+  return INPUT_ACTIONS.find((entry) => entry.action === action)?.label ?? action;
+}
+
+function KeyBindingsSection() {
+  const {
+    keyBindings,
+    bindKey: bindActionKey,
+    unbindKey: unbindActionKey,
+    resetKeyBindings,
+  } = useSettingsStore();
+  const [listening, setListening] = useState<InputAction | null>(null);
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
+
+  // Don't leave a capture running once the panel closes
+  useEffect(() => {
+    return () => {
+      inputManager.cancelCapture();
+    };
+  }, []);
+
+  const startListening = (action: InputAction) => {
+    if (listening === action) {
+      inputManager.cancelCapture();
+      return;
+    }
+
+    setConflict(null);
+    setListening(action);
+    inputManager.captureNextKey((code) => {
+      setListening(null);
+      if (code === null) return;
+
+      const { keyBindings: current } = useSettingsStore.getState();
+      const owner = findConflict(current, action, code);
+      if (owner) {
+        setConflict({ action, code, owner });
+      } else {
+        bindActionKey(action, code);
+      }
+    });
+  };
+
+  const resolveConflict = (replace: boolean) => {
+    if (replace && conflict) {
+      bindActionKey(conflict.action, conflict.code);
+    }
+    setConflict(null);
+  };
+
+  // The last key of a required action can't be taken away
+  const conflictBlocked =
+    conflict !== null &&
+    bindKey(keyBindings, conflict.action, conflict.code) === keyBindings;
+
+  return (
+    <div className={styles['section']}>
+      <div className={styles['sectionTitle']}>Controls</div>
+      {INPUT_ACTIONS.map(({ action, label }) => {
+        const keys = keyBindings[action];
+        const isListening = listening === action;
+        const isFull = keys.length >= MAX_BINDINGS_PER_ACTION;
+
+        return (
+          <div key={action} className={styles['bindingRow']}>
+            <span className={styles['bindingLabel']}>{label}</span>
+            <div className={styles['bindingKeys']}>
+              {keys.length === 0 && (
+                <span className={styles['bindingEmpty']}>Unbound</span>
+              )}
+              {keys.map((code) => (
+                <button
+                  key={code}
+                  type="button"
+                  className={styles['keyChip']}
+                  onPointerDown={(e) => {
+                    e.stopPropagation();
+                    playUIClick();
+                    unbindActionKey(action, code);
+                  }}
+                  aria-label={`Remove ${formatKey(code)} from ${label}`}
+                  title="Remove"
+                  data-no-game-input
+                >
+                  {formatKey(code)}
+                  <span className={styles['keyChipRemove']} aria-hidden="true">×</span>
+                </button>
+              ))}
+              {(!isFull || isListening) && (
+                <button
+                  type="button"
+                  className={`${styles['addKeyButton'] ?? ''} ${isListening ? styles['active'] ?? '' : ''}`}
+                  onPointerDown={(e) => {
+                    e.stopPropagation();
+                    playUIClick();
+                    startListening(action);
+                  }}
+                  aria-label={isListening ? 'Cancel key capture' : `Add key for ${label}`}
+                  {...(isListening ? { 'aria-pressed': 'true' } : { 'aria-pressed': 'false' })}
+                  data-no-game-input
+                >
+                  {isListening ? 'Press a key…' : '+'}
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {conflict && (
+        <div className={styles['conflictNotice']} role="alert">
+          <span>
+            {formatKey(conflict.code)} is bound to {actionLabel(conflict.owner)}.
+            {conflictBlocked
+              ? ` It's the only key for ${actionLabel(conflict.owner)}, so it can't be moved.`
+              : ` Move it to ${actionLabel(conflict.action)}?`}
+          </span>
+          <div className={styles['conflictActions']}>
+            {!conflictBlocked && (
+              <button
+                type="button"
+                className={`${styles['optionButton'] ?? ''} ${styles['active'] ?? ''}`}
+                onPointerDown={(e) => {
+                  e.stopPropagation();
+                  playUIClick();
+                  resolveConflict(true);
+                }}
+                data-no-game-input
+              >
+                Move
+              </button>
+            )}
+            <button
+              type="button"
+              className={styles['optionButton']}
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                playUIClick();
+                resolveConflict(false);
+              }}
+              data-no-game-input
+            >
+              {conflictBlocked ? 'OK' : 'Cancel'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <span className={styles['helperText']}>
+        Tap + then press a key. Esc cancels and always closes menus.
+      </span>
+      <button
+        type="button"
+        className={styles['linkButton']}
+        onPointerDown={(e) => {
+          e.stopPropagation();
+          playUIClick();
+          inputManager.cancelCapture();
+          setConflict(null);
+          resetKeyBindings();
+        }}
+        data-no-game-input
+      >
+        Reset controls
+      </button>
+    </div>
+  );
+}
+
+function PlaylistSection() {
+  const {
+    playlist,
+    playbackMode,
+    setPlaybackMode,
+    addPlaylistTracks,
+    removePlaylistTrack,
+    movePlaylistTrack,
+    setPlaylistTrackEnabled,
+  } = useSettingsStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleFiles = async (files: File[]) => {
+    setImporting(true);
+    setImportError(null);
+    const saved: MusicTrack[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        saved.push(await saveUserTrack(file));
+      } catch (err) {
+        errors.push(err instanceof Error ? err.message : `${file.name} could not be saved`);
+      }
+    }
+    addPlaylistTracks(saved);
+    setImportError(errors.length > 0 ? errors.join('. ') : null);
+    setImporting(false);
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await deleteUserTrack(id);
+      removePlaylistTrack(id);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Track could not be removed');
+    }
+  };
+
+  const enabledCount = playlist.filter((entry) => entry.enabled).length;
+
+  return (
+    <div className={styles['section']}>
+      <div className={styles['sectionTitle']}>Playlist</div>
+      <div className={styles['optionGroup']}>
+        {PLAYBACK_MODES.map(({ mode, label }) => {
+          const isSelected = playbackMode === mode;
+          return (
+            <button
+              key={mode}
+              type="button"
+              className={`${styles['optionButton'] ?? ''} ${isSelected ? styles['active'] ?? '' : ''}`}
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                playUIClick();
+                setPlaybackMode(mode);
+              }}
+              {...(isSelected ? { 'aria-pressed': 'true' } : { 'aria-pressed': 'false' })}
+              data-no-game-input
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
+
+      <ol className={styles['playlist']}>
+        {playlist.map((entry, index) => (
+          <li key={entry.id} className={styles['playlistRow']}>
+            <button
+              type="button"
+              className={`${styles['playlistTrack'] ?? ''} ${entry.enabled ? styles['active'] ?? '' : ''}`}
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                playUIClick();
+                setPlaylistTrackEnabled(entry.id, !entry.enabled);
+              }}
+              role="switch"
+              aria-checked={entry.enabled ? 'true' : 'false'}
+              data-no-game-input
+            >
+              <span className={styles['playlistCheck']} aria-hidden="true">
+                {entry.enabled ? '●' : '○'}
+              </span>
+              {entry.name}
+            </button>
+            <div className={styles['playlistActions']}>
+              <button
+                type="button"
+                className={styles['playlistButton']}
+                onPointerDown={(e) => {
+                  e.stopPropagation();
+                  playUIClick();
+                  movePlaylistTrack(entry.id, -1);
+                }}
+                disabled={index === 0}
+                aria-label={`Move ${entry.name} up`}
+                data-no-game-input
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className={styles['playlistButton']}
+                onPointerDown={(e) => {
+                  e.stopPropagation();
+                  playUIClick();
+                  movePlaylistTrack(entry.id, 1);
+                }}
+                disabled={index === playlist.length - 1}
+                aria-label={`Move ${entry.name} down`}
+                data-no-game-input
+              >
+                ↓
+              </button>
+              {isUserTrack(entry.id) && (
+                <button
+                  type="button"
+                  className={`${styles['playlistButton'] ?? ''} ${styles['playlistRemove'] ?? ''}`}
+                  onPointerDown={(e) => {
+                    e.stopPropagation();
+                    playUIClick();
+                    void handleRemove(entry.id);
+                  }}
+                  aria-label={`Delete ${entry.name}`}
+                  title="Delete"
+                  data-no-game-input
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {importError && (
+        <div className={styles['conflictNotice']} role="alert">
+          {importError}
+        </div>
+      )}
+      <span className={styles['helperText']}>
+        {enabledCount === 0
+          ? 'No tracks are enabled, so no music will play.'
+          : playbackMode === 'loop'
+            ? 'Loop One repeats the first enabled track.'
+            : 'Tap a track to turn it on or off. Added files are kept in this browser.'}
+      </span>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="audio/*"
+        multiple
+        hidden
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          // Let the same file be picked again later
+          e.target.value = '';
+          if (files.length > 0) void handleFiles(files);
+        }}
+      />
+      <button
+        type="button"
+        className={styles['linkButton']}
+        onPointerDown={(e) => {
+          e.stopPropagation();
+          playUIClick();
+        }}
+        // The file picker needs a click to count as a user gesture
+        onClick={() => {
+          fileInputRef.current?.click();
+        }}
+        disabled={importing}
+        data-no-game-input
+      >
+        {importing ? 'Adding…' : 'Add tracks…'}
+      </button>
+    </div>
+  );
+}
+
+function AdvancedAudioSection() {
+  const { sfxLevels, setSfxLevel, resetSfxLevels } = useSettingsStore();
+
+  return (
+    <div className={styles['section']}>
+      <div className={styles['sectionTitle']}>Advanced Audio</div>
+      {MIXER_CHANNELS.map(({ channel, label }) => (
+        <VolumeSlider
+          key={channel}
+          id={`sfx-level-${channel}`}
+          label={label}
+          value={sfxLevels[channel]}
+          onChange={(value) => {
+            setSfxLevel(channel, value);
+          }}
+          zeroLabel="Off"
+        />
+      ))}
+      <span className={styles['helperText']}>
+        Each sound&apos;s level within Sound Effects.
+      </span>
+      <button
+        type="button"
+        className={styles['linkButton']}
+        onPointerDown={(e) => {
+          e.stopPropagation();
+          playUIClick();
+          resetSfxLevels();
+        }}
+        data-no-game-input
+      >
+        Reset levels
+      </button>
+    </div>
+  );
+}
+
+function formatOffset(value: number): string {
+  return value > 0 ? `+${String(value)} ms` : `${String(value)} ms`;
+}
+
 function SettingsPanel() {
   const phase = useGameStore((state) => state.phase);
   const musicManager = getMusicManager();
   const {
     visualVariant,
     themeColor,
+    difficulty,
     musicVolume,
     sfxVolume,
+    masterVolume,
+    muted,
+    muteWhenHidden,
+    keyBindings,
+    musicSource,
+    sfxKey,
+    sfxQuantize,
+    stereoWidth,
+    monoAudio,
+    hapticIntensity,
+    inputOffsetMs,
     reducedMotion,
     setVisualVariant,
     setThemeColor,
+    setDifficulty,
+    setMasterVolume,
+    setMuted,
+    setMuteWhenHidden,
     setMusicVolume,
     setSfxVolume,
+    setMusicSource,
+    setSfxKey,
+    setSfxQuantize,
+    setStereoWidth,
+    setMonoAudio,
+    setHapticIntensity,
+    setInputOffset,
+    openCalibration,
     setReducedMotion,
     closeSettings,
     resetToDefaults,
@@ -150,11 +617,22 @@ function SettingsPanel() {
 
   const handleMusicVolumeChange = (value: number) => {
     setMusicVolume(value);
-    if (phase !== 'playing') {
+    // Preview on menus only; a paused run keeps its own track
+    if (phase === 'idle' || phase === 'gameover') {
       musicManager.startLoop();
     }
   };
 
+  const hapticsSupported = getHapticsManager().isSupported();
+
+  // Buzz once at the new level so the player can feel it
+  const handleHapticIntensityChange = (value: number) => {
+    setHapticIntensity(value);
+    const haptics = getHapticsManager();
+    haptics.setIntensity(value);
+    haptics.play('perfect');
+  };
+
   const handleOverlayClick = (e: React.PointerEvent) => {
     e.stopPropagation();
     if (e.target === e.currentTarget) {
@@ -180,6 +658,26 @@ function SettingsPanel() {
     { value: 'purple', className: styles['colorPurple'] ?? '', label: 'Purple theme' },
   ];
 
+  const difficultyOptions = Object.keys(DIFFICULTY_PRESETS) as DifficultyPreset[];
+
+  const sfxKeyOptions: SfxKey[] = ['auto', ...MUSICAL_KEYS];
+
+  // Preview the key with the first notes of a streak
+  const handleSfxKeyChange = (key: SfxKey) => {
+    setSfxKey(key);
+    const audio = getAudioManager();
+    const resolved = key === 'auto' ? musicManager.key ?? 'A' : key;
+    audio.play('perfect', { key: resolved, step: 0 });
+    setTimeout(() => {
+      audio.play('perfect', { key: resolved, step: 2 });
+    }, 120);
+  };
+
+  const musicSourceOptions: { value: MusicSource; label: string }[] = [
+    { value: 'tracks', label: 'Tracks' },
+    { value: 'synth', label: 'Synth' },
+  ];
+
   return (
     <div
       className={styles['overlay']}
@@ -264,9 +762,50 @@ function SettingsPanel() {
           </div>
         </div>
 
+        {/* Difficulty */}
+        <div className={styles['section']}>
+          <div className={styles['sectionTitle']}>Difficulty</div>
+          <div className={styles['optionGroup']}>
+            {difficultyOptions.map((option) => {
+              const isSelected = difficulty === option;
+              return (
+                <button
+                  key={option}
+                  type="button"
+                  className={`${styles['optionButton'] ?? ''} ${isSelected ? styles['active'] ?? '' : ''}`}
+                  onPointerDown={(e) => {
+                    e.stopPropagation();
+                    playUIClick();
+                    setDifficulty(option);
+                  }}
+                  {...(isSelected ? { 'aria-pressed': 'true' } : { 'aria-pressed': 'false' })}
+                  data-no-game-input
+                >
+                  {DIFFICULTY_PRESETS[option].label}
+                </button>
+              );
+            })}
+          </div>
+          <span className={styles['helperText']}>
+            {DIFFICULTY_PRESETS[difficulty].description}. Daily challenges always play on Normal.
+          </span>
+        </div>
+
         {/* Audio */}
         <div className={styles['section']}>
           <div className={styles['sectionTitle']}>Audio</div>
+          <Toggle
+            id="muted"
+            label="Mute All"
+            checked={muted}
+            onChange={setMuted}
+          />
+          <VolumeSlider
+            id="master-volume"
+            label="Master"
+            value={masterVolume}
+            onChange={setMasterVolume}
+          />
           <VolumeSlider
             id="music-volume"
             label="Music"
@@ -279,6 +818,143 @@ function SettingsPanel() {
             value={sfxVolume}
             onChange={setSfxVolume}
           />
+          {!monoAudio && (
+            <VolumeSlider
+              id="stereo-width"
+              label="Stereo Width"
+              value={stereoWidth}
+              onChange={setStereoWidth}
+              zeroLabel="Centered"
+            />
+          )}
+          <Toggle
+            id="mute-when-hidden"
+            label="Mute in Background"
+            checked={muteWhenHidden}
+            onChange={setMuteWhenHidden}
+          />
+          {keyBindings.mute.length > 0 && (
+            <span className={styles['helperText']}>
+              Press {keyBindings.mute.map(formatKey).join(' or ')} to mute or unmute anytime.
+            </span>
+          )}
+          <div className={styles['optionGroup']}>
+            {musicSourceOptions.map((option) => {
+              const isSelected = musicSource === option.value;
+              return (
+                <button
+                  key={option.value}
+                  type="button"
+                  className={`${styles['optionButton'] ?? ''} ${isSelected ? styles['active'] ?? '' : ''}`}
+                  onPointerDown={(e) => {
+                    e.stopPropagation();
+                    playUIClick();
+                    setMusicSource(option.value);
+                  }}
+                  {...(isSelected ? { 'aria-pressed': 'true' } : { 'aria-pressed': 'false' })}
+                  data-no-game-input
+                >
+                  {option.label}
+                </button>
+              );
+            })}
+          </div>
+          <span className={styles['helperText']}>
+            {musicSource === 'synth'
+              ? 'Music is generated live and climbs in key and tempo with the tower.'
+              : 'Music plays from your playlist.'}
+          </span>
+          <div className={styles['sliderHeader']}>
+            <span className={styles['sliderLabel']}>Sound Effects Key</span>
+          </div>
+          <div className={styles['keyGrid']}>
+            {sfxKeyOptions.map((option) => {
+              const isSelected = sfxKey === option;
+              return (
+                <button
+                  key={option}
+                  type="button"
+                  className={`${styles['optionButton'] ?? ''} ${isSelected ? styles['active'] ?? '' : ''}`}
+                  onPointerDown={(e) => {
+                    e.stopPropagation();
+                    handleSfxKeyChange(option);
+                  }}
+                  {...(isSelected ? { 'aria-pressed': 'true' } : { 'aria-pressed': 'false' })}
+                  data-no-game-input
+                >
+                  {option === 'auto' ? 'Auto' : option}
+                </button>
+              );
+            })}
+          </div>
+          <Toggle
+            id="sfx-quantize"
+            label="Snap Sounds to Beat"
+            checked={sfxQuantize}
+            onChange={setSfxQuantize}
+          />
+          <span className={styles['helperText']}>
+            Perfect hits climb a scale in this key. Auto follows the music&apos;s key;
+            snapping waits for the next sixteenth of the music (not uploaded tracks).
+          </span>
+        </div>
+
+        {/* Per-sound levels */}
+        <AdvancedAudioSection />
+
+        {/* Playlist */}
+        {musicSource === 'tracks' && <PlaylistSection />}
+
+        {/* Haptics */}
+        <div className={styles['section']}>
+          <div className={styles['sectionTitle']}>Haptics</div>
+          <VolumeSlider
+            id="haptic-intensity"
+            label="Vibration"
+            value={hapticIntensity}
+            onChange={handleHapticIntensityChange}
+            zeroLabel="Off"
+          />
+          {(!hapticsSupported || reducedMotion) && (
+            <span className={styles['helperText']}>
+              {hapticsSupported
+                ? 'Vibration is off while Reduced Motion is on.'
+                : 'This device or browser does not support vibration.'}
+            </span>
+          )}
+        </div>
+
+        {/* Controls */}
+        <KeyBindingsSection />
+
+        {/* Input Timing */}
+        <div className={styles['section']}>
+          <div className={styles['sectionTitle']}>Input Timing</div>
+          <VolumeSlider
+            id="input-offset"
+            label="Input Offset"
+            value={inputOffsetMs}
+            onChange={setInputOffset}
+            min={INPUT_OFFSET_LIMITS.min}
+            max={INPUT_OFFSET_LIMITS.max}
+            step={5}
+            formatValue={formatOffset}
+          />
+          <span className={styles['helperText']}>
+            Raise this if drops land after you pressed (wireless keyboards, TVs).
+          </span>
+          <button
+            type="button"
+            className={styles['linkButton']}
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              playUIClick();
+              openCalibration();
+            }}
+            data-no-game-input
+          >
+            Calibrate…
+          </button>
         </div>
 
         {/* Accessibility */}
@@ -291,6 +967,12 @@ function SettingsPanel() {
             onChange={setReducedMotion}
             disabled={visualVariant !== 'A'}
           />
+          <Toggle
+            id="mono-audio"
+            label="Mono Audio"
+            checked={monoAudio}
+            onChange={setMonoAudio}
+          />
         </div>
 
         {/* Reset */}
@@ -314,12 +996,13 @@ function SettingsPanel() {
 
 export function SettingsButton() {
   const phase = useGameStore((state) => state.phase);
-  const { isSettingsOpen, openSettings } = useSettingsStore();
+  const resumeCountdown = useGameStore((state) => state.resumeCountdown);
+  const { isSettingsOpen, isCalibrationOpen, openSettings } = useSettingsStore();
 
-  // Only show settings button on launch or gameover, not during playing
-  const showButton = phase !== 'playing';
+  // Show on launch, gameover or pause, but not once a resume is counting down
+  const showButton = phase !== 'playing' && resumeCountdown === 0;
 
-  if (!showButton || isSettingsOpen) return null;
+  if (!showButton || isSettingsOpen || isCalibrationOpen) return null;
 
   return (
     <button
@@ -340,8 +1023,17 @@ export function SettingsButton() {
 }
 
 export function SettingsModal() {
-  const { isSettingsOpen, closeSettings } = useSettingsStore();
+  const {
+    isSettingsOpen,
+    isLeaderboardOpen,
+    isCalibrationOpen,
+    openSettings,
+    closeSettings,
+  } = useSettingsStore();
   const phase = useGameStore((state) => state.phase);
+  const isReplay = useGameStore((state) => state.isReplay);
+  const pauseGame = useGameStore((state) => state.pauseGame);
+  const beginResume = useGameStore((state) => state.beginResume);
   const musicManager = getMusicManager();
   const prevOpenRef = useRef(isSettingsOpen);
 
@@ -353,22 +1045,42 @@ export function SettingsModal() {
     };
   }, [isSettingsOpen]);
 
-  // Stop preview music when settings closes outside gameplay
+  // Stop preview music when settings closes on the start screen
+  // (game over keeps its muffled bed playing)
   useEffect(() => {
-    if (prevOpenRef.current && !isSettingsOpen && phase !== 'playing') {
+    if (prevOpenRef.current && !isSettingsOpen && phase === 'idle') {
       musicManager.stop();
     }
     prevOpenRef.current = isSettingsOpen;
   }, [isSettingsOpen, phase, musicManager]);
 
-  // Handle escape key
+  // Handle escape key / gamepad Start: pause and resume a run,
+  // otherwise toggle settings where the gear shows
   useEffect(() => {
     inputManager.onEscape(() => {
       if (isSettingsOpen) {
         closeSettings();
+      } else if (phase === 'playing' && !isReplay) {
+        pauseGame();
+      } else if (phase === 'paused') {
+        playUIClick();
+        beginResume();
+      } else if (phase !== 'playing' && !isLeaderboardOpen && !isCalibrationOpen) {
+        playUIClick();
+        openSettings();
       }
     });
-  }, [isSettingsOpen, closeSettings]);
+  }, [
+    isSettingsOpen,
+    isLeaderboardOpen,
+    isCalibrationOpen,
+    phase,
+    isReplay,
+    openSettings,
+    closeSettings,
+    pauseGame,
+    beginResume,
+  ]);
 
   if (!isSettingsOpen) return null;
 